@@ -1,7 +1,11 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { TextType, type TextOperation } from "@open-ot/core";
+import {
+  TextType,
+  diffToTextOperation,
+  type TextOperation,
+} from "@open-ot/core";
 import {
   Tabs,
   TabsContent,
@@ -24,7 +28,7 @@ export function WorkingDemo() {
     const newCursor = e.target.selectionStart || 0;
 
     // Generate operation based on diff
-    const op = generateOperation(document, newValue);
+    const op = diffToTextOperation(document, newValue, newCursor);
 
     if (op.length > 0) {
       // Apply operation
@@ -140,36 +144,6 @@ export function WorkingDemo() {
   );
 }
 
-// Helper to generate operation from document diff
-function generateOperation(oldDoc: string, newDoc: string): TextOperation {
-  const op: TextOperation = [];
-
-  if (oldDoc === newDoc) return op;
-
-  let i = 0;
-  while (i < oldDoc.length && i < newDoc.length && oldDoc[i] === newDoc[i]) {
-    i++;
-  }
-
-  let j = 0;
-  while (
-    j < oldDoc.length - i &&
-    j < newDoc.length - i &&
-    oldDoc[oldDoc.length - 1 - j] === newDoc[newDoc.length - 1 - j]
-  ) {
-    j++;
-  }
-
-  const deleteLen = oldDoc.length - i - j;
-  const insertText = newDoc.slice(i, newDoc.length - j);
-
-  if (i > 0) op.push({ r: i });
-  if (deleteLen > 0) op.push({ d: deleteLen });
-  if (insertText.length > 0) op.push({ i: insertText });
-
-  return op;
-}
-
 // Helper to format operation for display
 function formatOperation(op: TextOperation): string {
   return op
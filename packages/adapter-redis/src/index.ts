@@ -1,5 +1,10 @@
 import Redis from "ioredis";
-import { IBackendAdapter, DocumentRecord } from "@open-ot/server";
+import {
+  IBackendAdapter,
+  DocumentRecord,
+  OperationOrigin,
+  StoredType,
+} from "@open-ot/server";
 
 export class RedisAdapter implements IBackendAdapter {
   private redis: Redis;
@@ -71,11 +76,14 @@ export class RedisAdapter implements IBackendAdapter {
   /**
    * Atomic commit: Add op to history AND increment revision
    * We use a Lua script or MULTI/EXEC to ensure atomicity.
+   * Key:
+   * - doc:{docId}:origins -> Hash of "{clientId}:{seq}" to revision
    */
   async saveOperation(
     docId: string,
     op: unknown,
-    newRevision: number
+    newRevision: number,
+    origin?: OperationOrigin
   ): Promise<void> {
     // We need to check if the current revision matches newRevision - 1.
     // Optimistic locking with WATCH or just a Lua script.
@@ -86,15 +94,18 @@ export class RedisAdapter implements IBackendAdapter {
     // 2. If current v != newRevision - 1, return error.
     // 3. RPUSH op to history.
     // 4. HSET v = newRevision in metadata.
-    // 5. Return success.
+    // 5. Record the origin, if any.
+    // 6. Return success.
 
     const script = `
       local docId = KEYS[1]
       local newRevision = tonumber(ARGV[1])
       local op = ARGV[2]
+      local origin = ARGV[3]
       
       local metaKey = "doc:" .. docId .. ":metadata"
       local historyKey = "doc:" .. docId .. ":history"
+      local originsKey = "doc:" .. docId .. ":origins"
       
       local currentV = redis.call("HGET", metaKey, "v")
       if not currentV then
@@ -107,6 +118,9 @@ export class RedisAdapter implements IBackendAdapter {
       
       redis.call("RPUSH", historyKey, op)
       redis.call("HSET", metaKey, "v", newRevision)
+      if origin ~= "" then
+        redis.call("HSET", originsKey, origin, newRevision)
+      end
       
       return "OK"
     `;
@@ -116,7 +130,8 @@ export class RedisAdapter implements IBackendAdapter {
       1,
       docId,
       newRevision,
-      JSON.stringify(op)
+      JSON.stringify(op),
+      origin ? originField(origin) : ""
     );
 
     if (result === "ERR_NOT_FOUND") {
@@ -130,6 +145,20 @@ export class RedisAdapter implements IBackendAdapter {
     }
   }
 
+  /**
+   * Get the revision created by the operation saved with this origin
+   */
+  async getOperationRevision(
+    docId: string,
+    origin: OperationOrigin
+  ): Promise<number | null> {
+    const revision = await this.redis.hget(
+      `doc:${docId}:origins`,
+      originField(origin)
+    );
+    return revision === null ? null : parseInt(revision, 10);
+  }
+
   /**
    * Publish a message to a channel
    */
@@ -179,16 +208,26 @@ export class RedisAdapter implements IBackendAdapter {
 
   /**
    * Helper to create a document (for testing/initialization)
+   * Pass the type itself, rather than its name, to store the snapshot
+   * serialized by the type's `serializeSnapshot`.
    */
   async createDocument(
     docId: string,
-    type: string,
+    type: string | StoredType,
     initialSnapshot: unknown
   ): Promise<void> {
+    const data =
+      typeof type !== "string" && type.serializeSnapshot
+        ? type.serializeSnapshot(initialSnapshot)
+        : initialSnapshot;
     const pipeline = this.redis.pipeline();
-    pipeline.hset(`doc:${docId}:metadata`, { type, v: 0 });
-    pipeline.set(`doc:${docId}:data`, JSON.stringify(initialSnapshot));
+    pipeline.hset(`doc:${docId}:metadata`, {
+      type: typeof type === "string" ? type : type.name,
+      v: 0,
+    });
+    pipeline.set(`doc:${docId}:data`, JSON.stringify(data));
     pipeline.del(`doc:${docId}:history`); // Clear history if recreating
+    pipeline.del(`doc:${docId}:origins`);
     await pipeline.exec();
   }
 
@@ -199,3 +238,7 @@ export class RedisAdapter implements IBackendAdapter {
     }
   }
 }
+
+function originField(origin: OperationOrigin): string {
+  return `${origin.clientId}:${origin.seq}`;
+}
@@ -8,6 +8,7 @@ vi.mock("ioredis", () => ({
 
 // Import after mock
 import { RedisAdapter } from "../src/index";
+import { StoredType } from "@open-ot/server";
 
 describe("RedisAdapter", () => {
   let adapter: RedisAdapter;
@@ -80,6 +81,22 @@ describe("RedisAdapter", () => {
     );
   });
 
+  it("should store the origin of operations", async () => {
+    await adapter.createDocument("doc1", "text", "");
+    await adapter.saveOperation("doc1", [{ i: "a" }], 1);
+    await adapter.saveOperation("doc1", [{ i: "b" }], 2, {
+      clientId: "alice",
+      seq: 3,
+    });
+
+    expect(
+      await adapter.getOperationRevision("doc1", { clientId: "alice", seq: 3 })
+    ).toBe(2);
+    expect(
+      await adapter.getOperationRevision("doc1", { clientId: "alice", seq: 4 })
+    ).toBeNull();
+  });
+
   it("should enforce concurrency", async () => {
     await adapter.createDocument("doc1", "text", "");
 
@@ -103,4 +120,21 @@ describe("RedisAdapter", () => {
     const history = await adapter.getHistory("doc1", 0);
     expect(history).toEqual([]);
   });
+
+  it("should store snapshots serialized by their type", async () => {
+    const SettingsType: StoredType = {
+      name: "settings",
+      serializeSnapshot: (snapshot) => [...(snapshot as Map<string, string>)],
+    };
+
+    await adapter.createDocument(
+      "doc1",
+      SettingsType,
+      new Map([["theme", "dark"]])
+    );
+
+    const record = await adapter.getRecord("doc1");
+    expect(record.type).toBe("settings");
+    expect(record.data).toEqual([["theme", "dark"]]);
+  });
 });
@@ -4,14 +4,26 @@ import {
   GetObjectCommand,
 } from "@aws-sdk/client-s3";
 import { Readable } from "stream";
+import { StoredType } from "@open-ot/server";
 
 export interface SnapshotAdapter {
+  /**
+   * Store a snapshot, serialized by type's `serializeSnapshot` if given.
+   */
   saveSnapshot(
     docId: string,
     revision: number,
-    snapshot: unknown
+    snapshot: unknown,
+    type?: StoredType
   ): Promise<void>;
-  loadSnapshot(docId: string, revision: number): Promise<unknown | null>;
+  /**
+   * Load a snapshot, deserialized by type's `deserializeSnapshot` if given.
+   */
+  loadSnapshot(
+    docId: string,
+    revision: number,
+    type?: StoredType
+  ): Promise<unknown | null>;
   getLatestSnapshotRevision(docId: string): Promise<number | null>;
 }
 
@@ -27,10 +39,13 @@ export class S3SnapshotAdapter implements SnapshotAdapter {
   async saveSnapshot(
     docId: string,
     revision: number,
-    snapshot: unknown
+    snapshot: unknown,
+    type?: StoredType
   ): Promise<void> {
     const key = `snapshots/${docId}/${revision}.json`;
-    const body = JSON.stringify(snapshot);
+    const body = JSON.stringify(
+      type?.serializeSnapshot ? type.serializeSnapshot(snapshot) : snapshot
+    );
 
     await this.s3.send(
       new PutObjectCommand({
@@ -59,7 +74,11 @@ export class S3SnapshotAdapter implements SnapshotAdapter {
     );
   }
 
-  async loadSnapshot(docId: string, revision: number): Promise<unknown | null> {
+  async loadSnapshot(
+    docId: string,
+    revision: number,
+    type?: StoredType
+  ): Promise<unknown | null> {
     const key = `snapshots/${docId}/${revision}.json`;
 
     try {
@@ -73,7 +92,8 @@ export class S3SnapshotAdapter implements SnapshotAdapter {
       if (!response.Body) return null;
 
       const str = await response.Body.transformToString();
-      return JSON.parse(str);
+      const data = JSON.parse(str);
+      return type?.deserializeSnapshot ? type.deserializeSnapshot(data) : data;
     } catch (e: unknown) {
       if (
         e &&
@@ -8,9 +8,17 @@ import {
 import { mockClient } from "aws-sdk-client-mock";
 import { sdkStreamMixin } from "@aws-sdk/util-stream-node";
 import { Readable } from "stream";
+import { StoredType } from "@open-ot/server";
 
 const s3Mock = mockClient(S3Client);
 
+// Snapshots are Maps, stored as lists of entries
+const SettingsType: StoredType = {
+  name: "settings",
+  serializeSnapshot: (snapshot) => [...(snapshot as Map<string, string>)],
+  deserializeSnapshot: (data) => new Map(data as [string, string][]),
+};
+
 describe("S3SnapshotAdapter", () => {
   let adapter: S3SnapshotAdapter;
 
@@ -59,6 +67,31 @@ describe("S3SnapshotAdapter", () => {
     expect(snapshot).toEqual({ foo: "bar" });
   });
 
+  it("should serialize snapshots with their type", async () => {
+    s3Mock.on(PutObjectCommand).resolves({});
+
+    await adapter.saveSnapshot(
+      "doc1",
+      1,
+      new Map([["theme", "dark"]]),
+      SettingsType
+    );
+
+    expect(s3Mock.call(0).args[0].input).toMatchObject({
+      Body: JSON.stringify([["theme", "dark"]]),
+    });
+  });
+
+  it("should deserialize snapshots with their type", async () => {
+    const stream = new Readable();
+    stream.push(JSON.stringify([["theme", "dark"]]));
+    stream.push(null);
+    s3Mock.on(GetObjectCommand).resolves({ Body: sdkStreamMixin(stream) });
+
+    const snapshot = await adapter.loadSnapshot("doc1", 1, SettingsType);
+    expect(snapshot).toEqual(new Map([["theme", "dark"]]));
+  });
+
   it("should return null if snapshot missing", async () => {
     s3Mock.on(GetObjectCommand).rejects({ name: "NoSuchKey" });
 
@@ -1,44 +1,231 @@
-import { OTType, TransportAdapter } from "@open-ot/core";
+import {
+  OTType,
+  TransportAdapter,
+  TypeRegistry,
+  deserializeOp,
+  deserializeSnapshot,
+  serializeOp,
+  serializeSnapshot,
+} from "@open-ot/core";
+import { StorageAdapter, StoredClientState } from "./storage";
+import { Cursor, Presence, PresenceEvent, transformCursor } from "./presence";
 
 export interface OTClientOptions<Snapshot, Op> {
-  type: OTType<Snapshot, Op>;
+  /**
+   * The document's type, or its type name to look up in `registry`.
+   */
+  type: OTType<Snapshot, Op> | string;
+  registry?: TypeRegistry;
   initialRevision: number;
   initialSnapshot: Snapshot;
   transport?: TransportAdapter;
+  /**
+   * Identifies this client's operations, so the server can tell a resent
+   * operation from a new one. Defaults to a random UUID, or 32 random hex
+   * digits where `crypto.randomUUID` is unavailable (non-secure contexts).
+   */
+  clientId?: string;
+  /**
+   * Where to keep the client's state, so local edits survive a reload. The
+   * state is saved after every change; use `OTClient.restore` to load it.
+   */
+  storage?: StorageAdapter;
+  /**
+   * Key of this document's state in `storage`. Required with `storage`.
+   */
+  storageKey?: string;
+  /**
+   * Called when the server rejects the pending operation.
+   */
+  onReject?: (rejection: OperationRejection) => void;
+  /**
+   * Called with false when the transport drops and with true once the client
+   * has reconnected and caught up with the server.
+   */
+  onConnectionChange?: (connected: boolean) => void;
+  /**
+   * Milliseconds to wait before reconnecting after the transport drops,
+   * doubling after each failed attempt up to 30 seconds. Set to null to only
+   * reconnect when `reconnect` is called. Defaults to 1000.
+   */
+  reconnectDelay?: number | null;
+  /**
+   * Milliseconds between resends of the local presence, so the server knows
+   * the client is still there. Set to null to never resend. Defaults to
+   * 10000.
+   */
+  presenceInterval?: number | null;
+}
+
+/**
+ * A change to the client's snapshot, as passed to `onOperation` listeners.
+ * - `local`: an op from `applyLocal`.
+ * - `remote`: an op from the server, as transformed to apply to the local
+ *   snapshot.
+ * - `rollback`: the server rejected the pending op, and the snapshot went
+ *   back to the server's state.
+ * `snapshot` is the snapshot before the op.
+ */
+export type OperationEvent<Snapshot, Op> =
+  | { type: "local" | "remote"; op: Op; snapshot: Snapshot }
+  | { type: "rollback" };
+
+/**
+ * Why the server rejected an operation, as sent in a "reject" message.
+ */
+export interface OperationRejection {
+  reason?: string;
+  path?: (string | number)[];
 }
 
 type ClientState = "Synchronized" | "AwaitingConfirm" | "AwaitingWithBuffer";
 
-interface MessageProtocol<Op> {
-  type: "op" | "ack";
-  op?: Op;
+// "resyncing": reconnected and waiting for the ops missed while offline
+type ConnectionState = "connected" | "resyncing" | "disconnected";
+
+const MAX_RECONNECT_DELAY = 30_000;
+
+// Confirmed ops kept to place cursors sent at an older revision
+const PRESENCE_HISTORY = 100;
+
+interface MessageProtocol extends OperationRejection {
+  type: "op" | "ack" | "reject" | "resync" | "presence";
+  // Serialized with the type's serializeOp
+  op?: unknown;
+  // "resync" only: the ops after the client's revision, serialized
+  ops?: unknown[];
+  // "resync" reply only: the revision the pending op created, if stored
+  acknowledged?: number;
   revision?: number;
+  // The client that sent an op, and the op's number among that client's
+  // ops. Acks and rejections name the op they answer with `seq`.
+  clientId?: string;
+  seq?: number;
+  // "presence" only: the client's presence at `revision`, or null when it
+  // left
+  presence?: Presence | null;
 }
 
 export class OTClient<Snapshot, Op> {
   private type: OTType<Snapshot, Op>;
   private revision: number;
   private snapshot: Snapshot;
+  // Snapshot at `revision` without any local edits, i.e. the server's state
+  private confirmedSnapshot: Snapshot;
   private state: ClientState;
   private transport: TransportAdapter | null = null;
 
-  // Pending operation (sent to server, waiting for ACK)
+  // Pending operation (sent to server, waiting for ACK).
+  // Which of pendingOp and bufferOp are set depends on `state`, not on
+  // whether they are null: some types (e.g. JSON) use null as a no-op.
   private pendingOp: Op | null = null;
 
   // Buffer operation (local edits while waiting for ACK)
   private bufferOp: Op | null = null;
 
   private listeners: Set<(snapshot: Snapshot) => void> = new Set();
+  private operationListeners: Set<
+    (event: OperationEvent<Snapshot, Op>) => void
+  > = new Set();
+
+  private onReject?: (rejection: OperationRejection) => void;
+
+  private clientId: string;
+  // Sequence number of the latest op sent as pending; resends reuse it
+  private seq = 0;
+
+  private connection: ConnectionState = "connected";
+  // Ops and acks that arrived before the ones preceding them, by revision
+  private earlyMessages: Map<number, MessageProtocol> = new Map();
+  // Remote ops received while resyncing, applied after the missed ops
+  private resyncQueue: MessageProtocol[] = [];
+  private onConnectionChange?: (connected: boolean) => void;
+  private reconnectDelay: number | null;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private storage: { adapter: StorageAdapter; key: string } | null = null;
+  // Saves run one at a time; changes made meanwhile are saved together
+  private saving: Promise<void> = Promise.resolve();
+  private saveQueued = false;
+  private storageError: unknown = null;
+
+  // Cursors are kept in the coordinates of the local snapshot
+  private presence: Presence | null = null;
+  // Whether the local presence changed since it was last sent
+  private presenceChanged = false;
+  // The last presence message sent, resent every presenceInterval
+  private presenceMessage: MessageProtocol | null = null;
+  private presenceInterval: number | null;
+  private presenceTimer: ReturnType<typeof setInterval> | null = null;
+  private peers: Map<string, Presence> = new Map();
+  private presenceListeners: Set<(event: PresenceEvent) => void> = new Set();
+  // The latest confirmed ops, oldest first, and the side to transform
+  // cursors over them with: remote ops move cursors after their inserts,
+  // this client's ops keep them before
+  private history: { op: Op; side: "left" | "right" }[] = [];
+
+  /**
+   * Create a client from the state stored under `storageKey`, e.g. after a
+   * page reload, or from `initialSnapshot` and `initialRevision` if nothing
+   * is stored. Restored local edits are sent once the client has resynced
+   * with the server.
+   */
+  public static async restore<Snapshot, Op>(
+    options: OTClientOptions<Snapshot, Op>
+  ): Promise<OTClient<Snapshot, Op>> {
+    if (!options.storage || options.storageKey === undefined) {
+      throw new Error("Cannot restore a client without storage");
+    }
+    const stored = await options.storage.load(options.storageKey);
+    if (!stored) return new OTClient(options);
+
+    const client = new OTClient({
+      ...options,
+      clientId: stored.clientId,
+      transport: undefined,
+    });
+    client.restoreState(stored);
+    if (options.transport) {
+      // The stored revision may be behind the server's
+      client.transport = options.transport;
+      // A failed attempt schedules the next one
+      client.reconnect().catch(() => {});
+    }
+    return client;
+  }
 
   constructor(options: OTClientOptions<Snapshot, Op>) {
-    this.type = options.type;
+    this.type = resolveType(options);
     this.revision = options.initialRevision;
     this.snapshot = options.initialSnapshot;
+    this.confirmedSnapshot = options.initialSnapshot;
     this.state = "Synchronized";
+    this.onReject = options.onReject;
+    this.clientId = options.clientId ?? randomClientId();
+    this.onConnectionChange = options.onConnectionChange;
+    this.reconnectDelay =
+      options.reconnectDelay === undefined ? 1000 : options.reconnectDelay;
+    this.presenceInterval =
+      options.presenceInterval === undefined
+        ? 10_000
+        : options.presenceInterval;
+
+    if (options.storage) {
+      if (options.storageKey === undefined) {
+        throw new Error("A storageKey is required to use storage");
+      }
+      this.storage = { adapter: options.storage, key: options.storageKey };
+    }
 
     if (options.transport) {
       this.transport = options.transport;
-      this.transport.connect(this.handleMessage.bind(this));
+      this.transport
+        .connect(
+          this.handleMessage.bind(this),
+          this.handleDisconnect.bind(this)
+        )
+        .catch(() => this.handleDisconnect());
     }
   }
 
@@ -53,52 +240,478 @@ export class OTClient<Snapshot, Op> {
     this.listeners.forEach((listener) => listener(this.snapshot));
   }
 
+  /**
+   * Listen to the ops applied to the snapshot, e.g. to keep an undo history.
+   * Returns a function that removes the listener.
+   */
+  public onOperation(
+    callback: (event: OperationEvent<Snapshot, Op>) => void
+  ): () => void {
+    this.operationListeners.add(callback);
+    return () => {
+      this.operationListeners.delete(callback);
+    };
+  }
+
+  private emit(event: OperationEvent<Snapshot, Op>) {
+    this.operationListeners.forEach((listener) => listener(event));
+  }
+
   private handleMessage(msg: unknown) {
-    const message = msg as MessageProtocol<Op>;
+    const message = msg as MessageProtocol;
 
     if (message.type === "ack") {
-      this.serverAck();
-    } else if (message.type === "op" && message.op) {
-      this.applyRemote(message.op);
+      this.receiveInOrder(message);
+    } else if (message.type === "reject") {
+      if (this.answersPending(message)) {
+        this.serverReject({ reason: message.reason, path: message.path });
+      }
+    } else if (message.type === "resync") {
+      // Replies to an earlier resync are stale
+      if (this.connection !== "resyncing") return;
+      this.serverResync(
+        (message.ops ?? []).map((op) => deserializeOp(this.type, op)),
+        message.acknowledged
+      );
+    } else if (message.type === "presence") {
+      // Presence refers to revisions the client may not have yet
+      if (this.connection === "resyncing") {
+        this.resyncQueue.push(message);
+      } else {
+        this.receivePresence(message);
+      }
+    } else if (message.type === "op" && message.op !== undefined) {
+      this.receiveInOrder(message);
+    }
+  }
+
+  // Ops and acks each advance the revision, so they are handled in the
+  // order of their revisions. A transport that reorders messages can
+  // deliver some early; they wait until the ones before them arrive.
+  private receiveInOrder(message: MessageProtocol) {
+    if (this.connection === "resyncing") {
+      this.resyncQueue.push(message);
+      return;
+    }
+
+    const revision = message.revision;
+    if (revision !== undefined) {
+      // Messages the client already has, e.g. from a resync, are skipped
+      if (revision <= this.revision) return;
+      if (revision > this.revision + 1) {
+        this.earlyMessages.set(revision, message);
+        return;
+      }
+    }
+
+    if (message.type === "ack" || message.clientId === this.clientId) {
+      // An ack, or the client's own op stored before an ack could arrive
+      if (this.answersPending(message)) this.serverAck();
+    } else {
+      this.applyRemote(deserializeOp(this.type, message.op));
     }
+
+    const next = this.earlyMessages.get(this.revision + 1);
+    this.earlyMessages.forEach((_, early) => {
+      if (early <= this.revision + 1) this.earlyMessages.delete(early);
+    });
+    if (next) this.receiveInOrder(next);
+  }
+
+  // Whether a message answers the pending op. Acks for an op that was
+  // already acknowledged, e.g. of a resend, are ignored.
+  private answersPending(message: MessageProtocol): boolean {
+    if (message.seq === undefined) return true;
+    return this.state !== "Synchronized" && message.seq === this.seq;
   }
 
+  // Ops cross the transport serialized with the type's serializeOp.
+  // While offline nothing is sent: the pending op is sent after resyncing.
   private sendOperation(op: Op) {
-    if (this.transport) {
-      this.transport.send({
+    if (this.transport && this.connection === "connected") {
+      this.send({
         type: "op",
-        op: op,
+        op: serializeOp(this.type, op),
         revision: this.revision,
+        clientId: this.clientId,
+        seq: this.seq,
       });
     }
   }
 
+  private send(message: MessageProtocol) {
+    this.transport?.send(message).catch(() => this.handleDisconnect());
+  }
+
+  private handleDisconnect() {
+    if (this.connection === "disconnected") return;
+    this.connection = "disconnected";
+    this.resyncQueue = [];
+    this.earlyMessages.clear();
+    this.dropPeers();
+    this.onConnectionChange?.(false);
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect() {
+    if (this.reconnectDelay === null || this.reconnectTimer) return;
+    const delay = Math.min(
+      this.reconnectDelay * 2 ** this.reconnectAttempts,
+      MAX_RECONNECT_DELAY
+    );
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      // A failed attempt schedules the next one
+      this.reconnect().catch(() => {});
+    }, delay);
+  }
+
+  /**
+   * Reconnect the transport and resynchronize with the server: the client
+   * sends a "resync" message with its revision, and the server replies with
+   * the ops it missed. Pending and buffered edits are transformed over them
+   * and the pending op is sent again.
+   * Called automatically after the transport drops, unless `reconnectDelay`
+   * is null.
+   */
+  public async reconnect(): Promise<void> {
+    if (!this.transport) {
+      throw new Error("Cannot reconnect without a transport");
+    }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    this.connection = "disconnected";
+    try {
+      await this.transport.connect(
+        this.handleMessage.bind(this),
+        this.handleDisconnect.bind(this)
+      );
+    } catch (error) {
+      this.scheduleReconnect();
+      throw error;
+    }
+
+    this.reconnectAttempts = 0;
+    this.connection = "resyncing";
+    this.resyncQueue = [];
+    // The resync reply includes what they were waiting for
+    this.earlyMessages.clear();
+    // The server forgets the client's presence when it disconnects
+    this.presenceChanged = this.presence !== null;
+    this.startPresenceTimer();
+    this.send({
+      type: "resync",
+      revision: this.revision,
+      clientId: this.clientId,
+      // The pending op, which the server may have stored already
+      ...(this.state !== "Synchronized" && { seq: this.seq }),
+    });
+  }
+
+  /**
+   * Close the transport without reconnecting. Local edits are kept and sent
+   * after `reconnect`.
+   */
+  public async disconnect(): Promise<void> {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    const wasConnected = this.connection !== "disconnected";
+    this.connection = "disconnected";
+    this.resyncQueue = [];
+    this.earlyMessages.clear();
+    this.stopPresenceTimer();
+    this.dropPeers();
+    await this.transport?.disconnect();
+    if (wasConnected) this.onConnectionChange?.(false);
+  }
+
+  /**
+   * Wait until the client's latest state is saved to `storage`.
+   * Rejects with the storage's error if saving failed.
+   */
+  public async flush(): Promise<void> {
+    await this.saving;
+    if (this.storageError) throw this.storageError;
+  }
+
+  private persist() {
+    if (!this.storage || this.saveQueued) return;
+    const { adapter, key } = this.storage;
+    this.saveQueued = true;
+    this.saving = this.saving
+      .then(() => {
+        this.saveQueued = false;
+        return adapter.save(key, this.storedState());
+      })
+      .then(
+        () => {
+          this.storageError = null;
+        },
+        (error: unknown) => {
+          this.storageError = error;
+        }
+      );
+  }
+
+  private storedState(): StoredClientState {
+    const ops: Op[] = [];
+    if (this.state !== "Synchronized") ops.push(this.pendingOp as Op);
+    if (this.state === "AwaitingWithBuffer") ops.push(this.bufferOp as Op);
+    return {
+      clientId: this.clientId,
+      revision: this.revision,
+      snapshot: serializeSnapshot(this.type, this.confirmedSnapshot),
+      ops: ops.map((op) => serializeOp(this.type, op)),
+      seq: this.seq,
+    };
+  }
+
+  private restoreState(stored: StoredClientState) {
+    const ops = stored.ops.map((op) => deserializeOp(this.type, op));
+    this.revision = stored.revision;
+    this.seq = stored.seq;
+    this.confirmedSnapshot = deserializeSnapshot(this.type, stored.snapshot);
+    this.snapshot = ops.reduce(
+      (snapshot, op) => this.type.apply(snapshot, op),
+      this.confirmedSnapshot
+    );
+    if (ops.length > 0) {
+      this.pendingOp = ops[0] as Op;
+      this.state = "AwaitingConfirm";
+    }
+    if (ops.length > 1) {
+      this.bufferOp = ops[1] as Op;
+      this.state = "AwaitingWithBuffer";
+    }
+  }
+
+  /**
+   * Share this client's presence with the other clients on the document:
+   * `data` is any JSON value, e.g. the user's name, and `cursor` a position
+   * in the local snapshot. Presence is only sent while the client has no
+   * unacknowledged edits, so others can place the cursor; until then they
+   * move the previous cursor along with the edits.
+   */
+  public setPresence(data: unknown, cursor: Cursor | null = null): void {
+    this.presence = { data, cursor };
+    this.presenceChanged = true;
+    this.sendPresence();
+    this.startPresenceTimer();
+  }
+
+  /**
+   * Stop sharing this client's presence. The other clients see it leave.
+   */
+  public clearPresence(): void {
+    if (!this.presence) return;
+    this.presence = null;
+    this.presenceChanged = true;
+    this.stopPresenceTimer();
+    this.sendPresence();
+  }
+
+  /**
+   * This client's presence, with its cursor moved along with the edits made
+   * since it was set.
+   */
+  public getPresence(): Presence | null {
+    return this.presence;
+  }
+
+  /**
+   * The presence of the other clients on the document, by client ID, with
+   * cursors in the coordinates of the local snapshot.
+   */
+  public getPeers(): Map<string, Presence> {
+    return new Map(this.peers);
+  }
+
+  /**
+   * Listen to other clients joining, updating their presence and leaving.
+   * Returns a function that removes the listener.
+   */
+  public onPresence(callback: (event: PresenceEvent) => void): () => void {
+    this.presenceListeners.add(callback);
+    return () => {
+      this.presenceListeners.delete(callback);
+    };
+  }
+
+  // Presence is sent while synchronized, when the local snapshot is the
+  // server's snapshot at `revision`. Clearing it can be sent any time.
+  private sendPresence() {
+    if (!this.presenceChanged || !this.transport) return;
+    if (this.connection !== "connected") return;
+    if (this.presence && this.state !== "Synchronized") return;
+
+    this.presenceChanged = false;
+    this.presenceMessage = {
+      type: "presence",
+      clientId: this.clientId,
+      presence: this.presence,
+      revision: this.revision,
+    };
+    this.send(this.presenceMessage);
+  }
+
+  private startPresenceTimer() {
+    if (this.presenceInterval === null || this.presenceTimer) return;
+    if (!this.presence || !this.transport) return;
+    this.presenceTimer = setInterval(() => {
+      const message = this.presenceMessage;
+      if (this.connection === "connected" && message?.presence) {
+        this.send(message);
+      }
+    }, this.presenceInterval);
+  }
+
+  private stopPresenceTimer() {
+    if (this.presenceTimer) {
+      clearInterval(this.presenceTimer);
+      this.presenceTimer = null;
+    }
+  }
+
+  private receivePresence(message: MessageProtocol) {
+    const clientId = message.clientId;
+    if (clientId === undefined || clientId === this.clientId) return;
+
+    const previous = this.peers.get(clientId);
+    if (!message.presence) {
+      if (previous) {
+        this.peers.delete(clientId);
+        this.emitPresence({ type: "leave", clientId, presence: previous });
+      }
+      return;
+    }
+
+    const presence: Presence = {
+      data: message.presence.data,
+      cursor: this.placeCursor(
+        message.presence.cursor ?? null,
+        message.revision ?? this.revision
+      ),
+    };
+    this.peers.set(clientId, presence);
+    this.emitPresence({
+      type: previous ? "update" : "join",
+      clientId,
+      presence,
+    });
+  }
+
+  // Transform a cursor in the server's snapshot at `revision` to the local
+  // snapshot: over the confirmed ops since, then over the local edits the
+  // server hasn't acknowledged. Null if the ops since are unknown.
+  private placeCursor(cursor: Cursor | null, revision: number): Cursor | null {
+    const missing = this.revision - revision;
+    if (missing < 0 || missing > this.history.length) return null;
+
+    const since = this.history.slice(this.history.length - missing);
+    for (const { op, side } of since) {
+      cursor = transformCursor(this.type, cursor, op, side);
+    }
+    if (this.state !== "Synchronized") {
+      cursor = transformCursor(this.type, cursor, this.pendingOp as Op, "left");
+    }
+    if (this.state === "AwaitingWithBuffer") {
+      cursor = transformCursor(this.type, cursor, this.bufferOp as Op, "left");
+    }
+    return cursor;
+  }
+
+  // Move the cursors over an op applied to the local snapshot. Cursors
+  // move after the inserts of their own client and stay before others'.
+  private moveCursors(op: Op, local: boolean) {
+    if (this.presence) {
+      this.presence = {
+        ...this.presence,
+        cursor: transformCursor(
+          this.type,
+          this.presence.cursor,
+          op,
+          local ? "right" : "left"
+        ),
+      };
+    }
+    this.peers.forEach((presence, clientId) => {
+      this.peers.set(clientId, {
+        ...presence,
+        cursor: transformCursor(
+          this.type,
+          presence.cursor,
+          op,
+          local ? "left" : "right"
+        ),
+      });
+    });
+  }
+
+  private remember(op: Op, side: "left" | "right") {
+    this.history.push({ op, side });
+    if (this.history.length > PRESENCE_HISTORY) this.history.shift();
+  }
+
+  // Without a connection the client can't tell who is still there
+  private dropPeers() {
+    const peers = this.peers;
+    this.peers = new Map();
+    peers.forEach((presence, clientId) =>
+      this.emitPresence({ type: "leave", clientId, presence })
+    );
+  }
+
+  private emitPresence(event: PresenceEvent) {
+    this.presenceListeners.forEach((listener) => listener(event));
+  }
+
+  /**
+   * Whether the transport is connected and the client has caught up with the
+   * server.
+   */
+  public isConnected(): boolean {
+    return this.connection === "connected";
+  }
+
   /**
    * Apply a local operation generated by the user.
    * Returns the operation that should be sent to the server, or null if buffering.
    */
   public applyLocal(op: Op): Op | null {
+    const before = this.snapshot;
     this.snapshot = this.type.apply(this.snapshot, op);
+    this.moveCursors(op, true);
     this.notify();
+    this.persist();
 
+    let opToSend: Op | null = null;
     switch (this.state) {
       case "Synchronized":
         this.pendingOp = op;
         this.state = "AwaitingConfirm";
+        this.seq++;
         this.sendOperation(op);
-        return op;
+        opToSend = op;
+        break;
 
       case "AwaitingConfirm":
         this.bufferOp = op;
         this.state = "AwaitingWithBuffer";
-        return null;
+        break;
 
       case "AwaitingWithBuffer":
-        if (!this.bufferOp)
-          throw new Error("Invalid state: AwaitingWithBuffer but no bufferOp");
-        this.bufferOp = this.type.compose(this.bufferOp, op);
-        return null;
+        this.bufferOp = this.type.compose(this.bufferOp as Op, op);
+        break;
     }
+
+    this.emit({ type: "local", op, snapshot: before });
+    return opToSend;
   }
 
   /**
@@ -107,86 +720,152 @@ export class OTClient<Snapshot, Op> {
    * Returns the next operation to send (if any), or null.
    */
   public serverAck(): Op | null {
+    if (this.state === "Synchronized") {
+      throw new Error("Cannot call serverAck in Synchronized state");
+    }
+    this.persist();
+
     this.revision++;
+    this.confirmedSnapshot = this.type.apply(
+      this.confirmedSnapshot,
+      this.pendingOp as Op
+    );
+    this.remember(this.pendingOp as Op, "left");
 
     switch (this.state) {
-      case "Synchronized":
-        throw new Error("Cannot call serverAck in Synchronized state");
-
       case "AwaitingConfirm":
         this.pendingOp = null;
         this.state = "Synchronized";
+        this.sendPresence();
         return null;
 
       case "AwaitingWithBuffer":
         this.pendingOp = this.bufferOp;
         this.bufferOp = null;
         this.state = "AwaitingConfirm";
-        if (this.pendingOp) {
-          this.sendOperation(this.pendingOp);
-        }
+        this.seq++;
+        this.sendOperation(this.pendingOp as Op);
         return this.pendingOp;
     }
   }
 
+  /**
+   * Handle a rejection from the server.
+   * The server did not store the pending operation, so it is rolled back
+   * together with any buffered edits made on top of it, and the snapshot
+   * returns to the last state confirmed by the server.
+   */
+  public serverReject(rejection: OperationRejection = {}): void {
+    if (this.state === "Synchronized") {
+      throw new Error("Cannot call serverReject in Synchronized state");
+    }
+    this.persist();
+
+    this.pendingOp = null;
+    this.bufferOp = null;
+    this.state = "Synchronized";
+    this.snapshot = this.confirmedSnapshot;
+
+    this.notify();
+    this.emit({ type: "rollback" });
+    this.onReject?.(rejection);
+    this.sendPresence();
+  }
+
+  /**
+   * Handle the server's reply to a resync: apply the ops the client missed
+   * since its revision, transforming pending and buffered edits over them.
+   * An acknowledgement lost with the connection can't arrive anymore: if the
+   * server stored the pending op, `acknowledged` is the revision it created
+   * and that op counts as acknowledged. Otherwise the pending op is sent
+   * again.
+   * Returns the pending operation to resend, or null.
+   */
+  public serverResync(ops: Op[], acknowledged?: number): Op | null {
+    for (const op of ops) {
+      if (this.revision + 1 === acknowledged && this.state !== "Synchronized") {
+        this.serverAck();
+      } else {
+        this.applyRemote(op);
+      }
+    }
+
+    const queue = this.resyncQueue;
+    this.resyncQueue = [];
+    const wasConnected = this.connection === "connected";
+    this.connection = "connected";
+
+    // The pending op was sent before the client caught up; send it again
+    // at the current revision
+    if (this.state !== "Synchronized") {
+      this.sendOperation(this.pendingOp as Op);
+    }
+    this.sendPresence();
+    queue.forEach((message) => this.handleMessage(message));
+
+    if (!wasConnected) this.onConnectionChange?.(true);
+    return this.state === "Synchronized" ? null : (this.pendingOp as Op);
+  }
+
   /**
    * Apply a remote operation from the server.
    * Returns the operation that should be applied to the local document (transformed).
    */
   public applyRemote(op: Op): Op {
-    this.revision++;
-
+    const before = this.snapshot;
+    // Work out the new state before changing any of it: if the type rejects
+    // the op, e.g. with a JsonValidationError, the client is left as it was
+    const confirmedSnapshot = this.type.apply(this.confirmedSnapshot, op);
+    let pendingOp = this.pendingOp;
+    let bufferOp = this.bufferOp;
     let appliedOp = op;
 
     switch (this.state) {
       case "Synchronized":
-        this.snapshot = this.type.apply(this.snapshot, op);
         break;
 
       case "AwaitingConfirm": {
-        if (!this.pendingOp)
-          throw new Error("Invalid state: AwaitingConfirm but no pendingOp");
-
-        const pendingPrime = this.type.transform(this.pendingOp, op, "right");
-        const remotePrime = this.type.transform(op, this.pendingOp, "left");
-
-        this.pendingOp = pendingPrime;
-        this.snapshot = this.type.apply(this.snapshot, remotePrime);
-        appliedOp = remotePrime;
+        pendingOp = this.type.transform(this.pendingOp as Op, op, "right");
+        appliedOp = this.type.transform(op, this.pendingOp as Op, "left");
         break;
       }
 
       case "AwaitingWithBuffer": {
-        if (!this.pendingOp)
-          throw new Error("Invalid state: AwaitingWithBuffer but no pendingOp");
-        if (!this.bufferOp)
-          throw new Error("Invalid state: AwaitingWithBuffer but no bufferOp");
-
         // 1. Transform pending vs remote
-        const pendingPrime2 = this.type.transform(this.pendingOp, op, "right");
-        const remotePrime2 = this.type.transform(op, this.pendingOp, "left");
+        pendingOp = this.type.transform(this.pendingOp as Op, op, "right");
+        const remotePrime = this.type.transform(
+          op,
+          this.pendingOp as Op,
+          "left"
+        );
 
         // 2. Transform buffer vs remote'
-        const bufferPrime = this.type.transform(
-          this.bufferOp,
-          remotePrime2,
+        bufferOp = this.type.transform(
+          this.bufferOp as Op,
+          remotePrime,
           "right"
         );
-        const remotePrime3 = this.type.transform(
-          remotePrime2,
-          this.bufferOp,
+        appliedOp = this.type.transform(
+          remotePrime,
+          this.bufferOp as Op,
           "left"
         );
-
-        this.pendingOp = pendingPrime2;
-        this.bufferOp = bufferPrime;
-        this.snapshot = this.type.apply(this.snapshot, remotePrime3);
-        appliedOp = remotePrime3;
         break;
       }
     }
+    const snapshot = this.type.apply(this.snapshot, appliedOp);
+
+    this.persist();
+    this.revision++;
+    this.confirmedSnapshot = confirmedSnapshot;
+    this.pendingOp = pendingOp;
+    this.bufferOp = bufferOp;
+    this.snapshot = snapshot;
+    this.remember(op, "right");
 
+    this.moveCursors(appliedOp, false);
     this.notify();
+    this.emit({ type: "remote", op: appliedOp, snapshot: before });
     return appliedOp;
   }
 
@@ -197,4 +876,30 @@ export class OTClient<Snapshot, Op> {
   public getRevision(): number {
     return this.revision;
   }
+
+  public getType(): OTType<Snapshot, Op> {
+    return this.type;
+  }
+}
+
+// crypto.randomUUID only exists in secure contexts (HTTPS or localhost)
+function randomClientId(): string {
+  if (typeof crypto.randomUUID === "function") return crypto.randomUUID();
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0"));
+  return hex.join("");
+}
+
+function resolveType<Snapshot, Op>(
+  options: OTClientOptions<Snapshot, Op>
+): OTType<Snapshot, Op> {
+  if (typeof options.type !== "string") return options.type;
+  if (!options.registry) {
+    throw new Error(`Cannot look up type ${options.type} without a registry`);
+  }
+  const type = options.registry.get<Snapshot, Op>(options.type);
+  if (!type) {
+    throw new Error(`Unknown type: ${options.type}`);
+  }
+  return type;
 }
@@ -1 +1,4 @@
 export * from "./client";
+export * from "./presence";
+export * from "./storage";
+export * from "./undo";
@@ -0,0 +1,47 @@
+import { OTType } from "@open-ot/core";
+
+/**
+ * A cursor or selection in the document, as positions the type's
+ * `transformCursor` understands. `anchor` is where the selection started and
+ * `head` is where the caret is; they are equal for a collapsed cursor.
+ */
+export interface Cursor {
+  anchor: number;
+  head: number;
+}
+
+/**
+ * What a client shares with the other clients on the document: any JSON
+ * value, e.g. the user's name and color, plus its cursor.
+ */
+export interface Presence<Data = unknown> {
+  data: Data;
+  cursor: Cursor | null;
+}
+
+/**
+ * A change to the other clients on the document, as passed to `onPresence`
+ * listeners. `leave` is passed the client's last presence.
+ */
+export interface PresenceEvent {
+  type: "join" | "update" | "leave";
+  clientId: string;
+  presence: Presence;
+}
+
+/**
+ * Transform both ends of a cursor through an op. Types without
+ * `transformCursor` leave cursors where they are.
+ */
+export function transformCursor<Snapshot, Op>(
+  type: OTType<Snapshot, Op>,
+  cursor: Cursor | null,
+  op: Op,
+  side: "left" | "right"
+): Cursor | null {
+  if (!cursor || !type.transformCursor) return cursor;
+  return {
+    anchor: type.transformCursor(cursor.anchor, op, side),
+    head: type.transformCursor(cursor.head, op, side),
+  };
+}
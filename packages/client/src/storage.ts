@@ -0,0 +1,132 @@
+/**
+ * What an `OTClient` stores to survive a page reload: the server's state it
+ * last knew and the local ops the server hasn't acknowledged.
+ */
+export interface StoredClientState {
+  clientId: string;
+  revision: number;
+  /**
+   * The server's snapshot at `revision`, serialized with the type's
+   * `serializeSnapshot`. Local ops are not applied to it.
+   */
+  snapshot: unknown;
+  /**
+   * Local ops not acknowledged yet, serialized with the type's `serializeOp`:
+   * the pending op, followed by the buffered one if there is one.
+   */
+  ops: unknown[];
+  // Sequence number of the pending op
+  seq: number;
+}
+
+export interface StorageAdapter {
+  /**
+   * Load the state stored under `key`, or null if there is none.
+   */
+  load(key: string): Promise<StoredClientState | null>;
+
+  /**
+   * Store the state under `key`, replacing what was stored before.
+   * The state is a JSON value.
+   */
+  save(key: string, state: StoredClientState): Promise<void>;
+}
+
+/**
+ * Keeps states in memory, for tests and for apps that don't need to survive
+ * a reload.
+ */
+export class MemoryStorage implements StorageAdapter {
+  private states: Map<string, StoredClientState> = new Map();
+
+  async load(key: string): Promise<StoredClientState | null> {
+    const state = this.states.get(key);
+    // Copies, like a real storage would return
+    return state ? structuredClone(state) : null;
+  }
+
+  async save(key: string, state: StoredClientState): Promise<void> {
+    this.states.set(key, structuredClone(state));
+  }
+}
+
+export interface IndexedDBStorageOptions {
+  /**
+   * Database name. Defaults to "open-ot".
+   */
+  name?: string;
+  /**
+   * The IndexedDB implementation. Defaults to the global `indexedDB`.
+   */
+  indexedDB?: IDBFactory;
+}
+
+const STORE = "clients";
+
+/**
+ * Stores states in an IndexedDB database, one record per key.
+ */
+export class IndexedDBStorage implements StorageAdapter {
+  private name: string;
+  private factory: IDBFactory | undefined;
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(options: IndexedDBStorageOptions = {}) {
+    this.name = options.name ?? "open-ot";
+    this.factory = options.indexedDB ?? globalThis.indexedDB;
+  }
+
+  async load(key: string): Promise<StoredClientState | null> {
+    const db = await this.open();
+    const state = await request<StoredClientState | undefined>(
+      db.transaction(STORE, "readonly").objectStore(STORE).get(key)
+    );
+    return state ?? null;
+  }
+
+  async save(key: string, state: StoredClientState): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(STORE, "readwrite");
+    transaction.objectStore(STORE).put(state, key);
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Close the database connection. It is opened again when needed.
+   */
+  async close(): Promise<void> {
+    const db = this.db;
+    this.db = null;
+    if (db) (await db).close();
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const factory = this.factory;
+      if (!factory) {
+        return Promise.reject(new Error("IndexedDB is not available"));
+      }
+      const opening = factory.open(this.name, 1);
+      opening.onupgradeneeded = () => {
+        opening.result.createObjectStore(STORE);
+      };
+      this.db = request(opening).catch((error) => {
+        // Try again next time
+        this.db = null;
+        throw error;
+      });
+    }
+    return this.db;
+  }
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
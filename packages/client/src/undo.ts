@@ -0,0 +1,171 @@
+import { OTType } from "@open-ot/core";
+import { OTClient, OperationEvent } from "./client";
+
+export interface UndoManagerOptions {
+  /**
+   * Local edits made within this many milliseconds of the previous one are
+   * undone together. Set to 0 to undo every op on its own. Defaults to 500.
+   */
+  captureTimeout?: number;
+}
+
+/**
+ * Undo and redo for the local edits of an `OTClient`.
+ *
+ * Every op applied with `applyLocal` is recorded as its inverse. Remote ops
+ * are transformed into the recorded inverses rather than recorded, so undo
+ * only reverts this user's changes and keeps everyone else's. Undo and redo
+ * apply their ops with `applyLocal`, so they are sent like any other edit.
+ *
+ * The type must implement `invertWithSnapshot` or `invert`.
+ */
+export class UndoManager<Snapshot, Op> {
+  private client: OTClient<Snapshot, Op>;
+  private type: OTType<Snapshot, Op>;
+  private captureTimeout: number;
+
+  // Inverse ops, newest last. The newest applies to the current snapshot,
+  // each one before it to the snapshot after the ones after it.
+  private undoStack: Op[] = [];
+  private redoStack: Op[] = [];
+
+  // Time of the last local edit, to group edits into one step
+  private lastEdit = -Infinity;
+  // Set while undo or redo applies its op
+  private applying: "undo" | "redo" | null = null;
+
+  private unsubscribe: () => void;
+
+  constructor(
+    client: OTClient<Snapshot, Op>,
+    options: UndoManagerOptions = {}
+  ) {
+    this.client = client;
+    this.type = client.getType();
+    this.captureTimeout = options.captureTimeout ?? 500;
+
+    if (!this.type.invert && !this.type.invertWithSnapshot) {
+      throw new Error(
+        `Cannot undo ${this.type.name} ops: the type implements neither invert nor invertWithSnapshot`
+      );
+    }
+
+    this.unsubscribe = client.onOperation((event) => this.handle(event));
+  }
+
+  /**
+   * Revert the latest undo step.
+   * Returns false if there is nothing to undo.
+   */
+  public undo(): boolean {
+    return this.apply("undo");
+  }
+
+  /**
+   * Reapply the latest undone step.
+   * Returns false if there is nothing to redo.
+   */
+  public redo(): boolean {
+    return this.apply("redo");
+  }
+
+  public canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  public canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Start a new undo step with the next edit, even within `captureTimeout`.
+   */
+  public stopCapturing(): void {
+    this.lastEdit = -Infinity;
+  }
+
+  public clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.stopCapturing();
+  }
+
+  /**
+   * Stop recording the client's ops.
+   */
+  public destroy(): void {
+    this.unsubscribe();
+    this.clear();
+  }
+
+  private apply(kind: "undo" | "redo"): boolean {
+    const stack = kind === "undo" ? this.undoStack : this.redoStack;
+    if (stack.length === 0) return false;
+    const op = stack.pop() as Op;
+
+    this.applying = kind;
+    try {
+      this.client.applyLocal(op);
+    } finally {
+      this.applying = null;
+    }
+    this.stopCapturing();
+    return true;
+  }
+
+  private handle(event: OperationEvent<Snapshot, Op>) {
+    if (event.type === "rollback") {
+      // The recorded inverses may undo edits that no longer exist
+      this.clear();
+      return;
+    }
+
+    if (event.type === "remote") {
+      this.undoStack = this.transformStack(this.undoStack, event.op);
+      this.redoStack = this.transformStack(this.redoStack, event.op);
+      return;
+    }
+
+    const inverse = this.invert(event.op, event.snapshot);
+    if (this.applying === "undo") {
+      this.redoStack.push(inverse);
+    } else if (this.applying === "redo") {
+      this.undoStack.push(inverse);
+    } else {
+      const now = Date.now();
+      const last = this.undoStack.length - 1;
+      if (last >= 0 && now - this.lastEdit < this.captureTimeout) {
+        // Undo the new edit, then the rest of the step
+        this.undoStack[last] = this.type.compose(
+          inverse,
+          this.undoStack[last] as Op
+        );
+      } else {
+        this.undoStack.push(inverse);
+      }
+      this.lastEdit = now;
+      this.redoStack = [];
+    }
+  }
+
+  private invert(op: Op, snapshot: Snapshot): Op {
+    if (this.type.invertWithSnapshot) {
+      return this.type.invertWithSnapshot(op, snapshot);
+    }
+    return this.type.invert!(op);
+  }
+
+  // Transform a stack over a remote op applied to the current snapshot,
+  // newest first: each op is transformed over the remote op as it stands
+  // after the newer ones.
+  private transformStack(stack: Op[], remote: Op): Op[] {
+    const transformed = new Array<Op>(stack.length);
+    let op = remote;
+    for (let i = stack.length - 1; i >= 0; i--) {
+      const entry = stack[i] as Op;
+      transformed[i] = this.type.transform(entry, op, "right");
+      op = this.type.transform(op, entry, "left");
+    }
+    return transformed;
+  }
+}
@@ -1,17 +1,29 @@
-import { describe, it, expect, beforeEach, vi } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { OTClient } from "../src/client";
-import { TextType } from "@open-ot/core";
+import { MemoryStorage, StorageAdapter } from "../src/storage";
+import { CounterType, JsonType, OTType, TextType } from "@open-ot/core";
 import { TransportAdapter } from "@open-ot/core";
 
 class MockTransport implements TransportAdapter<unknown> {
   public onReceive: ((msg: unknown) => void) | null = null;
+  public onDisconnect: (() => void) | null = null;
   public sentMessages: unknown[] = [];
+  public connections = 0;
+  // Fail sends and connection attempts, like a dropped network
+  public offline = false;
 
-  async connect(onReceive: (msg: unknown) => void): Promise<void> {
+  async connect(
+    onReceive: (msg: unknown) => void,
+    onDisconnect?: () => void
+  ): Promise<void> {
+    if (this.offline) throw new Error("Connection refused");
+    this.connections++;
     this.onReceive = onReceive;
+    this.onDisconnect = onDisconnect ?? null;
   }
 
   async send(msg: unknown): Promise<void> {
+    if (this.offline) throw new Error("Transport disconnected");
     this.sentMessages.push(msg);
   }
 
@@ -36,6 +48,7 @@ describe("OTClient with Transport", () => {
       initialRevision: 0,
       initialSnapshot: "Hello",
       transport: transport,
+      clientId: "alice",
     });
   });
 
@@ -48,6 +61,8 @@ describe("OTClient with Transport", () => {
       type: "op",
       op: op,
       revision: 0,
+      clientId: "alice",
+      seq: 1,
     });
   });
 
@@ -94,6 +109,693 @@ describe("OTClient with Transport", () => {
       type: "op",
       op: [{ i: "B" }],
       revision: 1, // Revision incremented after ACK
+      clientId: "alice",
+      seq: 2,
+    });
+  });
+
+  it("should serialize ops sent and received through the transport", () => {
+    // Snapshots and ops are Sets, sent as arrays
+    const TagsType: OTType<Set<string>, Set<string>> = {
+      name: "tags",
+      create: () => new Set(),
+      apply: (snapshot, op) => new Set([...snapshot, ...op]),
+      transform: (opA) => opA,
+      compose: (opA, opB) => new Set([...opA, ...opB]),
+      serializeOp: (op) => [...op],
+      deserializeOp: (data) => new Set(data as string[]),
+    };
+    const tags = new OTClient({
+      type: TagsType,
+      initialRevision: 0,
+      initialSnapshot: new Set<string>(),
+      transport,
+      clientId: "alice",
+    });
+
+    tags.applyLocal(new Set(["a"]));
+    expect(transport.sentMessages[0]).toEqual({
+      type: "op",
+      op: ["a"],
+      revision: 0,
+      clientId: "alice",
+      seq: 1,
+    });
+
+    transport.receive({ type: "op", op: ["b"] });
+    expect(tags.getSnapshot()).toEqual(new Set(["a", "b"]));
+  });
+
+  it("should handle null ops, which JSON uses for no-ops", () => {
+    const json = new OTClient({
+      type: JsonType,
+      initialRevision: 0,
+      initialSnapshot: { items: [1, 2] },
+      transport,
+      clientId: "alice",
+    });
+
+    json.applyLocal(["items", 0, { r: true }]);
+    json.applyLocal(["items", 0, { i: 3 }]);
+
+    // Another client removed the same item, so the pending op becomes null
+    transport.receive({ type: "op", op: ["items", 0, { r: true }] });
+    transport.receive({ type: "op", op: null });
+    expect(json.getRevision()).toBe(2);
+    expect(json.getSnapshot()).toEqual({ items: [3, 2] });
+
+    transport.receive({ type: "ack" });
+    expect(transport.sentMessages[1]).toEqual({
+      type: "op",
+      op: ["items", 0, { i: 3 }],
+      revision: 3,
+      clientId: "alice",
+      seq: 2,
+    });
+  });
+
+  it("should roll back a rejected operation", () => {
+    const onReject = vi.fn();
+    client = new OTClient({
+      type: TextType,
+      initialRevision: 0,
+      initialSnapshot: "Hello",
+      transport: transport,
+      clientId: "alice",
+      onReject,
+    });
+
+    client.applyLocal([{ r: 5 }, { i: "!" }]);
+    client.applyLocal([{ r: 6 }, { i: "?" }]);
+    expect(client.getSnapshot()).toBe("Hello!?");
+
+    transport.receive({ type: "reject", reason: "Not allowed", path: [5] });
+
+    expect(client.getSnapshot()).toBe("Hello");
+    expect(client.getRevision()).toBe(0);
+    expect(onReject).toHaveBeenCalledWith({ reason: "Not allowed", path: [5] });
+
+    // Synchronized again: the next edit is sent right away
+    client.applyLocal([{ i: ">" }]);
+    expect(transport.sentMessages).toHaveLength(2);
+  });
+
+  it("should keep remote operations when rolling back", () => {
+    client.applyLocal([{ r: 5 }, { i: "!" }]);
+    transport.receive({ type: "op", op: [{ i: "Big " }] });
+    expect(client.getSnapshot()).toBe("Big Hello!");
+
+    transport.receive({ type: "reject" });
+
+    expect(client.getSnapshot()).toBe("Big Hello");
+    expect(client.getRevision()).toBe(1);
+  });
+
+  it("should ignore acks for operations already acknowledged", () => {
+    client.applyLocal([{ r: 5 }, { i: "!" }]);
+    transport.receive({ type: "ack", seq: 1, revision: 1 });
+    client.applyLocal([{ r: 6 }, { i: "?" }]);
+
+    // A second ack for the first op, e.g. of a resend
+    transport.receive({ type: "ack", seq: 1, revision: 1 });
+    expect(client.getRevision()).toBe(1);
+
+    transport.receive({ type: "ack", seq: 2, revision: 2 });
+    transport.receive({ type: "ack", seq: 2, revision: 2 });
+    expect(client.getRevision()).toBe(2);
+  });
+
+  it("should treat its own operation sent back by the server as an ack", () => {
+    client.applyLocal([{ r: 5 }, { i: "!" }]);
+    transport.receive({
+      type: "op",
+      op: [{ r: 5 }, { i: "!" }],
+      revision: 1,
+      clientId: "alice",
+      seq: 1,
+    });
+
+    expect(client.getSnapshot()).toBe("Hello!");
+    expect(client.getRevision()).toBe(1);
+
+    transport.receive({ type: "ack", seq: 1, revision: 1 });
+    expect(client.getRevision()).toBe(1);
+  });
+
+  it("should hold back messages that arrive out of order", () => {
+    client.applyLocal([{ r: 5 }, { i: "!" }]);
+
+    // The ack for revision 2 and Bob's op at revision 3 overtake Carol's op
+    transport.receive({ type: "ack", seq: 1, revision: 2 });
+    transport.receive({
+      type: "op",
+      op: [{ r: 7 }, { i: "?" }],
+      revision: 3,
+      clientId: "bob",
+      seq: 1,
+    });
+    expect(client.getRevision()).toBe(0);
+    expect(client.getSnapshot()).toBe("Hello!");
+
+    transport.receive({
+      type: "op",
+      op: [{ i: ">" }, { r: 5 }],
+      revision: 1,
+      clientId: "carol",
+      seq: 1,
+    });
+    expect(client.getRevision()).toBe(3);
+    expect(client.getSnapshot()).toBe(">Hello!?");
+  });
+
+  describe("reconnection", () => {
+    beforeEach(() => {
+      client = new OTClient({
+        type: TextType,
+        initialRevision: 0,
+        initialSnapshot: "Hello",
+        transport,
+        clientId: "alice",
+        reconnectDelay: null,
+      });
+    });
+
+    it("should stop sending when the transport drops", () => {
+      const onConnectionChange = vi.fn();
+      client = new OTClient({
+        type: TextType,
+        initialRevision: 0,
+        initialSnapshot: "Hello",
+        transport,
+        clientId: "alice",
+        reconnectDelay: null,
+        onConnectionChange,
+      });
+
+      transport.onDisconnect!();
+      expect(client.isConnected()).toBe(false);
+      expect(onConnectionChange).toHaveBeenCalledWith(false);
+
+      // Edits are kept locally
+      client.applyLocal([{ r: 5 }, { i: "!" }]);
+      expect(client.getSnapshot()).toBe("Hello!");
+      expect(transport.sentMessages).toHaveLength(0);
+    });
+
+    it("should detect a disconnect from a failed send", async () => {
+      transport.offline = true;
+      client.applyLocal([{ r: 5 }, { i: "!" }]);
+      await Promise.resolve();
+
+      expect(client.isConnected()).toBe(false);
+    });
+
+    it("should resync and resend the pending operation", async () => {
+      const onConnectionChange = vi.fn();
+      client = new OTClient({
+        type: TextType,
+        initialRevision: 0,
+        initialSnapshot: "Hello",
+        transport,
+        clientId: "alice",
+        reconnectDelay: null,
+        onConnectionChange,
+      });
+
+      // Sent, but the ack is lost with the connection
+      client.applyLocal([{ r: 5 }, { i: "!" }]);
+      transport.onDisconnect!();
+      client.applyLocal([{ r: 6 }, { i: "?" }]);
+
+      await client.reconnect();
+      expect(transport.sentMessages[1]).toEqual({
+        type: "resync",
+        revision: 0,
+        clientId: "alice",
+        seq: 1,
+      });
+      expect(client.isConnected()).toBe(false);
+
+      // Another client edited while this one was offline
+      transport.receive({
+        type: "resync",
+        ops: [[{ i: "Oh " }, { r: 5 }]],
+        revision: 1,
+      });
+
+      expect(client.getSnapshot()).toBe("Oh Hello!?");
+      expect(client.getRevision()).toBe(1);
+      expect(client.isConnected()).toBe(true);
+      expect(onConnectionChange).toHaveBeenLastCalledWith(true);
+      expect(transport.sentMessages[2]).toEqual({
+        type: "op",
+        op: [{ r: 8 }, { i: "!" }],
+        revision: 1,
+        clientId: "alice",
+        seq: 1,
+      });
+
+      // The buffered edit follows once the pending op is acknowledged
+      transport.receive({ type: "ack" });
+      expect(transport.sentMessages[3]).toEqual({
+        type: "op",
+        op: [{ r: 9 }, { i: "?" }],
+        revision: 2,
+        clientId: "alice",
+        seq: 2,
+      });
+    });
+
+    it("should count a pending operation the server stored as acknowledged", async () => {
+      // Stored by the server, but the ack is lost with the connection
+      client.applyLocal([{ r: 5 }, { i: "!" }]);
+      transport.onDisconnect!();
+      client.applyLocal([{ r: 6 }, { i: "?" }]);
+
+      await client.reconnect();
+      transport.receive({
+        type: "resync",
+        ops: [
+          [{ i: "Oh " }, { r: 5 }],
+          [{ r: 8 }, { i: "!" }],
+        ],
+        revision: 2,
+        acknowledged: 2,
+      });
+
+      expect(client.getSnapshot()).toBe("Oh Hello!?");
+      expect(client.getRevision()).toBe(2);
+      // Only the buffered edit is sent
+      expect(transport.sentMessages.slice(2)).toEqual([
+        {
+          type: "op",
+          op: [{ r: 9 }, { i: "?" }],
+          revision: 2,
+          clientId: "alice",
+          seq: 2,
+        },
+      ]);
+    });
+
+    it("should apply ops received while resyncing after the missed ones", async () => {
+      transport.onDisconnect!();
+      await client.reconnect();
+
+      // Broadcast before the resync reply, which includes it too
+      transport.receive({
+        type: "op",
+        op: [{ r: 6 }, { i: "?" }],
+        revision: 2,
+      });
+      transport.receive({
+        type: "op",
+        op: [{ r: 7 }, { i: "!" }],
+        revision: 3,
+      });
+      expect(client.getSnapshot()).toBe("Hello");
+
+      transport.receive({
+        type: "resync",
+        ops: [
+          [{ i: ">" }, { r: 5 }],
+          [{ r: 6 }, { i: "?" }],
+        ],
+        revision: 2,
+      });
+
+      expect(client.getSnapshot()).toBe(">Hello?!");
+      expect(client.getRevision()).toBe(3);
+
+      // A second reply to the same resync is stale
+      transport.receive({
+        type: "resync",
+        ops: [[{ i: ">" }, { r: 5 }]],
+        revision: 1,
+      });
+      expect(client.getSnapshot()).toBe(">Hello?!");
+    });
+
+    it("should reconnect automatically with backoff", async () => {
+      vi.useFakeTimers();
+      try {
+        client = new OTClient({
+          type: TextType,
+          initialRevision: 0,
+          initialSnapshot: "Hello",
+          transport,
+          clientId: "alice",
+          reconnectDelay: 100,
+        });
+        const connections = transport.connections;
+
+        transport.offline = true;
+        transport.onDisconnect!();
+
+        // The first attempt fails, the next one waits twice as long
+        await vi.advanceTimersByTimeAsync(100);
+        transport.offline = false;
+        await vi.advanceTimersByTimeAsync(199);
+        expect(transport.connections).toBe(connections);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(transport.connections).toBe(connections + 1);
+        expect(transport.sentMessages).toEqual([
+          { type: "resync", revision: 0, clientId: "alice" },
+        ]);
+
+        await client.disconnect();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should not reconnect without a transport", async () => {
+      const offline = new OTClient({
+        type: TextType,
+        initialRevision: 0,
+        initialSnapshot: "",
+      });
+      await expect(offline.reconnect()).rejects.toThrow(
+        "Cannot reconnect without a transport"
+      );
+    });
+  });
+
+  describe("storage", () => {
+    let storage: MemoryStorage;
+
+    beforeEach(() => {
+      storage = new MemoryStorage();
+    });
+
+    it("should save the server's state and unacknowledged edits", async () => {
+      client = new OTClient({
+        type: TextType,
+        initialRevision: 0,
+        initialSnapshot: "Hello",
+        transport,
+        clientId: "alice",
+        storage,
+        storageKey: "doc",
+      });
+
+      client.applyLocal([{ r: 5 }, { i: "!" }]);
+      client.applyLocal([{ r: 6 }, { i: "?" }]);
+      transport.receive({ type: "op", op: [{ i: ">" }, { r: 5 }] });
+      await client.flush();
+
+      expect(await storage.load("doc")).toEqual({
+        clientId: "alice",
+        revision: 1,
+        snapshot: ">Hello",
+        ops: [
+          [{ r: 6 }, { i: "!" }],
+          [{ r: 7 }, { i: "?" }],
+        ],
+        seq: 1,
+      });
+
+      transport.receive({ type: "ack" });
+      transport.receive({ type: "ack" });
+      await client.flush();
+      expect(await storage.load("doc")).toMatchObject({
+        revision: 3,
+        snapshot: ">Hello!?",
+        ops: [],
+        seq: 2,
+      });
+    });
+
+    it("should restore edits made offline and send them after resyncing", async () => {
+      const options = {
+        type: TextType,
+        initialRevision: 0,
+        initialSnapshot: "Hello",
+        clientId: "alice",
+        storage,
+        storageKey: "doc",
+        reconnectDelay: null,
+      };
+      transport.offline = true;
+      const offline = await OTClient.restore({ ...options, transport });
+      offline.applyLocal([{ r: 5 }, { i: "!" }]);
+      offline.applyLocal([{ r: 6 }, { i: "?" }]);
+      await offline.flush();
+
+      // The page reloads and the network is back
+      transport.offline = false;
+      client = await OTClient.restore({
+        ...options,
+        initialSnapshot: "",
+        transport,
+      });
+      expect(client.getSnapshot()).toBe("Hello!?");
+      await Promise.resolve();
+      expect(transport.sentMessages).toEqual([
+        { type: "resync", revision: 0, clientId: "alice", seq: 1 },
+      ]);
+
+      transport.receive({
+        type: "resync",
+        ops: [[{ i: ">" }, { r: 5 }]],
+        revision: 1,
+      });
+      expect(client.getSnapshot()).toBe(">Hello!?");
+      expect(transport.sentMessages[1]).toEqual({
+        type: "op",
+        op: [{ r: 6 }, { i: "!" }],
+        revision: 1,
+        clientId: "alice",
+        seq: 1,
+      });
+    });
+
+    it("should start from the initial state if nothing is stored", async () => {
+      client = await OTClient.restore({
+        type: TextType,
+        initialRevision: 4,
+        initialSnapshot: "Hello",
+        storage,
+        storageKey: "doc",
+      });
+      expect(client.getSnapshot()).toBe("Hello");
+      expect(client.getRevision()).toBe(4);
+    });
+
+    it("should report storage errors from flush", async () => {
+      const failing: StorageAdapter = {
+        load: async () => null,
+        save: async () => {
+          throw new Error("Quota exceeded");
+        },
+      };
+      client = new OTClient({
+        type: TextType,
+        initialRevision: 0,
+        initialSnapshot: "Hello",
+        storage: failing,
+        storageKey: "doc",
+      });
+
+      client.applyLocal([{ r: 5 }, { i: "!" }]);
+      await expect(client.flush()).rejects.toThrow("Quota exceeded");
+    });
+
+    it("should require a storage key", () => {
+      expect(
+        () =>
+          new OTClient({
+            type: TextType,
+            initialRevision: 0,
+            initialSnapshot: "",
+            storage,
+          })
+      ).toThrow("A storageKey is required to use storage");
+    });
+  });
+
+  describe("presence", () => {
+    const bob = (cursor: { anchor: number; head: number } | null) => ({
+      type: "presence",
+      clientId: "bob",
+      presence: { data: { name: "Bob" }, cursor },
+      revision: 0,
+    });
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should send presence while synchronized", () => {
+      client.setPresence({ name: "Alice" }, { anchor: 5, head: 5 });
+      expect(transport.sentMessages).toEqual([
+        {
+          type: "presence",
+          clientId: "alice",
+          presence: { data: { name: "Alice" }, cursor: { anchor: 5, head: 5 } },
+          revision: 0,
+        },
+      ]);
+
+      // The cursor moves with the client's own edits
+      client.applyLocal([{ r: 5 }, { i: "!" }]);
+      expect(client.getPresence()?.cursor).toEqual({ anchor: 6, head: 6 });
+
+      // Others can't place a cursor in an unacknowledged edit yet
+      client.setPresence({ name: "Alice" }, { anchor: 3, head: 6 });
+      expect(transport.sentMessages).toHaveLength(2);
+
+      transport.receive({ type: "ack", seq: 1, revision: 1 });
+      expect(transport.sentMessages[2]).toEqual({
+        type: "presence",
+        clientId: "alice",
+        presence: { data: { name: "Alice" }, cursor: { anchor: 3, head: 6 } },
+        revision: 1,
+      });
+    });
+
+    it("should report other clients joining, updating and leaving", () => {
+      const events: unknown[] = [];
+      client.onPresence((event) => events.push(event));
+
+      transport.receive(bob({ anchor: 1, head: 1 }));
+      transport.receive(bob({ anchor: 2, head: 2 }));
+      // The client's own presence, relayed back
+      transport.receive({ ...bob(null), clientId: "alice" });
+      expect(client.getPeers()).toEqual(
+        new Map([
+          ["bob", { data: { name: "Bob" }, cursor: { anchor: 2, head: 2 } }],
+        ])
+      );
+
+      transport.receive({ type: "presence", clientId: "bob", presence: null });
+      expect(client.getPeers().size).toBe(0);
+
+      const presence = (anchor: number) => ({
+        data: { name: "Bob" },
+        cursor: { anchor, head: anchor },
+      });
+      expect(events).toEqual([
+        { type: "join", clientId: "bob", presence: presence(1) },
+        { type: "update", clientId: "bob", presence: presence(2) },
+        { type: "leave", clientId: "bob", presence: presence(2) },
+      ]);
+    });
+
+    it("should move other clients' cursors with edits", () => {
+      transport.receive(bob({ anchor: 1, head: 5 }));
+
+      // Bob types at his cursor
+      transport.receive({
+        type: "op",
+        op: [{ r: 5 }, { i: "!" }],
+        revision: 1,
+        clientId: "bob",
+        seq: 1,
+      });
+      expect(client.getPeers().get("bob")?.cursor).toEqual({
+        anchor: 1,
+        head: 6,
+      });
+
+      // Local inserts at a remote cursor stay after it
+      client.applyLocal([{ r: 1 }, { i: "X" }, { r: 5 }]);
+      expect(client.getPeers().get("bob")?.cursor).toEqual({
+        anchor: 1,
+        head: 7,
+      });
+    });
+
+    it("should place cursors sent at an older revision", () => {
+      client.applyLocal([{ i: ">" }, { r: 5 }]);
+      transport.receive({
+        type: "op",
+        op: [{ r: 5 }, { i: "?" }],
+        revision: 1,
+        clientId: "carol",
+        seq: 1,
+      });
+      expect(client.getSnapshot()).toBe(">Hello?");
+
+      // At the end of "Hello", before Carol's edit and the local one
+      transport.receive(bob({ anchor: 5, head: 5 }));
+      expect(client.getPeers().get("bob")?.cursor).toEqual({
+        anchor: 7,
+        head: 7,
+      });
+
+      // A revision the client doesn't have yet
+      transport.receive({ ...bob({ anchor: 5, head: 5 }), revision: 3 });
+      expect(client.getPeers().get("bob")?.cursor).toBeNull();
+    });
+
+    it("should keep cursors for types without transformCursor", () => {
+      const counter = new OTClient({
+        type: CounterType,
+        initialRevision: 0,
+        initialSnapshot: 0,
+        transport,
+      });
+      transport.receive(bob({ anchor: 1, head: 1 }));
+      counter.applyLocal({ inc: 1 });
+
+      expect(counter.getPeers().get("bob")?.cursor).toEqual({
+        anchor: 1,
+        head: 1,
+      });
+    });
+
+    it("should resend presence until it is cleared", () => {
+      client.setPresence({ name: "Alice" });
+      vi.advanceTimersByTime(10_000);
+      expect(transport.sentMessages).toHaveLength(2);
+      expect(transport.sentMessages[1]).toEqual(transport.sentMessages[0]);
+
+      client.clearPresence();
+      expect(transport.sentMessages[2]).toEqual({
+        type: "presence",
+        clientId: "alice",
+        presence: null,
+        revision: 0,
+      });
+
+      vi.advanceTimersByTime(30_000);
+      expect(transport.sentMessages).toHaveLength(3);
+    });
+
+    it("should rejoin after reconnecting", async () => {
+      client = new OTClient({
+        type: TextType,
+        initialRevision: 0,
+        initialSnapshot: "Hello",
+        transport,
+        clientId: "alice",
+        reconnectDelay: null,
+      });
+      const events: string[] = [];
+      client.onPresence((event) => events.push(event.type));
+      client.setPresence({ name: "Alice" });
+      transport.receive(bob(null));
+
+      // Who is still there is unknown while offline
+      transport.onDisconnect!();
+      expect(client.getPeers().size).toBe(0);
+      expect(events).toEqual(["join", "leave"]);
+
+      await client.reconnect();
+      transport.receive(bob(null));
+      expect(events).toHaveLength(2);
+
+      transport.receive({ type: "resync", ops: [], revision: 0 });
+      expect(events).toEqual(["join", "leave", "join"]);
+      expect(
+        transport.sentMessages.map(
+          (message) => (message as { type: string }).type
+        )
+      ).toEqual(["presence", "resync", "presence"]);
     });
   });
 });
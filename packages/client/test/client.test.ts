@@ -1,6 +1,13 @@
-import { describe, it, expect, beforeEach } from "vitest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
 import { OTClient } from "../src/client";
-import { TextType, TextOperation } from "@open-ot/core";
+import {
+  JsonOp,
+  JsonValidationError,
+  TextType,
+  TextOperation,
+  TypeRegistry,
+  createJsonType,
+} from "@open-ot/core";
 
 describe("OTClient", () => {
   let client: OTClient<string, TextOperation>;
@@ -18,6 +25,29 @@ describe("OTClient", () => {
     expect(client.getRevision()).toBe(0);
   });
 
+  it("should look up its type by name in a registry", () => {
+    const registry = new TypeRegistry().register(TextType);
+    const named = new OTClient<string, TextOperation>({
+      type: "text",
+      registry,
+      initialRevision: 0,
+      initialSnapshot: "Hello",
+    });
+
+    named.applyLocal([{ r: 5 }, { i: "!" }]);
+    expect(named.getSnapshot()).toBe("Hello!");
+
+    expect(
+      () =>
+        new OTClient({
+          type: "json",
+          registry,
+          initialRevision: 0,
+          initialSnapshot: {},
+        })
+    ).toThrow("Unknown type: json");
+  });
+
   it("should handle local edits (Synchronized -> AwaitingConfirm)", () => {
     const op: TextOperation = [{ r: 5 }, { i: " World" }];
     const sentOp = client.applyLocal(op);
@@ -143,4 +173,75 @@ describe("OTClient", () => {
       "Cannot call serverAck in Synchronized state"
     );
   });
+
+  it("should report applied ops to operation listeners", () => {
+    const events: unknown[] = [];
+    const unsubscribe = client.onOperation((event) => events.push(event));
+
+    client.applyLocal([{ r: 5 }, { i: "!" }]);
+    client.applyRemote([{ i: ">" }, { r: 5 }]);
+    client.serverReject();
+    unsubscribe();
+    client.applyLocal([{ i: "?" }, { r: 6 }]);
+
+    expect(events).toEqual([
+      { type: "local", op: [{ r: 5 }, { i: "!" }], snapshot: "Hello" },
+      { type: "remote", op: [{ i: ">" }, { r: 6 }], snapshot: "Hello!" },
+      { type: "rollback" },
+    ]);
+  });
+
+  it("should keep its state when transforming a remote op throws", () => {
+    // Rejects transformed ops that touch "locked"
+    const type = createJsonType({
+      validate: (op, _doc, stage) =>
+        stage !== "transform" || !JSON.stringify(op).includes("locked"),
+    });
+    const json = new OTClient({
+      type,
+      initialRevision: 0,
+      initialSnapshot: { a: 0 },
+    });
+    json.applyLocal(["a", { r: 0, i: 1 }] as JsonOp);
+
+    expect(() => json.applyRemote(["locked", { i: true }] as JsonOp)).toThrow(
+      JsonValidationError
+    );
+    expect(json.getRevision()).toBe(0);
+    expect(json.getSnapshot()).toEqual({ a: 1 });
+
+    // The pending op is still acknowledged on top of the same revision
+    json.serverAck();
+    json.applyRemote(["b", { i: 2 }] as JsonOp);
+    expect(json.getRevision()).toBe(2);
+    expect(json.getSnapshot()).toEqual({ a: 1, b: 2 });
+  });
+
+  it("should generate a client ID without crypto.randomUUID", () => {
+    // As in pages served over plain HTTP
+    const { getRandomValues } = crypto;
+    vi.stubGlobal("crypto", {
+      getRandomValues: getRandomValues.bind(crypto),
+    });
+    try {
+      const sent: { clientId?: string }[] = [];
+      const insecure = new OTClient({
+        type: TextType,
+        initialRevision: 0,
+        initialSnapshot: "Hello",
+        transport: {
+          connect: async () => {},
+          send: async (msg) => {
+            sent.push(msg as { clientId?: string });
+          },
+          disconnect: async () => {},
+        },
+      });
+      insecure.applyLocal([{ r: 5 }, { i: "!" }]);
+
+      expect(sent[0]?.clientId).toMatch(/^[0-9a-f]{32}$/);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
 });
@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import {
+  IndexedDBStorage,
+  MemoryStorage,
+  StoredClientState,
+} from "../src/storage";
+
+// Just enough of IndexedDB for IndexedDBStorage: databases with object
+// stores, get and put. Requests complete asynchronously.
+class FakeIndexedDB {
+  public databases: Map<string, Map<string, Map<string, unknown>>> = new Map();
+
+  open(name: string) {
+    const request: Record<string, unknown> & {
+      onupgradeneeded?: () => void;
+      onsuccess?: () => void;
+    } = {};
+    setTimeout(() => {
+      const existing = this.databases.get(name);
+      const stores = existing ?? new Map<string, Map<string, unknown>>();
+      this.databases.set(name, stores);
+      request.result = fakeDatabase(stores);
+      if (!existing) request.onupgradeneeded?.();
+      request.onsuccess?.();
+    });
+    return request;
+  }
+}
+
+function fakeDatabase(stores: Map<string, Map<string, unknown>>) {
+  return {
+    createObjectStore: (name: string) => stores.set(name, new Map()),
+    transaction: (name: string) => {
+      const transaction: Record<string, unknown> & {
+        oncomplete?: () => void;
+      } = {
+        error: null,
+        objectStore: () => ({
+          get: (key: string) => {
+            const request: Record<string, unknown> & {
+              onsuccess?: () => void;
+            } = {};
+            setTimeout(() => {
+              request.result = structuredClone(stores.get(name)!.get(key));
+              request.onsuccess?.();
+            });
+            return request;
+          },
+          put: (value: unknown, key: string) => {
+            stores.get(name)!.set(key, structuredClone(value));
+            setTimeout(() => transaction.oncomplete?.());
+          },
+        }),
+      };
+      return transaction;
+    },
+    close: () => {},
+  };
+}
+
+const state: StoredClientState = {
+  clientId: "alice",
+  revision: 3,
+  snapshot: "Hello",
+  ops: [[{ r: 5 }, { i: "!" }]],
+  seq: 2,
+};
+
+describe("MemoryStorage", () => {
+  it("should load what was saved", async () => {
+    const storage = new MemoryStorage();
+    expect(await storage.load("doc")).toBeNull();
+
+    await storage.save("doc", state);
+    const loaded = await storage.load("doc");
+    expect(loaded).toEqual(state);
+    expect(loaded).not.toBe(state);
+  });
+});
+
+describe("IndexedDBStorage", () => {
+  it("should load what was saved", async () => {
+    const fake = new FakeIndexedDB();
+    const storage = new IndexedDBStorage({
+      indexedDB: fake as unknown as IDBFactory,
+    });
+
+    expect(await storage.load("doc")).toBeNull();
+    await storage.save("doc", state);
+    await storage.save("other", { ...state, revision: 7 });
+
+    expect(await storage.load("doc")).toEqual(state);
+    expect(fake.databases.get("open-ot")?.get("clients")?.size).toBe(2);
+  });
+
+  it("should keep states across connections", async () => {
+    const fake = new FakeIndexedDB() as unknown as IDBFactory;
+    const storage = new IndexedDBStorage({ name: "notes", indexedDB: fake });
+    await storage.save("doc", state);
+    await storage.close();
+
+    // E.g. after a page reload
+    const reloaded = new IndexedDBStorage({ name: "notes", indexedDB: fake });
+    expect(await reloaded.load("doc")).toEqual(state);
+  });
+
+  it("should fail without IndexedDB", async () => {
+    const storage = new IndexedDBStorage();
+    await expect(storage.load("doc")).rejects.toThrow(
+      "IndexedDB is not available"
+    );
+  });
+});
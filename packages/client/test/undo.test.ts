@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { OTClient } from "../src/client";
+import { UndoManager } from "../src/undo";
+import { TextOperation, TextType, createTextType } from "@open-ot/core";
+
+describe("UndoManager", () => {
+  let client: OTClient<string, TextOperation>;
+  let undo: UndoManager<string, TextOperation>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    client = new OTClient({
+      type: TextType,
+      initialRevision: 0,
+      initialSnapshot: "Hello",
+    });
+    undo = new UndoManager(client);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Insert text at the end of the client's snapshot
+  const append = (text: string) => {
+    client.applyLocal([{ r: client.getSnapshot().length }, { i: text }]);
+  };
+
+  it("should undo and redo local edits", () => {
+    append(" World");
+    expect(undo.canUndo()).toBe(true);
+    expect(undo.canRedo()).toBe(false);
+
+    expect(undo.undo()).toBe(true);
+    expect(client.getSnapshot()).toBe("Hello");
+    expect(undo.canUndo()).toBe(false);
+
+    expect(undo.redo()).toBe(true);
+    expect(client.getSnapshot()).toBe("Hello World");
+    expect(undo.redo()).toBe(false);
+  });
+
+  it("should restore deleted text", () => {
+    client.applyLocal([{ r: 1 }, { d: 3 }, { r: 1 }]);
+    expect(client.getSnapshot()).toBe("Ho");
+
+    undo.undo();
+    expect(client.getSnapshot()).toBe("Hello");
+  });
+
+  it("should group edits made in quick succession", () => {
+    append(" ");
+    vi.advanceTimersByTime(200);
+    append("W");
+    vi.advanceTimersByTime(200);
+    append("o");
+    // A pause starts a new step
+    vi.advanceTimersByTime(600);
+    append("rld");
+
+    undo.undo();
+    expect(client.getSnapshot()).toBe("Hello Wo");
+    undo.undo();
+    expect(client.getSnapshot()).toBe("Hello");
+    undo.redo();
+    expect(client.getSnapshot()).toBe("Hello Wo");
+  });
+
+  it("should start a new step after stopCapturing", () => {
+    append(" ");
+    undo.stopCapturing();
+    append("World");
+
+    undo.undo();
+    expect(client.getSnapshot()).toBe("Hello ");
+  });
+
+  it("should only undo the user's own changes", () => {
+    append("!");
+    // Another user inserts at the start and in the middle
+    client.applyRemote([{ i: ">" }, { r: 2 }, { i: "-" }, { r: 3 }]);
+    expect(client.getSnapshot()).toBe(">He-llo!");
+
+    undo.undo();
+    expect(client.getSnapshot()).toBe(">He-llo");
+    undo.redo();
+    expect(client.getSnapshot()).toBe(">He-llo!");
+  });
+
+  it("should keep remote edits inside text the user inserted", () => {
+    append(" World");
+    client.serverAck();
+    client.applyRemote([{ r: 8 }, { i: "-" }, { r: 3 }]);
+    expect(client.getSnapshot()).toBe("Hello Wo-rld");
+
+    undo.undo();
+    expect(client.getSnapshot()).toBe("Hello-");
+  });
+
+  it("should transform older steps over remote edits", () => {
+    append(" ");
+    undo.stopCapturing();
+    append("World");
+    // Based on the server's "Hello", before either edit
+    client.applyRemote([{ i: "Oh " }, { r: 5 }]);
+
+    undo.undo();
+    undo.undo();
+    expect(client.getSnapshot()).toBe("Oh Hello");
+  });
+
+  it("should clear redo after a new edit", () => {
+    append("!");
+    undo.undo();
+    append("?");
+
+    expect(undo.canRedo()).toBe(false);
+    undo.undo();
+    expect(client.getSnapshot()).toBe("Hello");
+  });
+
+  it("should clear its history when the server rejects an edit", () => {
+    append("!");
+    client.serverReject();
+
+    expect(client.getSnapshot()).toBe("Hello");
+    expect(undo.canUndo()).toBe(false);
+  });
+
+  it("should stop recording when destroyed", () => {
+    undo.destroy();
+    append("!");
+    expect(undo.canUndo()).toBe(false);
+  });
+
+  it("should require a type that can invert ops", () => {
+    const NoInvert = {
+      ...createTextType(),
+      invert: undefined,
+      invertWithSnapshot: undefined,
+    };
+    const plain = new OTClient({
+      type: NoInvert,
+      initialRevision: 0,
+      initialSnapshot: "",
+    });
+
+    expect(() => new UndoManager(plain)).toThrow(
+      "Cannot undo text ops: the type implements neither invert nor invertWithSnapshot"
+    );
+  });
+});
@@ -14,6 +14,10 @@ const out = {
       import: "./index.js",
       types: "./src/index.d.ts",
     },
+    "./testing": {
+      import: "./testing.js",
+      types: "./src/testing.d.ts",
+    },
   },
 };
 
@@ -0,0 +1,312 @@
+import {
+  TextOperation,
+  TextUnit,
+  getLength,
+  isDelete,
+  isRetain,
+  normalize,
+} from "./types/text";
+import {
+  isHighSurrogate,
+  isLowSurrogate,
+  splitsSurrogatePair,
+} from "./unicode";
+
+/**
+ * Upper bound on the number of edits the middle diff searches for.
+ * Beyond this the differing region is replaced wholesale, which is still
+ * a correct operation but not a minimal one.
+ */
+const MAX_EDIT_COST = 1000;
+
+/**
+ * Generate a `TextOperation` that turns `before` into `after`.
+ *
+ * The common prefix and suffix are trimmed first, so typical edits cost
+ * O(document) and the real diff only runs on the changed region.
+ *
+ * The generated operation never splits a surrogate pair.
+ *
+ * @param cursorHint Caret position in `after` right after the edit
+ * (e.g. `selectionStart`). Used to place single inserts and deletes inside
+ * runs of repeated characters where the user actually typed.
+ * @param unit Unit of the cursor hint and of the counts in the generated
+ * operation. Must match the text type the operation is applied with.
+ */
+export function diffToTextOperation(
+  before: string,
+  after: string,
+  cursorHint?: number,
+  unit: TextUnit = "utf16"
+): TextOperation {
+  const op = diffUtf16(
+    before,
+    after,
+    cursorHint === undefined
+      ? undefined
+      : toUtf16Offset(after, cursorHint, unit)
+  );
+  return unit === "utf16" ? op : toUnit(op, before, unit);
+}
+
+function diffUtf16(
+  before: string,
+  after: string,
+  cursorHint: number | undefined
+): TextOperation {
+  if (before === after) return [];
+
+  if (cursorHint !== undefined) {
+    const hinted = diffWithCursor(before, after, cursorHint);
+    if (hinted) return hinted;
+  }
+
+  const maxPrefix = Math.min(before.length, after.length);
+  let prefix = 0;
+  while (prefix < maxPrefix && before[prefix] === after[prefix]) {
+    prefix++;
+  }
+  // Don't end the prefix between the halves of a surrogate pair
+  if (prefix > 0 && isHighSurrogate(before.charCodeAt(prefix - 1))) {
+    prefix--;
+  }
+
+  const maxSuffix = maxPrefix - prefix;
+  let suffix = 0;
+  while (
+    suffix < maxSuffix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  if (suffix > 0 && isLowSurrogate(before.charCodeAt(before.length - suffix))) {
+    suffix--;
+  }
+
+  const oldMiddle = before.slice(prefix, before.length - suffix);
+  const newMiddle = after.slice(prefix, after.length - suffix);
+
+  const op: TextOperation = [{ r: prefix }];
+  op.push(
+    ...(diffMiddle(Array.from(oldMiddle), Array.from(newMiddle)) ?? [
+      { d: oldMiddle.length },
+      { i: newMiddle },
+    ])
+  );
+  op.push({ r: suffix });
+
+  return normalize(op);
+}
+
+/**
+ * Resolve a pure insert or pure delete using the caret position.
+ * Returns null when the edit is not a single insert/delete ending at the
+ * cursor, so the caller falls back to the general diff.
+ */
+function diffWithCursor(
+  before: string,
+  after: string,
+  cursor: number
+): TextOperation | null {
+  if (
+    cursor < 0 ||
+    cursor > after.length ||
+    splitsSurrogatePair(after, cursor)
+  ) {
+    return null;
+  }
+
+  const delta = after.length - before.length;
+
+  if (delta > 0) {
+    // Insert: the inserted text ends at the cursor
+    const start = cursor - delta;
+    if (start < 0 || splitsSurrogatePair(after, start)) return null;
+    if (
+      before.slice(0, start) !== after.slice(0, start) ||
+      before.slice(start) !== after.slice(cursor)
+    ) {
+      return null;
+    }
+    return normalize([
+      { r: start },
+      { i: after.slice(start, cursor) },
+      { r: before.length - start },
+    ]);
+  }
+
+  if (delta < 0) {
+    // Delete: the cursor sits where the removed text used to start
+    const length = -delta;
+    if (splitsSurrogatePair(before, cursor + length)) return null;
+    if (
+      before.slice(0, cursor) !== after.slice(0, cursor) ||
+      before.slice(cursor + length) !== after.slice(cursor)
+    ) {
+      return null;
+    }
+    return normalize([
+      { r: cursor },
+      { d: length },
+      { r: before.length - cursor - length },
+    ]);
+  }
+
+  return null;
+}
+
+/**
+ * Myers' O(ND) diff over the changed region, compared code point by code
+ * point so pairs are never split.
+ * Returns null when the edit distance exceeds `MAX_EDIT_COST`.
+ */
+function diffMiddle(a: string[], b: string[]): TextOperation | null {
+  const n = a.length;
+  const m = b.length;
+
+  if (n === 0 || m === 0) {
+    return [{ d: a.join("").length }, { i: b.join("") }];
+  }
+
+  const limit = Math.min(n + m, MAX_EDIT_COST);
+  const offset = limit + 1;
+  const v = new Int32Array(2 * limit + 3);
+  // trace[d] holds the furthest x reached on diagonals -d..d after step d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= limit; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (k === -d || (k !== d && v[offset + k - 1]! < v[offset + k + 1]!)) {
+        x = v[offset + k + 1]!; // Move down: insert from b
+      } else {
+        x = v[offset + k - 1]! + 1; // Move right: delete from a
+      }
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        return backtrack(a, b, trace);
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+
+  return null;
+}
+
+/**
+ * Walk the Myers trace back from (n, m) and build the operation.
+ * Within each changed run, deletes are emitted before inserts.
+ */
+function backtrack(
+  a: string[],
+  b: string[],
+  trace: Int32Array[]
+): TextOperation {
+  type Edit = "=" | "-" | "+";
+  const edits: Edit[] = [];
+
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const prev = trace[d - 1]!;
+    // prev covers diagonals -(d - 1)..(d - 1)
+    const at = (k: number) => prev[k + d - 1]!;
+
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      edits.push("=");
+      x--;
+      y--;
+    }
+    edits.push(x === prevX ? "+" : "-");
+    x = prevX;
+    y = prevY;
+  }
+
+  while (x > 0 && y > 0) {
+    edits.push("=");
+    x--;
+    y--;
+  }
+
+  edits.reverse();
+
+  const op: TextOperation = [];
+  let ai = 0;
+  let bi = 0;
+  let deleted = 0;
+  let inserted = "";
+
+  const flush = () => {
+    if (deleted > 0) op.push({ d: deleted });
+    if (inserted) op.push({ i: inserted });
+    deleted = 0;
+    inserted = "";
+  };
+
+  for (const edit of edits) {
+    if (edit === "=") {
+      flush();
+      op.push({ r: a[ai]!.length });
+      ai++;
+      bi++;
+    } else if (edit === "-") {
+      deleted += a[ai]!.length;
+      ai++;
+    } else {
+      inserted += b[bi];
+      bi++;
+    }
+  }
+  flush();
+
+  return normalize(op);
+}
+
+/**
+ * Convert a position in `unit` into a UTF-16 offset in `str`.
+ */
+function toUtf16Offset(str: string, position: number, unit: TextUnit): number {
+  if (unit === "utf16") return position;
+  let offset = 0;
+  for (let n = 0; n < position && offset < str.length; n++) {
+    offset += splitsSurrogatePair(str, offset + 1) ? 2 : 1;
+  }
+  return offset;
+}
+
+/**
+ * Re-express the counts of a UTF-16 operation over `before` in `unit`.
+ */
+function toUnit(
+  op: TextOperation,
+  before: string,
+  unit: TextUnit
+): TextOperation {
+  let offset = 0;
+  return op.map((component) => {
+    if (isRetain(component) || isDelete(component)) {
+      const length = isRetain(component) ? component.r : component.d;
+      const count = getLength(
+        { i: before.slice(offset, offset + length) },
+        unit
+      );
+      offset += length;
+      return isRetain(component) ? { r: count } : { d: count };
+    }
+    return component;
+  });
+}
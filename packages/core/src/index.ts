@@ -1,3 +1,16 @@
 export * from "./interfaces";
+export * from "./serialize";
 export * from "./types/text";
+export * from "./types/rope-text";
 export * from "./types/json";
+export * from "./types/json-schema";
+export * from "./types/rich-text";
+export * from "./types/list";
+export * from "./types/counter";
+export * from "./types/register";
+export * from "./types/map";
+export * from "./types/tree";
+export * from "./types/grid";
+export * from "./diff";
+export * from "./json-patch";
+export * from "./registry";
@@ -30,14 +30,62 @@ export interface OTType<Snapshot, Op> {
    * Optional: Generate an operation that undoes the given op
    */
   invert?(op: Op): Op;
+
+  /**
+   * Optional: Generate an operation that undoes the given op, reading any
+   * data the op does not carry (e.g. deleted content) from the snapshot
+   * the op was applied to
+   */
+  invertWithSnapshot?(op: Op, snapshot: Snapshot): Op;
+
+  /**
+   * Optional: Transform a cursor position so it points at the same place
+   * after op has been applied.
+   * 'side' breaks ties with inserts at the cursor position, matching
+   * `transform`: 'left' keeps the cursor before them, 'right' moves it after.
+   */
+  transformCursor?(cursor: number, op: Op, side: "left" | "right"): number;
+
+  /**
+   * Optional: Convert a snapshot into a JSON value for storage, e.g. when
+   * it holds Maps, typed arrays or other structures JSON can't represent.
+   * Snapshots are stored as they are if missing.
+   */
+  serializeSnapshot?(snapshot: Snapshot): unknown;
+
+  /**
+   * Optional: Rebuild a snapshot from the output of `serializeSnapshot`
+   */
+  deserializeSnapshot?(data: unknown): Snapshot;
+
+  /**
+   * Optional: Convert an op into a JSON value for storage and sending over
+   * the network. Ops are sent as they are if missing.
+   */
+  serializeOp?(op: Op): unknown;
+
+  /**
+   * Optional: Rebuild an op from the output of `serializeOp`
+   */
+  deserializeOp?(data: unknown): Op;
 }
 
+/**
+ * Carries messages between clients and the server, encoded as JSON.
+ * Transports don't apply the types' serialization hooks: ops in messages
+ * are serialized by `OTClient` and `Server` already.
+ */
 export interface TransportAdapter<TMessage = unknown> {
   /**
    * Establish the connection.
-   * The transport begins delivering messages via `onReceive`.
+   * The transport begins delivering messages via `onReceive`, and calls
+   * `onDisconnect` if the connection drops without `disconnect` being
+   * called. Calling `connect` again reconnects.
    */
-  connect(onReceive: (msg: TMessage) => void): Promise<void>;
+  connect(
+    onReceive: (msg: TMessage) => void,
+    onDisconnect?: () => void
+  ): Promise<void>;
 
   /**
    * Send a message to the server or other peers.
@@ -0,0 +1,372 @@
+import * as json1 from "ot-json1";
+import { JsonOp } from "./types/json";
+
+/**
+ * A single RFC 6902 JSON Patch operation.
+ */
+export type JsonPatchOperation =
+  | { op: "add"; path: string; value: json1.Doc }
+  | { op: "remove"; path: string }
+  | { op: "replace"; path: string; value: json1.Doc }
+  | { op: "move"; from: string; path: string }
+  | { op: "copy"; from: string; path: string }
+  | { op: "test"; path: string; value: json1.Doc };
+
+export type JsonPatch = JsonPatchOperation[];
+
+/**
+ * Thrown when a patch can't be converted, e.g. because a path doesn't
+ * exist in the document or a `test` operation fails.
+ * `index` is the position of the offending patch operation, if any.
+ */
+export class JsonPatchError extends Error {
+  public readonly index?: number;
+
+  constructor(message: string, index?: number) {
+    super(
+      index === undefined ? message : `Patch operation ${index}: ${message}`
+    );
+    this.name = "JsonPatchError";
+    this.index = index;
+  }
+}
+
+/**
+ * Convert a JSON Patch into a single `JsonOp`.
+ * Patch operations apply one after the other, so paths are resolved
+ * against the document as changed by the operations before them. The
+ * document is also needed to tell array indices from object keys.
+ * Removals in the result carry the removed values, so it can be inverted.
+ */
+export function fromJsonPatch(patch: JsonPatch, doc: json1.Doc): JsonOp {
+  let current = doc;
+  let result: JsonOp = null;
+
+  patch.forEach((operation, index) => {
+    let op: JsonOp;
+    try {
+      op = patchOperationToOp(operation, current);
+    } catch (e) {
+      if (e instanceof JsonPatchError && e.index === undefined) {
+        throw new JsonPatchError(e.message, index);
+      }
+      throw e;
+    }
+    current = json1.type.apply(current, op) as json1.Doc;
+    result = json1.type.compose(result, op);
+  });
+
+  return json1.type.makeInvertible(result, doc);
+}
+
+/**
+ * Convert a `JsonOp` into a JSON Patch that turns doc into the same
+ * result as applying op.
+ * Moves are written as a `remove` followed by an `add` of the moved value,
+ * and embedded edits (e.g. text edits) as a `replace` of the edited value.
+ */
+export function toJsonPatch(op: JsonOp, doc: json1.Doc): JsonPatch {
+  const components: { path: json1.Path; component: Component }[] = [];
+  walk(op ?? [], [], (component, path) => components.push({ path, component }));
+
+  const final = json1.type.apply(doc, op) as json1.Doc;
+  const patch: JsonPatch = [];
+  let current = doc;
+  const emit = (operation: JsonPatchOperation) => {
+    patch.push(operation);
+    current = applyPatchOperation(current, operation);
+  };
+
+  // Values picked up for moves, by slot
+  const moved = new Map<number, json1.Doc>();
+  // Replaced object members are written as a single "replace"
+  const replaced = new Set<Component>();
+
+  // Pick phase: paths are in the original document. Children go before
+  // their parents and later array items before earlier ones.
+  const picks = components.filter(
+    ({ component }) => component.r !== undefined || component.p !== undefined
+  );
+  picks.sort((a, b) => comparePaths(b.path, a.path));
+  for (const { path, component } of picks) {
+    const pointer = toPointer(path);
+    if (
+      component.r !== undefined &&
+      component.i !== undefined &&
+      path.every((key) => typeof key === "string")
+    ) {
+      replaced.add(component);
+      continue;
+    }
+    if (component.p !== undefined) {
+      moved.set(component.p, getValue(current, path));
+    }
+    emit({ op: "remove", path: pointer });
+  }
+
+  // Drop phase: paths are in the final document. Parents go before their
+  // children and earlier array items before later ones.
+  const drops = components.filter(
+    ({ component }) =>
+      component.i !== undefined ||
+      component.d !== undefined ||
+      getEdit(component) !== undefined
+  );
+  drops.sort((a, b) => comparePaths(a.path, b.path));
+  for (const { path, component } of drops) {
+    const pointer = toPointer(path);
+    if (component.i !== undefined) {
+      const exists = replaced.has(component) && hasValue(current, path);
+      emit({
+        op: exists ? "replace" : "add",
+        path: pointer,
+        value: component.i,
+      });
+    }
+    if (component.d !== undefined) {
+      const value = moved.get(component.d);
+      if (value === undefined) {
+        throw new JsonPatchError(`Operation drops unknown slot ${component.d}`);
+      }
+      emit({ op: "add", path: pointer, value });
+    }
+    if (getEdit(component) !== undefined) {
+      emit({ op: "replace", path: pointer, value: getValue(final, path) });
+    }
+  }
+
+  return patch;
+}
+
+/**
+ * Parse a JSON Pointer (RFC 6901) into a path, using doc to tell array
+ * indices from object keys. "-" resolves to the end of an array.
+ */
+export function fromPointer(pointer: string, doc: json1.Doc): json1.Path {
+  if (pointer === "") return [];
+  if (!pointer.startsWith("/")) {
+    throw new JsonPatchError(`Invalid JSON Pointer "${pointer}"`);
+  }
+
+  const path: json1.Path = [];
+  let container: json1.Doc | undefined = doc;
+  const tokens = pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+
+  tokens.forEach((token, i) => {
+    const last = i === tokens.length - 1;
+    if (Array.isArray(container)) {
+      let index: number;
+      if (token === "-" && last) {
+        index = container.length;
+      } else if (/^(0|[1-9][0-9]*)$/.test(token)) {
+        index = Number(token);
+      } else {
+        throw new JsonPatchError(
+          `Invalid array index "${token}" in "${pointer}"`
+        );
+      }
+      path.push(index);
+      container = container[index];
+    } else if (container !== null && typeof container === "object") {
+      path.push(token);
+      container = container[token];
+    } else {
+      throw new JsonPatchError(`Path "${pointer}" does not exist`);
+    }
+  });
+
+  return path;
+}
+
+/**
+ * Write a path as a JSON Pointer (RFC 6901).
+ */
+export function toPointer(path: json1.Path): string {
+  return path
+    .map((key) => "/" + String(key).replace(/~/g, "~0").replace(/\//g, "~1"))
+    .join("");
+}
+
+type Component = {
+  r?: unknown;
+  i?: json1.Doc;
+  p?: number;
+  d?: number;
+  e?: unknown;
+  es?: unknown;
+  ena?: number;
+};
+
+function patchOperationToOp(
+  operation: JsonPatchOperation,
+  doc: json1.Doc
+): JsonOp {
+  switch (operation.op) {
+    case "add": {
+      const path = fromPointer(operation.path, doc);
+      return addOp(path, operation.value, doc);
+    }
+
+    case "remove": {
+      const path = fromExistingPointer(operation.path, doc);
+      return json1.removeOp(path);
+    }
+
+    case "replace": {
+      const path = fromExistingPointer(operation.path, doc);
+      return json1.replaceOp(path, getValue(doc, path), operation.value);
+    }
+
+    case "move": {
+      const from = fromExistingPointer(operation.from, doc);
+      if (operation.path.startsWith(operation.from + "/")) {
+        throw new JsonPatchError(
+          `Cannot move "${operation.from}" into one of its children`
+        );
+      }
+      // The target is resolved after the value has been removed
+      const remove = json1.removeOp(from);
+      const removed = json1.type.apply(doc, remove) as json1.Doc;
+      const to = fromPointer(operation.path, removed);
+      if (typeof to[to.length - 1] === "string" && hasValue(removed, to)) {
+        // Moving onto an existing member replaces it
+        return json1.type.compose(
+          remove,
+          json1.replaceOp(to, getValue(removed, to), getValue(doc, from))
+        );
+      }
+      return json1.moveOp(from, to);
+    }
+
+    case "copy": {
+      const from = fromExistingPointer(operation.from, doc);
+      const path = fromPointer(operation.path, doc);
+      return addOp(path, JSON.parse(JSON.stringify(getValue(doc, from))), doc);
+    }
+
+    case "test": {
+      const path = fromExistingPointer(operation.path, doc);
+      if (!isEqual(getValue(doc, path), operation.value)) {
+        throw new JsonPatchError(`Test failed at "${operation.path}"`);
+      }
+      return null;
+    }
+
+    default:
+      throw new JsonPatchError(
+        `Unsupported operation "${(operation as { op: unknown }).op}"`
+      );
+  }
+}
+
+function fromExistingPointer(pointer: string, doc: json1.Doc): json1.Path {
+  const path = fromPointer(pointer, doc);
+  if (!hasValue(doc, path)) {
+    throw new JsonPatchError(`Path "${pointer}" does not exist`);
+  }
+  return path;
+}
+
+// "add" replaces existing object members and inserts into arrays
+function addOp(path: json1.Path, value: json1.Doc, doc: json1.Doc): JsonOp {
+  if (path.length === 0) {
+    return json1.replaceOp([], doc, value);
+  }
+  const parent = getValue(doc, path.slice(0, -1));
+  if (parent === null || typeof parent !== "object") {
+    throw new JsonPatchError(`Path "${toPointer(path)}" does not exist`);
+  }
+  const key = path[path.length - 1];
+  if (typeof key === "number" && key > (parent as json1.Doc[]).length) {
+    throw new JsonPatchError(`Index ${key} is out of bounds`);
+  }
+  if (typeof key === "string" && hasValue(doc, path)) {
+    return json1.replaceOp(path, getValue(doc, path), value);
+  }
+  return json1.insertOp(path, value);
+}
+
+function applyPatchOperation(
+  doc: json1.Doc,
+  operation: JsonPatchOperation
+): json1.Doc {
+  return json1.type.apply(doc, patchOperationToOp(operation, doc)) as json1.Doc;
+}
+
+function hasValue(doc: json1.Doc, path: json1.Path): boolean {
+  let value: json1.Doc | undefined = doc;
+  for (const key of path) {
+    if (value === null || typeof value !== "object") return false;
+    if (Array.isArray(value)) {
+      if (typeof key !== "number" || key >= value.length) return false;
+      value = value[key];
+    } else {
+      if (typeof key !== "string" || !(key in value)) return false;
+      value = value[key];
+    }
+  }
+  return true;
+}
+
+function getValue(doc: json1.Doc, path: json1.Path): json1.Doc {
+  let value = doc;
+  for (const key of path) {
+    value = (value as Record<string | number, json1.Doc>)[key] as json1.Doc;
+  }
+  return value;
+}
+
+function getEdit(component: Component): unknown {
+  return component.es ?? component.ena ?? component.e;
+}
+
+// Visit every component of a json1 op with its path
+function walk(
+  items: unknown[],
+  path: json1.Path,
+  visit: (component: Component, path: json1.Path) => void
+) {
+  let current = path;
+  for (const item of items) {
+    if (typeof item === "string" || typeof item === "number") {
+      current = [...current, item];
+    } else if (Array.isArray(item)) {
+      walk(item, current, visit);
+    } else if (item !== null && typeof item === "object") {
+      visit(item as Component, current);
+    }
+  }
+}
+
+// Orders paths so a prefix comes before its extensions
+function comparePaths(a: json1.Path, b: json1.Path): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const keyA = a[i] as string | number;
+    const keyB = b[i] as string | number;
+    if (keyA === keyB) continue;
+    if (typeof keyA === "number" && typeof keyB === "number") {
+      return keyA - keyB;
+    }
+    return String(keyA) < String(keyB) ? -1 : 1;
+  }
+  return a.length - b.length;
+}
+
+function isEqual(a: json1.Doc | undefined, b: json1.Doc | undefined): boolean {
+  return JSON.stringify(sortKeys(a)) === JSON.stringify(sortKeys(b));
+}
+
+function sortKeys(doc: json1.Doc | undefined): unknown {
+  if (Array.isArray(doc)) return doc.map(sortKeys);
+  if (doc !== null && typeof doc === "object") {
+    return Object.fromEntries(
+      Object.keys(doc)
+        .sort()
+        .map((key) => [key, sortKeys(doc[key])])
+    );
+  }
+  return doc;
+}
@@ -0,0 +1,202 @@
+import { OTType } from "./interfaces";
+
+/**
+ * Converts data written for the previous version of a type.
+ * Missing functions leave the data unchanged.
+ */
+export interface TypeUpgrade {
+  snapshot?(snapshot: unknown): unknown;
+  op?(op: unknown): unknown;
+}
+
+export interface RegisterTypeOptions {
+  /**
+   * Other names the type can be looked up by, e.g. names used by older
+   * releases.
+   */
+  aliases?: string[];
+  /**
+   * How to upgrade snapshots and ops of the previous version to this one.
+   */
+  upgrade?: TypeUpgrade;
+}
+
+export interface TypeName {
+  name: string;
+  version: number;
+}
+
+/**
+ * Split a type name into its name and version.
+ * "text@2" is version 2 of "text"; a name without a version is version 1.
+ */
+export function parseTypeName(typeName: string): TypeName {
+  const match = /^(.+)@([1-9][0-9]*)$/.exec(typeName);
+  if (!match) return { name: typeName, version: 1 };
+  return { name: match[1] as string, version: Number(match[2]) };
+}
+
+/**
+ * Format a name and version as a type name, leaving out version 1.
+ */
+export function formatTypeName({ name, version }: TypeName): string {
+  return version === 1 ? name : `${name}@${version}`;
+}
+
+interface Entry {
+  type: OTType<unknown, unknown>;
+  upgrade?: TypeUpgrade;
+}
+
+/**
+ * Types by name, shared by clients and servers so both resolve a document's
+ * type name the same way.
+ * Types can be versioned by naming them e.g. "text@2". Older versions stay
+ * registered so stored documents keep working, and each version can say
+ * how to upgrade snapshots and ops of the version before it.
+ */
+export class TypeRegistry {
+  // Versions of each type by number
+  private types: Map<string, Map<number, Entry>> = new Map();
+  private aliases: Map<string, string> = new Map();
+
+  /**
+   * Register a type under its name.
+   * Registering a name again replaces the type.
+   */
+  public register<Snapshot, Op>(
+    type: OTType<Snapshot, Op>,
+    options: RegisterTypeOptions = {}
+  ): this {
+    const { name, version } = parseTypeName(type.name);
+    let versions = this.types.get(name);
+    if (!versions) {
+      versions = new Map();
+      this.types.set(name, versions);
+    }
+    versions.set(version, {
+      type: type as unknown as OTType<unknown, unknown>,
+      upgrade: options.upgrade,
+    });
+    for (const alias of options.aliases ?? []) {
+      this.alias(alias, type.name);
+    }
+    return this;
+  }
+
+  /**
+   * Make alias resolve to the type registered as typeName.
+   */
+  public alias(alias: string, typeName: string): this {
+    if (alias === typeName) {
+      throw new Error(`Type ${alias} can't be an alias of itself`);
+    }
+    this.aliases.set(alias, typeName);
+    return this;
+  }
+
+  /**
+   * Resolve aliases, returning the name and version typeName refers to.
+   */
+  public resolve(typeName: string): TypeName {
+    const seen = new Set<string>();
+    let current = typeName;
+    for (;;) {
+      const target = this.aliases.get(current);
+      if (target === undefined) break;
+      if (seen.has(current)) {
+        throw new Error(`Alias ${typeName} refers to itself`);
+      }
+      seen.add(current);
+      current = target;
+    }
+    return parseTypeName(current);
+  }
+
+  /**
+   * Get the type registered as typeName, or one of its aliases.
+   * A name without a version refers to version 1, not the latest version.
+   */
+  public get<Snapshot = unknown, Op = unknown>(
+    typeName: string
+  ): OTType<Snapshot, Op> | undefined {
+    const { name, version } = this.resolve(typeName);
+    const entry = this.types.get(name)?.get(version);
+    return entry?.type as OTType<Snapshot, Op> | undefined;
+  }
+
+  public has(typeName: string): boolean {
+    return this.get(typeName) !== undefined;
+  }
+
+  /**
+   * Get the latest registered version of a type.
+   */
+  public latest<Snapshot = unknown, Op = unknown>(
+    typeName: string
+  ): OTType<Snapshot, Op> | undefined {
+    const { name } = this.resolve(typeName);
+    const versions = this.types.get(name);
+    if (!versions) return undefined;
+    const latest = Math.max(...versions.keys());
+    return versions.get(latest)?.type as OTType<Snapshot, Op> | undefined;
+  }
+
+  /**
+   * Upgrade a snapshot written for type from to type to, which defaults to
+   * the latest version. Every version in between has to be registered.
+   */
+  public upgradeSnapshot(
+    snapshot: unknown,
+    from: string,
+    to?: string
+  ): unknown {
+    return this.upgradeSteps(from, to).reduce(
+      (result, upgrade) =>
+        upgrade.snapshot ? upgrade.snapshot(result) : result,
+      snapshot
+    );
+  }
+
+  /**
+   * Upgrade an op written for type from to type to, which defaults to the
+   * latest version. Every version in between has to be registered.
+   */
+  public upgradeOp(op: unknown, from: string, to?: string): unknown {
+    return this.upgradeSteps(from, to).reduce(
+      (result, upgrade) => (upgrade.op ? upgrade.op(result) : result),
+      op
+    );
+  }
+
+  private upgradeSteps(from: string, to?: string): TypeUpgrade[] {
+    const source = this.resolve(from);
+    const versions = this.types.get(source.name);
+    if (!versions) {
+      throw new Error(`Unknown type: ${from}`);
+    }
+
+    const target =
+      to === undefined
+        ? { name: source.name, version: Math.max(...versions.keys()) }
+        : this.resolve(to);
+    if (target.name !== source.name) {
+      throw new Error(`Cannot upgrade ${from} to a different type: ${to}`);
+    }
+    if (target.version < source.version) {
+      throw new Error(`Cannot downgrade ${from} to ${to}`);
+    }
+
+    const steps: TypeUpgrade[] = [];
+    for (let v = source.version + 1; v <= target.version; v++) {
+      const entry = versions.get(v);
+      if (!entry) {
+        throw new Error(
+          `Cannot upgrade ${from}: ${formatTypeName({ name: source.name, version: v })} is not registered`
+        );
+      }
+      steps.push(entry.upgrade ?? {});
+    }
+    return steps;
+  }
+}
@@ -0,0 +1,41 @@
+import { OTType } from "./interfaces";
+
+/**
+ * Serialize a snapshot with the type's `serializeSnapshot`, if it has one.
+ */
+export function serializeSnapshot<Snapshot>(
+  type: OTType<Snapshot, unknown>,
+  snapshot: Snapshot
+): unknown {
+  return type.serializeSnapshot ? type.serializeSnapshot(snapshot) : snapshot;
+}
+
+/**
+ * Deserialize a snapshot with the type's `deserializeSnapshot`, if it has
+ * one.
+ */
+export function deserializeSnapshot<Snapshot>(
+  type: OTType<Snapshot, unknown>,
+  data: unknown
+): Snapshot {
+  return type.deserializeSnapshot
+    ? type.deserializeSnapshot(data)
+    : (data as Snapshot);
+}
+
+/**
+ * Serialize an op with the type's `serializeOp`, if it has one.
+ */
+export function serializeOp<Op>(type: OTType<unknown, Op>, op: Op): unknown {
+  return type.serializeOp ? type.serializeOp(op) : op;
+}
+
+/**
+ * Deserialize an op with the type's `deserializeOp`, if it has one.
+ */
+export function deserializeOp<Op>(
+  type: OTType<unknown, Op>,
+  data: unknown
+): Op {
+  return type.deserializeOp ? type.deserializeOp(data) : (data as Op);
+}
@@ -0,0 +1,455 @@
+import { OTType } from "./interfaces";
+import { serializeOp, serializeSnapshot } from "./serialize";
+
+/**
+ * Source of random choices for generators. Generators should take all their
+ * randomness from here: choices are recorded, so a failing case can be
+ * replayed with smaller choices to shrink it. Every choice shrinks towards 0,
+ * so generators should map small choices to simple values.
+ */
+export interface Random {
+  /**
+   * An integer from 0 up to (not including) n.
+   */
+  int(n: number): number;
+  boolean(): boolean;
+  pick<T>(items: readonly T[]): T;
+  /**
+   * A string of up to maxLength characters of alphabet.
+   */
+  string(maxLength: number, alphabet?: string): string;
+}
+
+/**
+ * The properties `checkType` can check.
+ * - `transform`: concurrent ops converge (TP1):
+ *   `apply(apply(s, a), transform(b, a, "right"))` equals
+ *   `apply(apply(s, b), transform(a, b, "left"))`.
+ * - `compose`: applying `compose(a, b)` equals applying a then b, and
+ *   compose is associative.
+ * - `invert`: applying an op and then its inverse restores the snapshot.
+ * - `normalize`: normalizing an op doesn't change what it does, normalizing
+ *   twice changes nothing, and transform and compose return normalized ops.
+ */
+export type TypeCheck = "transform" | "compose" | "invert" | "normalize";
+
+export interface CheckTypeOptions<Snapshot, Op> {
+  /**
+   * Generate an op that applies to snapshot.
+   */
+  op(random: Random, snapshot: Snapshot): Op;
+  /**
+   * Generate a snapshot. Defaults to applying up to three generated ops to
+   * `type.create()`.
+   */
+  snapshot?(random: Random): Snapshot;
+  /**
+   * Put an op in normal form. Required by the `normalize` check.
+   */
+  normalize?(op: Op): Op;
+  /**
+   * Compare snapshots. Defaults to comparing their serialized form.
+   */
+  equal?(a: Snapshot, b: Snapshot): boolean;
+  /**
+   * Properties to check. Defaults to every property the type and options
+   * support: `invert` needs `invert` or `invertWithSnapshot` on the type and
+   * `normalize` needs the `normalize` option.
+   */
+  checks?: TypeCheck[];
+  /**
+   * Random cases per property. Defaults to 100.
+   */
+  runs?: number;
+  /**
+   * Seed for the random choices. Defaults to 1, so runs are repeatable.
+   */
+  seed?: number;
+}
+
+/**
+ * A seeded `Random`, to drive generators outside `checkType`, e.g. in
+ * simulations. The same seed gives the same choices.
+ */
+export function createRandom(seed = 1): Random {
+  return randomFrom(seeded(seed));
+}
+
+// Integers below n from a linear congruential generator
+function seeded(seed: number): (n: number) => number {
+  let state = seed;
+  return (n) => {
+    // Math.imul keeps the low bits a plain multiply would round away
+    state = (Math.imul(state, 1103515245) + 12345) & 0x7fffffff;
+    // The low bits of this generator repeat quickly
+    return (state >>> 16) % n;
+  };
+}
+
+// A Random taking every choice from choose
+function randomFrom(choose: (n: number) => number): Random {
+  const int = (n: number) => {
+    if (!Number.isInteger(n) || n <= 0) {
+      throw new Error(`random.int needs a positive integer, got ${n}`);
+    }
+    return choose(n);
+  };
+  return {
+    int,
+    boolean: () => int(2) === 1,
+    pick: (items) => items[int(items.length)]!,
+    string(maxLength, alphabet = "abcdefghijklmnopqrstuvwxyz") {
+      let result = "";
+      for (let i = int(maxLength + 1); i > 0; i--) {
+        result += alphabet[int(alphabet.length)];
+      }
+      return result;
+    },
+  };
+}
+
+// A generated case: a snapshot and the ops a check runs on it
+interface Case<Snapshot, Op> {
+  snapshot: Snapshot;
+  ops: Op[];
+}
+
+// Attempts to make a failing case smaller before giving up
+const MAX_SHRINKS = 2000;
+
+/**
+ * Check that a type satisfies the properties OT relies on, by running them
+ * on randomly generated snapshots and ops. Throws an error describing the
+ * smallest failing case found.
+ *
+ * Use it from any test runner:
+ *
+ *   checkType(TextType, { op: (random, snapshot) => ... });
+ */
+export function checkType<Snapshot, Op>(
+  type: OTType<Snapshot, Op>,
+  options: CheckTypeOptions<Snapshot, Op>
+): void {
+  const runs = options.runs ?? 100;
+  const seed = options.seed ?? 1;
+  const checks = options.checks ?? defaultChecks(type, options);
+
+  for (const check of checks) {
+    const property = createProperty(type, options, check);
+    const choose = seeded(seed);
+
+    for (let run = 0; run < runs; run++) {
+      const failure = runCase(property, choose);
+      if (failure === null) continue;
+
+      const shrunk = shrink(property, failure);
+      throw new Error(
+        [
+          `Type ${type.name} failed the ${check} check (seed ${seed}, run ${run + 1}):`,
+          `  ${shrunk.reason}`,
+          ...(shrunk.testCase ? describeCase(type, shrunk.testCase) : []),
+        ].join("\n")
+      );
+    }
+  }
+}
+
+function describeCase<Snapshot, Op>(
+  type: OTType<Snapshot, Op>,
+  testCase: Case<Snapshot, Op>
+): string[] {
+  return [
+    `  snapshot: ${show(serializeSnapshot(type, testCase.snapshot))}`,
+    ...testCase.ops.map(
+      (op, i) => `  op ${i + 1}: ${show(serializeOp(type, op))}`
+    ),
+  ];
+}
+
+function defaultChecks<Snapshot, Op>(
+  type: OTType<Snapshot, Op>,
+  options: CheckTypeOptions<Snapshot, Op>
+): TypeCheck[] {
+  const checks: TypeCheck[] = ["transform", "compose"];
+  if (type.invert || type.invertWithSnapshot) checks.push("invert");
+  if (options.normalize) checks.push("normalize");
+  return checks;
+}
+
+interface Property<Snapshot, Op> {
+  generate(random: Random): Case<Snapshot, Op>;
+  // Returns why the case fails, or null if it passes
+  check(testCase: Case<Snapshot, Op>): string | null;
+}
+
+function createProperty<Snapshot, Op>(
+  type: OTType<Snapshot, Op>,
+  options: CheckTypeOptions<Snapshot, Op>,
+  check: TypeCheck
+): Property<Snapshot, Op> {
+  const equal =
+    options.equal ??
+    ((a: Snapshot, b: Snapshot) =>
+      deepEqual(serializeSnapshot(type, a), serializeSnapshot(type, b)));
+  const differ = (a: Snapshot, b: Snapshot) =>
+    `${show(serializeSnapshot(type, a))} differs from ${show(serializeSnapshot(type, b))}`;
+
+  const snapshot = (random: Random): Snapshot => {
+    if (options.snapshot) return options.snapshot(random);
+    let result = type.create();
+    for (let i = random.int(4); i > 0; i--) {
+      result = type.apply(result, options.op(random, result));
+    }
+    return result;
+  };
+
+  // A snapshot and count ops, each applying to the result of the one before
+  const sequential = (random: Random, count: number): Case<Snapshot, Op> => {
+    const start = snapshot(random);
+    const ops: Op[] = [];
+    let current = start;
+    for (let i = 0; i < count; i++) {
+      const op = options.op(random, current);
+      ops.push(op);
+      current = type.apply(current, op);
+    }
+    return { snapshot: start, ops };
+  };
+
+  // A snapshot and two concurrent ops applying to it
+  const concurrent = (random: Random): Case<Snapshot, Op> => {
+    const start = snapshot(random);
+    return {
+      snapshot: start,
+      ops: [options.op(random, start), options.op(random, start)],
+    };
+  };
+
+  switch (check) {
+    case "transform":
+      return {
+        generate: concurrent,
+        check({ snapshot: s, ops: [a, b] }) {
+          const left = type.apply(
+            type.apply(s, a!),
+            type.transform(b!, a!, "right")
+          );
+          const right = type.apply(
+            type.apply(s, b!),
+            type.transform(a!, b!, "left")
+          );
+          return equal(left, right)
+            ? null
+            : `Transformed ops don't converge: ${differ(left, right)}`;
+        },
+      };
+
+    case "compose":
+      return {
+        generate: (random) => sequential(random, 3),
+        check({ snapshot: s, ops: [a, b, c] }) {
+          const applied = type.apply(type.apply(s, a!), b!);
+          const composed = type.apply(s, type.compose(a!, b!));
+          if (!equal(composed, applied)) {
+            return `Applying compose(op 1, op 2) differs from applying them in turn: ${differ(composed, applied)}`;
+          }
+          const leftFirst = type.apply(
+            s,
+            type.compose(type.compose(a!, b!), c!)
+          );
+          const rightFirst = type.apply(
+            s,
+            type.compose(a!, type.compose(b!, c!))
+          );
+          return equal(leftFirst, rightFirst)
+            ? null
+            : `Compose is not associative: ${differ(leftFirst, rightFirst)}`;
+        },
+      };
+
+    case "invert": {
+      const invert = (op: Op, s: Snapshot): Op => {
+        if (type.invertWithSnapshot) return type.invertWithSnapshot(op, s);
+        if (type.invert) return type.invert(op);
+        throw new Error(`Type ${type.name} does not implement invert`);
+      };
+      return {
+        generate: (random) => sequential(random, 1),
+        check({ snapshot: s, ops: [a] }) {
+          const restored = type.apply(type.apply(s, a!), invert(a!, s));
+          return equal(restored, s)
+            ? null
+            : `Applying the inverse doesn't restore the snapshot: ${differ(restored, s)}`;
+        },
+      };
+    }
+
+    case "normalize": {
+      const normalize = options.normalize;
+      if (!normalize) {
+        throw new Error("The normalize check needs the normalize option");
+      }
+      const isNormal = (op: Op) =>
+        deepEqual(serializeOp(type, normalize(op)), serializeOp(type, op));
+      return {
+        // Op 3 applies after op 1, op 2 is concurrent with op 1
+        generate(random) {
+          const { snapshot: s, ops } = concurrent(random);
+          return {
+            snapshot: s,
+            ops: [...ops, options.op(random, type.apply(s, ops[0]!))],
+          };
+        },
+        check({ snapshot: s, ops: [a, b, c] }) {
+          const normal = normalize(a!);
+          if (!equal(type.apply(s, normal), type.apply(s, a!))) {
+            return "Normalizing op 1 changes what it does";
+          }
+          if (!isNormal(normal)) {
+            return "Normalizing op 1 twice gives a different op";
+          }
+          if (!isNormal(type.transform(a!, b!, "left"))) {
+            return "transform(op 1, op 2) is not normalized";
+          }
+          return isNormal(type.compose(a!, c!))
+            ? null
+            : "compose(op 1, op 3) is not normalized";
+        },
+      };
+    }
+  }
+}
+
+interface Failure<Snapshot, Op> {
+  // Missing when generating the case threw
+  testCase?: Case<Snapshot, Op>;
+  reason: string;
+  choices: number[];
+}
+
+/**
+ * Generate a case with the given source of choices and check it.
+ * Returns the failure, or null if the case passes.
+ */
+function runCase<Snapshot, Op>(
+  property: Property<Snapshot, Op>,
+  choose: (n: number) => number
+): Failure<Snapshot, Op> | null {
+  const choices: number[] = [];
+  const random = randomFrom((n) => {
+    const value = choose(n);
+    choices.push(value);
+    return value;
+  });
+
+  let testCase: Case<Snapshot, Op> | undefined;
+  let reason: string | null;
+  try {
+    testCase = property.generate(random);
+    reason = property.check(testCase);
+  } catch (error) {
+    reason = `Threw ${error instanceof Error ? error.message : String(error)}`;
+  }
+  if (reason === null) return null;
+  return { testCase, reason, choices };
+}
+
+/**
+ * Look for a smaller failing case by replaying the failing choices with
+ * some of them removed or made smaller.
+ */
+function shrink<Snapshot, Op>(
+  property: Property<Snapshot, Op>,
+  failure: Failure<Snapshot, Op>
+): Failure<Snapshot, Op> {
+  let best = failure;
+  let attempts = 0;
+
+  // Replay choices, treating choices past the end as 0
+  const attempt = (choices: number[]) => {
+    attempts++;
+    let index = 0;
+    const result = runCase(property, (n) => (choices[index++] ?? 0) % n);
+    if (result === null || !smaller(result.choices, best.choices)) return false;
+    best = result;
+    return true;
+  };
+
+  let improved = true;
+  while (improved && attempts < MAX_SHRINKS) {
+    improved = false;
+
+    for (const size of [8, 4, 2, 1]) {
+      for (let i = 0; i + size <= best.choices.length; ) {
+        if (attempts >= MAX_SHRINKS) break;
+        const choices = best.choices;
+        if (attempt([...choices.slice(0, i), ...choices.slice(i + size)])) {
+          improved = true;
+        } else {
+          i++;
+        }
+      }
+    }
+
+    for (let i = 0; i < best.choices.length; i++) {
+      const value = best.choices[i]!;
+      if (value === 0) continue;
+      for (const candidate of [0, value >> 1, value - 1]) {
+        if (candidate >= value || attempts >= MAX_SHRINKS) continue;
+        const choices = [...best.choices];
+        choices[i] = candidate;
+        if (attempt(choices)) {
+          improved = true;
+          break;
+        }
+      }
+    }
+  }
+
+  return best;
+}
+
+// Fewer choices are smaller; equally many compare choice by choice
+function smaller(a: number[], b: number[]): boolean {
+  if (a.length !== b.length) return a.length < b.length;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i]! < b[i]!;
+  }
+  return false;
+}
+
+function show(value: unknown): string {
+  return value === undefined ? "undefined" : JSON.stringify(value);
+}
+
+/**
+ * Compare JSON-like values structurally, ignoring key order and properties
+ * that are undefined. Used to compare serialized snapshots and ops.
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    a === null ||
+    b === null ||
+    Array.isArray(a) !== Array.isArray(b)
+  ) {
+    return false;
+  }
+  const aKeys = Object.keys(a).filter(
+    (key) => (a as Record<string, unknown>)[key] !== undefined
+  );
+  const bKeys = Object.keys(b).filter(
+    (key) => (b as Record<string, unknown>)[key] !== undefined
+  );
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every((key) =>
+      deepEqual(
+        (a as Record<string, unknown>)[key],
+        (b as Record<string, unknown>)[key]
+      )
+    )
+  );
+}
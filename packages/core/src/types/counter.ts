@@ -0,0 +1,45 @@
+import { OTType } from "../interfaces";
+
+/**
+ * Add inc to the counter. Use a negative inc to decrement.
+ */
+export type CounterOp = { inc: number };
+
+export interface CounterOTType extends OTType<number, CounterOp> {
+  invert(op: CounterOp): CounterOp;
+  invertWithSnapshot(op: CounterOp, snapshot: number): CounterOp;
+}
+
+/**
+ * A shared number. Increments commute, so concurrent ops never conflict.
+ */
+export const CounterType: CounterOTType = {
+  name: "counter",
+
+  create(): number {
+    return 0;
+  },
+
+  apply(snapshot: number, op: CounterOp): number {
+    if (typeof op.inc !== "number" || !Number.isFinite(op.inc)) {
+      throw new Error(`Invalid counter increment: ${op.inc}`);
+    }
+    return snapshot + op.inc;
+  },
+
+  transform(opA: CounterOp): CounterOp {
+    return opA;
+  },
+
+  compose(opA: CounterOp, opB: CounterOp): CounterOp {
+    return { inc: opA.inc + opB.inc };
+  },
+
+  invert(op: CounterOp): CounterOp {
+    return { inc: -op.inc };
+  },
+
+  invertWithSnapshot(op: CounterOp): CounterOp {
+    return CounterType.invert(op);
+  },
+};
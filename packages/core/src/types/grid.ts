@@ -0,0 +1,503 @@
+import { OTType } from "../interfaces";
+import {
+  ListOpComponent,
+  ListType,
+  isListDelete,
+  isListInsert,
+  isListMove,
+} from "./list";
+
+/**
+ * Cell values by row, then by column. Empty cells and rows are left out.
+ */
+export type GridCells<V> = Record<number, Record<number, V>>;
+
+export interface GridSnapshot<V> {
+  rows: number;
+  columns: number;
+  cells: GridCells<V>;
+}
+
+/**
+ * Insert an empty row so that it ends up at index.
+ */
+export type GridInsertRowOp = { insertRow: number };
+/**
+ * Delete the row at index.
+ * `cells` holds the deleted row's cells by column; it is needed to invert
+ * the op.
+ */
+export type GridDeleteRowOp<V> = {
+  deleteRow: number;
+  cells?: Record<number, V>;
+};
+/**
+ * Take the row at index `moveRow` out of the grid and insert it back so
+ * that it ends up at index `to`.
+ */
+export type GridMoveRowOp = { moveRow: number; to: number };
+/**
+ * Insert an empty column so that it ends up at index.
+ */
+export type GridInsertColumnOp = { insertColumn: number };
+/**
+ * Delete the column at index.
+ * `cells` holds the deleted column's cells by row; it is needed to invert
+ * the op.
+ */
+export type GridDeleteColumnOp<V> = {
+  deleteColumn: number;
+  cells?: Record<number, V>;
+};
+/**
+ * Set the cell at [row, column] to value, or clear it if value is null.
+ * `old` holds the previous value (null if the cell was empty); it is
+ * needed to invert the op.
+ */
+export type GridSetOp<V> = {
+  set: [number, number];
+  value: V | null;
+  old?: V | null;
+};
+
+export type GridOpComponent<V> =
+  | GridInsertRowOp
+  | GridDeleteRowOp<V>
+  | GridMoveRowOp
+  | GridInsertColumnOp
+  | GridDeleteColumnOp<V>
+  | GridSetOp<V>;
+
+/**
+ * Components apply one after the other, each to the result of the last.
+ */
+export type GridOp<V> = GridOpComponent<V>[];
+
+export interface GridOTType<V> extends OTType<GridSnapshot<V>, GridOp<V>> {
+  invert(op: GridOp<V>): GridOp<V>;
+  invertWithSnapshot(op: GridOp<V>, snapshot: GridSnapshot<V>): GridOp<V>;
+}
+
+export const isGridInsertRow = <V>(
+  op: GridOpComponent<V>
+): op is GridInsertRowOp => "insertRow" in op;
+export const isGridDeleteRow = <V>(
+  op: GridOpComponent<V>
+): op is GridDeleteRowOp<V> => "deleteRow" in op;
+export const isGridMoveRow = <V>(op: GridOpComponent<V>): op is GridMoveRowOp =>
+  "moveRow" in op;
+export const isGridInsertColumn = <V>(
+  op: GridOpComponent<V>
+): op is GridInsertColumnOp => "insertColumn" in op;
+export const isGridDeleteColumn = <V>(
+  op: GridOpComponent<V>
+): op is GridDeleteColumnOp<V> => "deleteColumn" in op;
+export const isGridSet = <V>(op: GridOpComponent<V>): op is GridSetOp<V> =>
+  "set" in op;
+
+/**
+ * Create a grid type for cell values of type V, e.g. for a table editor.
+ * Row and column changes shift concurrent cell edits along with the cells
+ * they target; edits to a row or column deleted concurrently are dropped.
+ * When two sets of the same cell are concurrent, the one on the 'right'
+ * side wins, like `MapType`.
+ */
+export function createGridType<V>(rows = 0, columns = 0): GridOTType<V> {
+  const type: GridOTType<V> = {
+    name: "grid",
+
+    create(): GridSnapshot<V> {
+      return { rows, columns, cells: {} };
+    },
+
+    apply(snapshot: GridSnapshot<V>, op: GridOp<V>): GridSnapshot<V> {
+      return op.reduce(applyComponent, snapshot);
+    },
+
+    transform(
+      opA: GridOp<V>,
+      opB: GridOp<V>,
+      side: "left" | "right"
+    ): GridOp<V> {
+      let result = opA;
+
+      const otherSide = side === "left" ? "right" : "left";
+
+      for (let other of opB) {
+        const next: GridOp<V> = [];
+        for (let k = 0; k < result.length; k++) {
+          const component = result[k] as GridOpComponent<V>;
+          const transformed = transformComponent(component, other, side);
+          if (transformed) next.push(transformed);
+
+          // Later components of opA apply after component, so other
+          // has to be transformed against it too
+          const otherPrime = transformComponent(other, component, otherSide);
+          if (!otherPrime) {
+            next.push(...result.slice(k + 1));
+            break;
+          }
+          other = otherPrime;
+        }
+        result = next;
+      }
+
+      return result;
+    },
+
+    compose(opA: GridOp<V>, opB: GridOp<V>): GridOp<V> {
+      return [...opA, ...opB];
+    },
+
+    invert(op: GridOp<V>): GridOp<V> {
+      return op
+        .slice()
+        .reverse()
+        .flatMap((component): GridOp<V> => {
+          if (isGridInsertRow(component)) {
+            return [{ deleteRow: component.insertRow, cells: {} }];
+          }
+          if (isGridDeleteRow(component)) {
+            if (!component.cells) {
+              throw new Error(
+                "Cannot invert deleteRow without its cells. Use invertWithSnapshot instead."
+              );
+            }
+            const row = component.deleteRow;
+            return [
+              { insertRow: row },
+              ...Object.entries(component.cells).map(
+                ([column, value]): GridSetOp<V> => ({
+                  set: [row, Number(column)],
+                  value,
+                  old: null,
+                })
+              ),
+            ];
+          }
+          if (isGridMoveRow(component)) {
+            return [{ moveRow: component.to, to: component.moveRow }];
+          }
+          if (isGridInsertColumn(component)) {
+            return [{ deleteColumn: component.insertColumn, cells: {} }];
+          }
+          if (isGridDeleteColumn(component)) {
+            if (!component.cells) {
+              throw new Error(
+                "Cannot invert deleteColumn without its cells. Use invertWithSnapshot instead."
+              );
+            }
+            const column = component.deleteColumn;
+            return [
+              { insertColumn: column },
+              ...Object.entries(component.cells).map(
+                ([row, value]): GridSetOp<V> => ({
+                  set: [Number(row), column],
+                  value,
+                  old: null,
+                })
+              ),
+            ];
+          }
+          if (!("old" in component)) {
+            throw new Error(
+              "Cannot invert set without the old value. Use invertWithSnapshot instead."
+            );
+          }
+          return [
+            {
+              set: component.set,
+              value: component.old as V | null,
+              old: component.value,
+            },
+          ];
+        });
+    },
+
+    invertWithSnapshot(op: GridOp<V>, snapshot: GridSnapshot<V>): GridOp<V> {
+      // Fill in the cells deletes and sets remove
+      let grid = snapshot;
+      const filled = op.map((component) => {
+        let result = component;
+        if (isGridDeleteRow(component)) {
+          result = {
+            deleteRow: component.deleteRow,
+            cells: { ...grid.cells[component.deleteRow] },
+          };
+        } else if (isGridDeleteColumn(component)) {
+          result = {
+            deleteColumn: component.deleteColumn,
+            cells: getColumn(grid, component.deleteColumn),
+          };
+        } else if (isGridSet(component)) {
+          const [row, column] = component.set;
+          result = { ...component, old: getCell(grid, row, column) };
+        }
+        grid = applyComponent(grid, component);
+        return result;
+      });
+      return type.invert(filled);
+    },
+  };
+
+  return type;
+}
+
+export const GridType = createGridType<unknown>();
+
+/**
+ * Get the value of the cell at [row, column], or null if it is empty.
+ */
+export function getCell<V>(
+  snapshot: GridSnapshot<V>,
+  row: number,
+  column: number
+): V | null {
+  return snapshot.cells[row]?.[column] ?? null;
+}
+
+function getColumn<V>(
+  snapshot: GridSnapshot<V>,
+  column: number
+): Record<number, V> {
+  const cells: Record<number, V> = {};
+  for (const [row, values] of Object.entries(snapshot.cells)) {
+    if (column in values) {
+      cells[Number(row)] = values[column] as V;
+    }
+  }
+  return cells;
+}
+
+function checkIndex(index: number, length: number, axis: string) {
+  if (!Number.isInteger(index) || index < 0 || index > length) {
+    throw new Error(
+      `${axis} ${index} is out of bounds. ${axis} count: ${length}`
+    );
+  }
+}
+
+/**
+ * Move the entries of record to new keys. Entries mapped to null are
+ * dropped.
+ */
+function rekey<T>(
+  record: Record<number, T>,
+  map: (index: number) => number | null
+): Record<number, T> {
+  const result: Record<number, T> = {};
+  for (const [key, value] of Object.entries(record)) {
+    const index = map(Number(key));
+    if (index !== null) result[index] = value;
+  }
+  return result;
+}
+
+function mapColumns<V>(
+  cells: GridCells<V>,
+  map: (index: number) => number | null
+): GridCells<V> {
+  const result: GridCells<V> = {};
+  for (const [row, values] of Object.entries(cells)) {
+    const mapped = rekey(values, map);
+    if (Object.keys(mapped).length > 0) result[Number(row)] = mapped;
+  }
+  return result;
+}
+
+function applyComponent<V>(
+  grid: GridSnapshot<V>,
+  component: GridOpComponent<V>
+): GridSnapshot<V> {
+  const { rows, columns, cells } = grid;
+
+  if (isGridInsertRow(component)) {
+    const at = component.insertRow;
+    checkIndex(at, rows, "Row");
+    return {
+      rows: rows + 1,
+      columns,
+      cells: rekey(cells, (r) => (r >= at ? r + 1 : r)),
+    };
+  }
+
+  if (isGridDeleteRow(component)) {
+    const at = component.deleteRow;
+    checkIndex(at, rows - 1, "Row");
+    return {
+      rows: rows - 1,
+      columns,
+      cells: rekey(cells, (r) => (r === at ? null : r > at ? r - 1 : r)),
+    };
+  }
+
+  if (isGridMoveRow(component)) {
+    const { moveRow: from, to } = component;
+    checkIndex(from, rows - 1, "Row");
+    checkIndex(to, rows - 1, "Row");
+    return {
+      rows,
+      columns,
+      cells: rekey(cells, (r) => {
+        if (r === from) return to;
+        if (r > from) r--;
+        return r >= to ? r + 1 : r;
+      }),
+    };
+  }
+
+  if (isGridInsertColumn(component)) {
+    const at = component.insertColumn;
+    checkIndex(at, columns, "Column");
+    return {
+      rows,
+      columns: columns + 1,
+      cells: mapColumns(cells, (c) => (c >= at ? c + 1 : c)),
+    };
+  }
+
+  if (isGridDeleteColumn(component)) {
+    const at = component.deleteColumn;
+    checkIndex(at, columns - 1, "Column");
+    return {
+      rows,
+      columns: columns - 1,
+      cells: mapColumns(cells, (c) => (c === at ? null : c > at ? c - 1 : c)),
+    };
+  }
+
+  if (isGridSet(component)) {
+    const [row, column] = component.set;
+    checkIndex(row, rows - 1, "Row");
+    checkIndex(column, columns - 1, "Column");
+    const values = { ...cells[row] };
+    if (component.value === null) {
+      delete values[column];
+    } else {
+      values[column] = component.value;
+    }
+    const result = { ...cells };
+    if (Object.keys(values).length > 0) {
+      result[row] = values;
+    } else {
+      delete result[row];
+    }
+    return { rows, columns, cells: result };
+  }
+
+  throw new Error("Invalid operation component");
+}
+
+type Axis = { axis: "row" | "column"; op: ListOpComponent<unknown> };
+
+// Row and column changes are list ops on their axis
+function toAxis<V>(component: GridOpComponent<V>): Axis | null {
+  if (isGridInsertRow(component)) {
+    return { axis: "row", op: { insert: component.insertRow, value: null } };
+  }
+  if (isGridDeleteRow(component)) {
+    return { axis: "row", op: { delete: component.deleteRow } };
+  }
+  if (isGridMoveRow(component)) {
+    return { axis: "row", op: { move: component.moveRow, to: component.to } };
+  }
+  if (isGridInsertColumn(component)) {
+    return {
+      axis: "column",
+      op: { insert: component.insertColumn, value: null },
+    };
+  }
+  if (isGridDeleteColumn(component)) {
+    return { axis: "column", op: { delete: component.deleteColumn } };
+  }
+  return null;
+}
+
+/**
+ * Where the row or column at index ends up after other, or null if other
+ * deletes it.
+ */
+function mapIndex(index: number, other: ListOpComponent<unknown>) {
+  const [result] = ListType.transform([{ delete: index }], [other], "left");
+  return result && isListDelete(result) ? result.delete : null;
+}
+
+/**
+ * Transform component c so it applies after other.
+ * Returns null if c no longer has any effect.
+ */
+function transformComponent<V>(
+  c: GridOpComponent<V>,
+  other: GridOpComponent<V>,
+  side: "left" | "right"
+): GridOpComponent<V> | null {
+  if (isGridSet(other)) {
+    const [row, column] = other.set;
+    if (isGridSet(c)) {
+      if (c.set[0] !== row || c.set[1] !== column) return c;
+      // Both set the same cell: right wins
+      return side === "right" ? { ...c, old: other.value } : null;
+    }
+    // Keep the cells a delete removes up to date
+    if (isGridDeleteRow(c) && c.deleteRow === row && c.cells) {
+      return { ...c, cells: setEntry(c.cells, column, other.value) };
+    }
+    if (isGridDeleteColumn(c) && c.deleteColumn === column && c.cells) {
+      return { ...c, cells: setEntry(c.cells, row, other.value) };
+    }
+    return c;
+  }
+
+  const { axis, op } = toAxis(other) as Axis;
+  const map = (index: number) => mapIndex(index, op);
+
+  if (isGridSet(c)) {
+    const [row, column] = c.set;
+    const index = map(axis === "row" ? row : column);
+    if (index === null) return null;
+    return { ...c, set: axis === "row" ? [index, column] : [row, index] };
+  }
+
+  const own = toAxis(c) as Axis;
+  if (own.axis !== axis) {
+    // A row change moves the cells of a deleted column, and vice versa
+    if (isGridDeleteRow(c) && c.cells) {
+      return { ...c, cells: rekey(c.cells, map) };
+    }
+    if (isGridDeleteColumn(c) && c.cells) {
+      return { ...c, cells: rekey(c.cells, map) };
+    }
+    return c;
+  }
+
+  const [result] = ListType.transform([own.op], [op], side);
+  if (!result) return null;
+  if (isListInsert(result)) {
+    return axis === "row"
+      ? { insertRow: result.insert }
+      : { insertColumn: result.insert };
+  }
+  if (isListDelete(result)) {
+    return axis === "row"
+      ? { ...c, deleteRow: result.delete }
+      : { ...c, deleteColumn: result.delete };
+  }
+  if (isListMove(result)) {
+    return { moveRow: result.move, to: result.to };
+  }
+  return null;
+}
+
+function setEntry<V>(
+  record: Record<number, V>,
+  index: number,
+  value: V | null
+): Record<number, V> {
+  const result = { ...record };
+  if (value === null) {
+    delete result[index];
+  } else {
+    result[index] = value;
+  }
+  return result;
+}
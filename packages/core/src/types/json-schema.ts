@@ -0,0 +1,193 @@
+import * as json1 from "ot-json1";
+import {
+  JsonOTType,
+  JsonSemanticHooks,
+  JsonValidationIssue,
+  createJsonType,
+} from "./json";
+
+export type JsonSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "null"
+  | "object"
+  | "array";
+
+/**
+ * The subset of JSON Schema understood by `createSchemaJsonType`.
+ * Unknown keywords are ignored.
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: json1.Doc[];
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+  // Strings
+  minLength?: number;
+  maxLength?: number;
+  // Arrays
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  // Objects
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+}
+
+/**
+ * Check a document against a schema.
+ * Returns the first violation found, or null if the document is valid.
+ */
+export function validateJsonSchema(
+  doc: json1.Doc | undefined,
+  schema: JsonSchema,
+  path: json1.Path = []
+): JsonValidationIssue | null {
+  const issue = (reason: string): JsonValidationIssue => ({ path, reason });
+
+  if (doc === undefined) {
+    return issue("Document is missing");
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(doc, type))) {
+      return issue(`Expected ${types.join(" or ")}, got ${typeOf(doc)}`);
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((value) => isEqual(value, doc))) {
+    return issue(
+      `Expected one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`
+    );
+  }
+
+  if (typeof doc === "number") {
+    if (schema.minimum !== undefined && doc < schema.minimum) {
+      return issue(`Expected a number >= ${schema.minimum}, got ${doc}`);
+    }
+    if (schema.maximum !== undefined && doc > schema.maximum) {
+      return issue(`Expected a number <= ${schema.maximum}, got ${doc}`);
+    }
+  }
+
+  if (typeof doc === "string") {
+    const length = Array.from(doc).length;
+    if (schema.minLength !== undefined && length < schema.minLength) {
+      return issue(`Expected at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+      return issue(`Expected at most ${schema.maxLength} characters`);
+    }
+  }
+
+  if (Array.isArray(doc)) {
+    if (schema.minItems !== undefined && doc.length < schema.minItems) {
+      return issue(`Expected at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && doc.length > schema.maxItems) {
+      return issue(`Expected at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      for (let i = 0; i < doc.length; i++) {
+        const result = validateJsonSchema(doc[i], schema.items, [...path, i]);
+        if (result) return result;
+      }
+    }
+  } else if (doc !== null && typeof doc === "object") {
+    for (const key of schema.required ?? []) {
+      if (!(key in doc)) {
+        return issue(`Missing required property "${key}"`);
+      }
+    }
+
+    for (const key of Object.keys(doc)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        const result = validateJsonSchema(doc[key], propertySchema, [
+          ...path,
+          key,
+        ]);
+        if (result) return result;
+      } else if (schema.additionalProperties === false) {
+        return { path: [...path, key], reason: "Unexpected property" };
+      } else if (typeof schema.additionalProperties === "object") {
+        const result = validateJsonSchema(
+          doc[key],
+          schema.additionalProperties,
+          [...path, key]
+        );
+        if (result) return result;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Create a JSON type that rejects ops producing documents which violate
+ * the schema, by throwing a `JsonValidationError` with the failing path.
+ * Removing the root is rejected too, as a missing document matches no schema.
+ * Other hooks are passed through; a `validate` hook runs after the schema
+ * check.
+ */
+export function createSchemaJsonType(
+  schema: JsonSchema,
+  hooks: JsonSemanticHooks = {}
+): JsonOTType {
+  return createJsonType({
+    ...hooks,
+    validate: (op, doc, stage) => {
+      // Transformed and inverted ops are checked once they are applied
+      if (stage === "apply") {
+        const issue = validateJsonSchema(doc, schema);
+        if (issue) return issue;
+      }
+      return hooks.validate ? hooks.validate(op, doc, stage) : true;
+    },
+  });
+}
+
+function matchesType(doc: json1.Doc, type: JsonSchemaType): boolean {
+  switch (type) {
+    case "integer":
+      return typeof doc === "number" && Number.isInteger(doc);
+    case "null":
+      return doc === null;
+    case "array":
+      return Array.isArray(doc);
+    case "object":
+      return doc !== null && typeof doc === "object" && !Array.isArray(doc);
+    default:
+      return typeof doc === type;
+  }
+}
+
+function typeOf(doc: json1.Doc): string {
+  if (doc === null) return "null";
+  if (Array.isArray(doc)) return "array";
+  return typeof doc;
+}
+
+function isEqual(a: json1.Doc, b: json1.Doc): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || !a || !b) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every(
+    (key) =>
+      key in b &&
+      isEqual(
+        (a as Record<string, json1.Doc>)[key] as json1.Doc,
+        (b as Record<string, json1.Doc>)[key] as json1.Doc
+      )
+  );
+}
@@ -1,8 +1,43 @@
 import { OTType } from "../interfaces";
 import * as json1 from "ot-json1";
+import { TextOperation, TextType } from "./text";
 
 export type JsonOp = json1.JSONOp;
 
+/**
+ * Why a `validate` hook rejected an op, and where in the document.
+ */
+export interface JsonValidationIssue {
+  path: json1.Path;
+  reason: string;
+}
+
+/**
+ * Thrown when the `validate` hook rejects an op.
+ */
+export class JsonValidationError extends Error {
+  public readonly path: json1.Path;
+  public readonly reason: string;
+
+  constructor(issue: JsonValidationIssue) {
+    const where = issue.path.length > 0 ? issue.path.join("/") : "(root)";
+    super(`Invalid operation at ${where}: ${issue.reason}`);
+    this.name = "JsonValidationError";
+    this.path = issue.path;
+    this.reason = issue.reason;
+  }
+}
+
+/**
+ * Where a `validate` hook is called from:
+ * - `apply`: `doc` is the document the op produces, undefined if the op
+ *   removes the root. `invertWithDoc` checks inverses this way, with the
+ *   document they restore.
+ * - `transform` and `invert`: the document isn't known, so `doc` is
+ *   undefined. The op is checked again when it is applied.
+ */
+export type JsonValidationStage = "apply" | "transform" | "invert";
+
 export interface JsonSemanticHooks {
   /**
    * Post-transform sanity adjustments.
@@ -12,10 +47,15 @@ export interface JsonSemanticHooks {
 
   /**
    * Reject ops that violate schema.
-   * Runs after transform to check if the transformed op is valid.
-   * Note: snapshot might be undefined when called from transform.
+   * Runs in apply with the resulting document, and after transform and
+   * invert to check the produced op. Return false or an issue to reject.
+   * Note: doc is only known when stage is "apply".
    */
-  validate?: (op: JsonOp, doc?: json1.Doc) => boolean;
+  validate?: (
+    op: JsonOp,
+    doc: json1.Doc | undefined,
+    stage: JsonValidationStage
+  ) => boolean | JsonValidationIssue;
 
   /**
    * Hook to rewrite ops proactively.
@@ -24,9 +64,62 @@ export interface JsonSemanticHooks {
   transformOp?: (op: JsonOp, doc: json1.Doc | null) => JsonOp | null;
 }
 
-export function createJsonType(
-  hooks: JsonSemanticHooks = {}
-): OTType<json1.Doc | undefined, JsonOp> {
+export interface JsonTypeOptions extends JsonSemanticHooks {
+  /**
+   * Types whose ops can be embedded in JSON ops to edit values in place,
+   * e.g. a string field with `TextType`. `TextType` is always available.
+   */
+  subtypes?: OTType<unknown, unknown>[];
+}
+
+export interface JsonOTType extends OTType<json1.Doc | undefined, JsonOp> {
+  invert(op: JsonOp): JsonOp;
+  invertWithSnapshot(op: JsonOp, snapshot: json1.Doc | undefined): JsonOp;
+  /**
+   * Same as `invertWithSnapshot`, named after the ot-json1 function.
+   */
+  invertWithDoc(op: JsonOp, doc: json1.Doc | undefined): JsonOp;
+}
+
+export function createJsonType(hooks: JsonTypeOptions = {}): JsonOTType {
+  for (const subtype of hooks.subtypes ?? []) {
+    registerJsonSubtype(subtype);
+  }
+
+  // Throws a JsonValidationError if the validate hook rejects op
+  const check = (
+    op: JsonOp,
+    doc: json1.Doc | undefined,
+    stage: JsonValidationStage
+  ): JsonOp => {
+    if (!hooks.validate) return op;
+
+    const result = hooks.validate(op, doc, stage);
+    if (result === true) return op;
+    throw new JsonValidationError(
+      result === false
+        ? { path: opPath(op), reason: "Rejected by validate hook" }
+        : result
+    );
+  };
+
+  const invertWithDoc = (op: JsonOp, doc: json1.Doc | undefined): JsonOp => {
+    let currentOp = op;
+    const currentSnapshot = doc ?? null;
+
+    // Invert the op apply would actually have run
+    if (hooks.transformOp) {
+      const rewritten = hooks.transformOp(currentOp, currentSnapshot);
+      if (rewritten) {
+        currentOp = rewritten;
+      }
+    }
+
+    const inverse = json1.type.invertWithDoc(currentOp, currentSnapshot);
+    // Applying the inverse restores doc
+    return check(inverse, doc, "apply");
+  };
+
   return {
     name: "json",
     create() {
@@ -51,6 +144,9 @@ export function createJsonType(
       if (hooks.normalize && next !== undefined) {
         next = hooks.normalize(next);
       }
+
+      // Reject ops that leave the document violating schema
+      check(currentOp, next, "apply");
       return next;
     },
 
@@ -58,20 +154,102 @@ export function createJsonType(
       const result = json1.type.transform(opA, opB, side) ?? null;
 
       // Reject ops that violate schema
-      // Note: We pass undefined for doc because transform is stateless in OT
-      if (hooks.validate && !hooks.validate(result, undefined)) {
-        // drop or rewrite bad op
-        // Returning null acts as a no-op in many contexts, or at least an empty op
-        return null as unknown as JsonOp;
-      }
-
-      return result;
+      // Note: There is no doc because transform is stateless in OT
+      return check(result, undefined, "transform");
     },
 
     compose(opA: JsonOp, opB: JsonOp): JsonOp {
-      return json1.type.compose(opA, opB);
+      // json1 can number the picks and drops of a composed op out of order
+      return json1.type.normalize(json1.type.compose(opA, opB));
     },
+
+    invert(op: JsonOp): JsonOp {
+      if (!hasRemovedValues(op)) {
+        throw new Error(
+          "Cannot invert operation: a removal does not carry the removed value. Use invertWithDoc instead."
+        );
+      }
+      return check(json1.type.invert(op), undefined, "invert");
+    },
+
+    invertWithSnapshot: invertWithDoc,
+    invertWithDoc,
   };
 }
 
+/**
+ * Make a type available for embedded edits in JSON ops.
+ * ot-json1 keeps one registry for the whole process, keyed by type name,
+ * so every JSON type can apply edits of a registered subtype.
+ */
+export function registerJsonSubtype<Snapshot, Op>(type: OTType<Snapshot, Op>) {
+  const invert = type.invert?.bind(type);
+  const invertWithSnapshot = type.invertWithSnapshot?.bind(type);
+
+  json1.type.registerSubtype({
+    name: type.name,
+    create: () => type.create(),
+    apply: (snapshot: Snapshot, op: Op) => type.apply(snapshot, op),
+    transform: (opA: Op, opB: Op, side: "left" | "right") =>
+      type.transform(opA, opB, side),
+    compose: (opA: Op, opB: Op) => type.compose(opA, opB),
+    invert,
+    // Inverting the inverse gives back op with everything it removed
+    makeInvertible:
+      invert && invertWithSnapshot
+        ? (op: Op, snapshot: Snapshot) =>
+            invert(invertWithSnapshot(op, snapshot))
+        : undefined,
+  });
+}
+
+/**
+ * Build a JSON op that edits the value at path with an op of the given
+ * subtype. The subtype must be registered (see `registerJsonSubtype`).
+ */
+export function subtypeEditOp<Snapshot, Op>(
+  path: json1.Path,
+  type: OTType<Snapshot, Op>,
+  op: Op
+): JsonOp {
+  return json1.editOp(path, type.name, op);
+}
+
+/**
+ * Build a JSON op that edits the string at path with a `TextOperation`.
+ */
+export function textEditOp(path: json1.Path, op: TextOperation): JsonOp {
+  return subtypeEditOp(path, TextType, op);
+}
+
+/**
+ * The path an op starts at: the keys before its first component or fork.
+ */
+function opPath(op: JsonOp): json1.Path {
+  const path: json1.Path = [];
+  if (!Array.isArray(op)) return path;
+  for (const item of op) {
+    if (typeof item !== "string" && typeof item !== "number") break;
+    path.push(item);
+  }
+  return path;
+}
+
+/**
+ * json1 marks removals that don't carry their value with `r: true`.
+ * Such ops invert into inserts of `true`, so they must be filled in from
+ * the document first.
+ */
+function hasRemovedValues(op: unknown): boolean {
+  if (Array.isArray(op)) {
+    return op.every(hasRemovedValues);
+  }
+  if (op !== null && typeof op === "object" && "r" in op) {
+    return (op as { r: unknown }).r !== true;
+  }
+  return true;
+}
+
+registerJsonSubtype(TextType);
+
 export const JsonType = createJsonType();
@@ -0,0 +1,316 @@
+import { OTType } from "../interfaces";
+
+/**
+ * Insert value so that it ends up at index.
+ */
+export type ListInsertOp<T> = { insert: number; value: T };
+/**
+ * Delete the item at index.
+ * `value` holds the deleted item; it is needed to invert the op.
+ */
+export type ListDeleteOp<T> = { delete: number; value?: T };
+/**
+ * Replace the item at index with value.
+ * `old` holds the replaced item; it is needed to invert the op.
+ */
+export type ListReplaceOp<T> = { replace: number; value: T; old?: T };
+/**
+ * Take the item at index `move` out of the list and insert it back so that
+ * it ends up at index `to`.
+ */
+export type ListMoveOp = { move: number; to: number };
+
+export type ListOpComponent<T> =
+  | ListInsertOp<T>
+  | ListDeleteOp<T>
+  | ListReplaceOp<T>
+  | ListMoveOp;
+
+/**
+ * Components apply one after the other, each to the result of the last.
+ */
+export type ListOp<T> = ListOpComponent<T>[];
+
+export interface ListOTType<T> extends OTType<T[], ListOp<T>> {
+  invert(op: ListOp<T>): ListOp<T>;
+  invertWithSnapshot(op: ListOp<T>, snapshot: T[]): ListOp<T>;
+}
+
+export const isListInsert = <T>(
+  op: ListOpComponent<T>
+): op is ListInsertOp<T> => "insert" in op;
+export const isListDelete = <T>(
+  op: ListOpComponent<T>
+): op is ListDeleteOp<T> => "delete" in op;
+export const isListReplace = <T>(
+  op: ListOpComponent<T>
+): op is ListReplaceOp<T> => "replace" in op;
+export const isListMove = <T>(op: ListOpComponent<T>): op is ListMoveOp =>
+  "move" in op;
+
+/**
+ * Create a list type for items of type T.
+ * Items are treated as opaque values: replacing an item swaps it whole.
+ */
+export function createListType<T>(): ListOTType<T> {
+  const type: ListOTType<T> = {
+    name: "list",
+
+    create(): T[] {
+      return [];
+    },
+
+    apply(snapshot: T[], op: ListOp<T>): T[] {
+      const result = snapshot.slice();
+      for (const component of op) {
+        applyComponent(result, component);
+      }
+      return result;
+    },
+
+    transform(
+      opA: ListOp<T>,
+      opB: ListOp<T>,
+      side: "left" | "right"
+    ): ListOp<T> {
+      let result = opA;
+
+      const otherSide = side === "left" ? "right" : "left";
+
+      for (let other of opB) {
+        const next: ListOp<T> = [];
+        for (let k = 0; k < result.length; k++) {
+          const component = result[k] as ListOpComponent<T>;
+          const transformed = transformComponent(component, other, side);
+          if (transformed) next.push(transformed);
+
+          // Later components of opA apply after component, so other
+          // has to be transformed against it too
+          const otherPrime = transformComponent(other, component, otherSide);
+          if (!otherPrime) {
+            next.push(...result.slice(k + 1));
+            break;
+          }
+          other = otherPrime;
+        }
+        result = next;
+      }
+
+      return result;
+    },
+
+    compose(opA: ListOp<T>, opB: ListOp<T>): ListOp<T> {
+      return [...opA, ...opB];
+    },
+
+    invert(op: ListOp<T>): ListOp<T> {
+      return op
+        .slice()
+        .reverse()
+        .map((component): ListOpComponent<T> => {
+          if (isListInsert(component)) {
+            return { delete: component.insert, value: component.value };
+          }
+          if (isListDelete(component)) {
+            if (!("value" in component)) {
+              throw new Error(
+                "Cannot invert delete without its value. Use invertWithSnapshot instead."
+              );
+            }
+            return { insert: component.delete, value: component.value as T };
+          }
+          if (isListReplace(component)) {
+            if (!("old" in component)) {
+              throw new Error(
+                "Cannot invert replace without the old value. Use invertWithSnapshot instead."
+              );
+            }
+            return {
+              replace: component.replace,
+              value: component.old as T,
+              old: component.value,
+            };
+          }
+          return { move: component.to, to: component.move };
+        });
+    },
+
+    invertWithSnapshot(op: ListOp<T>, snapshot: T[]): ListOp<T> {
+      // Fill in the values deletes and replaces remove
+      const list = snapshot.slice();
+      const filled = op.map((component) => {
+        let result = component;
+        if (isListDelete(component)) {
+          result = { delete: component.delete, value: list[component.delete] };
+        } else if (isListReplace(component)) {
+          result = { ...component, old: list[component.replace] };
+        }
+        applyComponent(list, component);
+        return result;
+      });
+      return type.invert(filled);
+    },
+  };
+
+  return type;
+}
+
+export const ListType = createListType<unknown>();
+
+function checkIndex(index: number, length: number) {
+  if (!Number.isInteger(index) || index < 0 || index > length) {
+    throw new Error(`Index ${index} is out of bounds. List Length: ${length}`);
+  }
+}
+
+function applyComponent<T>(list: T[], component: ListOpComponent<T>) {
+  if (isListInsert(component)) {
+    checkIndex(component.insert, list.length);
+    list.splice(component.insert, 0, component.value);
+  } else if (isListDelete(component)) {
+    checkIndex(component.delete, list.length - 1);
+    list.splice(component.delete, 1);
+  } else if (isListReplace(component)) {
+    checkIndex(component.replace, list.length - 1);
+    list[component.replace] = component.value;
+  } else if (isListMove(component)) {
+    checkIndex(component.move, list.length - 1);
+    const [item] = list.splice(component.move, 1) as [T];
+    checkIndex(component.to, list.length);
+    list.splice(component.to, 0, item);
+  } else {
+    throw new Error("Invalid operation component");
+  }
+}
+
+/**
+ * Transform component c so it applies after other.
+ * Returns null if c no longer has any effect.
+ */
+function transformComponent<T>(
+  c: ListOpComponent<T>,
+  other: ListOpComponent<T>,
+  side: "left" | "right"
+): ListOpComponent<T> | null {
+  if (isListInsert(other)) {
+    const q = other.insert;
+    if (isListInsert(c)) {
+      // Concurrent inserts at the same index: left goes first
+      const p = c.insert;
+      return {
+        ...c,
+        insert: q < p || (q === p && side === "right") ? p + 1 : p,
+      };
+    }
+    if (isListMove(c)) {
+      const move = q <= c.move ? c.move + 1 : c.move;
+      if (c.move === c.to) return { move, to: move };
+      // c.to is an index in the list without the moved item
+      const gap = q > c.move ? q - 1 : q;
+      return { move, to: gap <= c.to ? c.to + 1 : c.to };
+    }
+    return shiftIndex(c, (p) => (q <= p ? p + 1 : p));
+  }
+
+  if (isListDelete(other)) {
+    const q = other.delete;
+    if (isListMove(c)) {
+      // They deleted the item we're moving
+      if (c.move === q) return null;
+      const to = q < c.to || (q === c.to && c.move < c.to) ? c.to - 1 : c.to;
+      return { move: q < c.move ? c.move - 1 : c.move, to };
+    }
+    if (isListInsert(c)) {
+      return { ...c, insert: q < c.insert ? c.insert - 1 : c.insert };
+    }
+    const p = getIndex(c);
+    if (q < p) return shiftIndex(c, (i) => i - 1);
+    if (q === p) {
+      // We replaced what they deleted: keep our item as an insert
+      if (isListReplace(c)) return { insert: p, value: c.value };
+      return null;
+    }
+    return c;
+  }
+
+  if (isListReplace(other)) {
+    if (isListMove(c) || isListInsert(c)) return c;
+    if (getIndex(c) !== other.replace) return c;
+    // Both replaced the same item: left wins
+    if (isListReplace(c) && side === "left") return { ...c, old: other.value };
+    // The item we deleted was replaced; the replacement stays
+    return null;
+  }
+
+  // other is a move
+  const from = other.move;
+  const to = other.to;
+  if (from === to) return c;
+
+  if (isListMove(c)) {
+    return transformMove(c, other, side);
+  }
+
+  if (isListInsert(c)) {
+    let p = c.insert;
+    if (p > from) p--;
+    if (p > to) p++;
+    return { ...c, insert: p };
+  }
+
+  // Follow the item we're deleting or replacing
+  return shiftIndex(c, (p) => followMove(p, other));
+}
+
+function transformMove(
+  c: ListMoveOp,
+  other: ListMoveOp,
+  side: "left" | "right"
+): ListMoveOp | null {
+  let { move: from, to } = c;
+  const { move: otherFrom, to: otherTo } = other;
+
+  if (from === otherFrom) {
+    // Both moved the same item: left wins
+    if (side === "right") return null;
+    return { move: otherTo, to: from === to ? otherTo : to };
+  }
+
+  // Where is our item now?
+  const noop = from === to;
+  from = followMove(from, other);
+  if (noop) return { move: from, to: from };
+
+  // Where should it go? to is an index in the list without our item, so
+  // replay the other move in that list. Left goes first on a tie.
+  const otherFromWithout = otherFrom > c.move ? otherFrom - 1 : otherFrom;
+  const otherToWithout = otherTo > from ? otherTo - 1 : otherTo;
+  if (to > otherFromWithout) to--;
+  if (to > otherToWithout || (to === otherToWithout && side === "right")) {
+    to++;
+  }
+
+  return { move: from, to };
+}
+
+/**
+ * Where the item at index ends up after move.
+ */
+function followMove(index: number, move: ListMoveOp): number {
+  if (index === move.move) return move.to;
+  if (index > move.move) index--;
+  return index >= move.to ? index + 1 : index;
+}
+
+function getIndex<T>(c: ListDeleteOp<T> | ListReplaceOp<T>): number {
+  return isListDelete(c) ? c.delete : c.replace;
+}
+
+function shiftIndex<T>(
+  c: ListOpComponent<T>,
+  shift: (index: number) => number
+): ListOpComponent<T> {
+  if (isListDelete(c)) return { ...c, delete: shift(c.delete) };
+  if (isListReplace(c)) return { ...c, replace: shift(c.replace) };
+  return c;
+}
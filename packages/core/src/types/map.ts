@@ -0,0 +1,127 @@
+import { OTType } from "../interfaces";
+
+/**
+ * The value of a key before an op, or null if the key was not set.
+ */
+export type MapPrevious<V> = { value: V } | null;
+
+/**
+ * Set the key to value.
+ * `before` holds what the key held before; it is needed to invert the op.
+ */
+export type MapSetOp<V> = { set: V; before?: MapPrevious<V> };
+/**
+ * Remove the key.
+ */
+export type MapDeleteOp<V> = { delete: true; before?: MapPrevious<V> };
+
+export type MapKeyOp<V> = MapSetOp<V> | MapDeleteOp<V>;
+
+/**
+ * Changes by key. Keys not in the op are left unchanged.
+ */
+export type MapOp<V> = Record<string, MapKeyOp<V>>;
+
+export type MapSnapshot<V> = Record<string, V>;
+
+export interface MapOTType<V> extends OTType<MapSnapshot<V>, MapOp<V>> {
+  invert(op: MapOp<V>): MapOp<V>;
+  invertWithSnapshot(op: MapOp<V>, snapshot: MapSnapshot<V>): MapOp<V>;
+}
+
+export const isMapSet = <V>(op: MapKeyOp<V>): op is MapSetOp<V> => "set" in op;
+
+/**
+ * Create a key-value map whose keys are last-writer-wins registers.
+ * Ops on different keys never conflict. When two ops change the same key
+ * concurrently, the one on the 'right' side wins, like `RegisterType`.
+ */
+export function createMapType<V>(): MapOTType<V> {
+  const type: MapOTType<V> = {
+    name: "map",
+
+    create(): MapSnapshot<V> {
+      return {};
+    },
+
+    apply(snapshot: MapSnapshot<V>, op: MapOp<V>): MapSnapshot<V> {
+      const result = { ...snapshot };
+      for (const [key, keyOp] of Object.entries(op)) {
+        if (isMapSet(keyOp)) {
+          result[key] = keyOp.set;
+        } else {
+          delete result[key];
+        }
+      }
+      return result;
+    },
+
+    transform(opA: MapOp<V>, opB: MapOp<V>, side: "left" | "right"): MapOp<V> {
+      const result: MapOp<V> = {};
+      for (const [key, keyOp] of Object.entries(opA)) {
+        const other = opB[key];
+        if (!other) {
+          result[key] = keyOp;
+        } else if (side === "right") {
+          // We win: what we overwrite is now opB's result
+          result[key] = { ...keyOp, before: getResult(other) };
+        }
+      }
+      return result;
+    },
+
+    compose(opA: MapOp<V>, opB: MapOp<V>): MapOp<V> {
+      const result: MapOp<V> = { ...opA };
+      for (const [key, keyOp] of Object.entries(opB)) {
+        const first = opA[key];
+        if (first && "before" in first) {
+          result[key] = { ...keyOp, before: first.before };
+        } else if (first) {
+          result[key] = withoutBefore(keyOp);
+        } else {
+          result[key] = keyOp;
+        }
+      }
+      return result;
+    },
+
+    invert(op: MapOp<V>): MapOp<V> {
+      const result: MapOp<V> = {};
+      for (const [key, keyOp] of Object.entries(op)) {
+        if (keyOp.before === undefined) {
+          throw new Error(
+            `Cannot invert change to "${key}" without its previous value. Use invertWithSnapshot instead.`
+          );
+        }
+        const before = getResult(keyOp);
+        result[key] = keyOp.before
+          ? { set: keyOp.before.value, before }
+          : { delete: true, before };
+      }
+      return result;
+    },
+
+    invertWithSnapshot(op: MapOp<V>, snapshot: MapSnapshot<V>): MapOp<V> {
+      const filled: MapOp<V> = {};
+      for (const [key, keyOp] of Object.entries(op)) {
+        filled[key] = {
+          ...keyOp,
+          before: key in snapshot ? { value: snapshot[key] as V } : null,
+        };
+      }
+      return type.invert(filled);
+    },
+  };
+
+  return type;
+}
+
+export const MapType = createMapType<unknown>();
+
+function getResult<V>(op: MapKeyOp<V>): MapPrevious<V> {
+  return isMapSet(op) ? { value: op.set } : null;
+}
+
+function withoutBefore<V>(op: MapKeyOp<V>): MapKeyOp<V> {
+  return isMapSet(op) ? { set: op.set } : { delete: true };
+}
@@ -0,0 +1,78 @@
+import { OTType } from "../interfaces";
+
+/**
+ * Set the register to value.
+ * `old` holds the previous value; it is needed to invert the op.
+ */
+export type RegisterSetOp<T> = { set: T; old?: T };
+
+/**
+ * At most one set. An empty op leaves the register unchanged.
+ */
+export type RegisterOp<T> = RegisterSetOp<T>[];
+
+export interface RegisterOTType<T> extends OTType<T, RegisterOp<T>> {
+  invert(op: RegisterOp<T>): RegisterOp<T>;
+  invertWithSnapshot(op: RegisterOp<T>, snapshot: T): RegisterOp<T>;
+}
+
+/**
+ * Create a last-writer-wins register holding a single value.
+ * When two sets are concurrent, the one on the 'right' side wins. The
+ * server transforms incoming ops as 'right', so the set it receives last
+ * is the one that sticks.
+ */
+export function createRegisterType<T>(initialValue: T): RegisterOTType<T> {
+  return {
+    name: "register",
+
+    create(): T {
+      return initialValue;
+    },
+
+    apply(snapshot: T, op: RegisterOp<T>): T {
+      const last = op[op.length - 1];
+      return last ? last.set : snapshot;
+    },
+
+    transform(
+      opA: RegisterOp<T>,
+      opB: RegisterOp<T>,
+      side: "left" | "right"
+    ): RegisterOp<T> {
+      const a = opA[opA.length - 1];
+      const b = opB[opB.length - 1];
+      if (!a || !b) return opA;
+      // opA loses: opB's value stays
+      if (side === "left") return [];
+      return [{ set: a.set, old: b.set }];
+    },
+
+    compose(opA: RegisterOp<T>, opB: RegisterOp<T>): RegisterOp<T> {
+      const a = opA[opA.length - 1];
+      const b = opB[opB.length - 1];
+      if (!a) return opB;
+      if (!b) return opA;
+      return "old" in a ? [{ set: b.set, old: a.old }] : [{ set: b.set }];
+    },
+
+    invert(op: RegisterOp<T>): RegisterOp<T> {
+      const last = op[op.length - 1];
+      if (!last) return [];
+      if (!("old" in last)) {
+        throw new Error(
+          "Cannot invert set without the old value. Use invertWithSnapshot instead."
+        );
+      }
+      return [{ set: last.old as T, old: last.set }];
+    },
+
+    invertWithSnapshot(op: RegisterOp<T>, snapshot: T): RegisterOp<T> {
+      const last = op[op.length - 1];
+      if (!last) return [];
+      return [{ set: snapshot, old: last.set }];
+    },
+  };
+}
+
+export const RegisterType = createRegisterType<unknown>(null);
@@ -0,0 +1,625 @@
+import { OTType } from "../interfaces";
+
+/**
+ * Formatting attributes, e.g. `{ bold: true, link: "https://..." }`.
+ * In retains, a `null` value removes the attribute.
+ */
+export type Attributes = Record<string, unknown>;
+
+/**
+ * Non-text content such as images or mentions, e.g. `{ image: "cat.png" }`.
+ * An embed always has length 1.
+ */
+export type Embed = Record<string, unknown>;
+
+export type RichInsertOp = { i: string | Embed; a?: Attributes };
+/**
+ * Retain `r` characters, applying the format change `a` to them if present.
+ */
+export type RichRetainOp = { r: number; a?: Attributes };
+/**
+ * Delete `d` characters. `s` optionally carries the deleted content, which
+ * makes the operation invertible without access to the original snapshot.
+ */
+export type RichDeleteOp = { d: number; s?: RichInsertOp[] };
+
+export type RichOpComponent = RichInsertOp | RichRetainOp | RichDeleteOp;
+export type RichTextOperation = RichOpComponent[];
+
+/**
+ * A rich text document is a normalized list of inserts.
+ */
+export type RichTextSnapshot = RichInsertOp[];
+
+/**
+ * The rich text type, with the optional parts of `OTType` it implements
+ * made required.
+ */
+export interface RichTextOTType
+  extends OTType<RichTextSnapshot, RichTextOperation> {
+  invert(op: RichTextOperation): RichTextOperation;
+  invertWithSnapshot(
+    op: RichTextOperation,
+    snapshot: RichTextSnapshot
+  ): RichTextOperation;
+  transformCursor(
+    cursor: number,
+    op: RichTextOperation,
+    side: "left" | "right"
+  ): number;
+}
+
+/**
+ * Helper to check if a component is an Insert operation
+ */
+export const isRichInsert = (op: RichOpComponent): op is RichInsertOp =>
+  "i" in op;
+
+/**
+ * Helper to check if a component is a Retain operation
+ */
+export const isRichRetain = (op: RichOpComponent): op is RichRetainOp =>
+  "r" in op;
+
+/**
+ * Helper to check if a component is a Delete operation
+ */
+export const isRichDelete = (op: RichOpComponent): op is RichDeleteOp =>
+  "d" in op;
+
+/**
+ * Get the length of a component.
+ * For Insert: length of the string, or 1 for an embed.
+ * For Retain/Delete: the number value.
+ */
+export const getRichLength = (op: RichOpComponent): number => {
+  if (isRichInsert(op)) return typeof op.i === "string" ? op.i.length : 1;
+  if (isRichRetain(op)) return op.r;
+  if (isRichDelete(op)) return op.d;
+  return 0;
+};
+
+/**
+ * Rich Text OT Type Implementation
+ * Retain/Insert/Delete with attribute maps, in the style of Quill's Delta.
+ * Concurrent format changes to the same attribute are resolved in favour of
+ * the 'left' side.
+ */
+export const RichTextType: RichTextOTType = {
+  name: "rich-text",
+
+  create() {
+    return [];
+  },
+
+  apply(snapshot, op) {
+    if (!Array.isArray(snapshot)) {
+      throw new Error("Snapshot must be an array of inserts");
+    }
+
+    checkRichOp(op);
+
+    const result: RichTextSnapshot = [];
+    const doc = new ComponentIterator(snapshot);
+    let index = 0;
+
+    for (const component of op) {
+      if (isRichInsert(component)) {
+        push(result, component);
+        continue;
+      }
+
+      const length = getRichLength(component);
+      const taken = takeContent(doc, length);
+      if (getContentLength(taken) < length) {
+        throw new Error(
+          `Operation goes past the end of the document. Index: ${index}, Length: ${length}, Document Length: ${getContentLength(snapshot)}`
+        );
+      }
+
+      if (isRichRetain(component)) {
+        for (const piece of taken) {
+          push(
+            result,
+            withAttributes(
+              { i: piece.i },
+              composeAttributes(piece.a, component.a, false)
+            )
+          );
+        }
+      } else if (
+        isRichDelete(component) &&
+        component.s !== undefined &&
+        !isEqual(normalizeContent(component.s), taken)
+      ) {
+        throw new Error(
+          `Deleted content does not match snapshot at index ${index}`
+        );
+      }
+
+      index += length;
+    }
+
+    // Like TextType, keep whatever the operation didn't traverse
+    while (doc.hasNext()) {
+      push(result, doc.next() as RichInsertOp);
+    }
+
+    return result;
+  },
+
+  transform(opA, opB, side) {
+    checkRichOp(opA);
+    checkRichOp(opB);
+
+    const newOp: RichTextOperation = [];
+    const iterA = new ComponentIterator(opA);
+    const iterB = new ComponentIterator(opB);
+
+    while (iterA.hasNext() || iterB.hasNext()) {
+      const peekA = iterA.peek();
+      const peekB = iterB.peek();
+
+      // Inserts go first. On a tie, the 'left' side's insert wins.
+      if (
+        peekA &&
+        isRichInsert(peekA) &&
+        (side === "left" || !peekB || !isRichInsert(peekB))
+      ) {
+        push(newOp, iterA.next());
+        continue;
+      }
+
+      if (peekB && isRichInsert(peekB)) {
+        // A must retain B's insertion to keep indices aligned.
+        push(newOp, { r: getRichLength(iterB.next()) });
+        continue;
+      }
+
+      const length = Math.min(iterA.peekLength(), iterB.peekLength());
+      const cA = iterA.next(length);
+      const cB = iterB.next(length);
+
+      if (isRichDelete(cB)) {
+        // B already removed this range; whatever A did to it is moot.
+        continue;
+      }
+
+      const formatB = (cB as RichRetainOp).a;
+
+      if (isRichDelete(cA)) {
+        // A deletes content B reformatted: keep A's deleted content in sync.
+        push(
+          newOp,
+          cA.s === undefined || formatB === undefined
+            ? cA
+            : { d: cA.d, s: formatContent(cA.s, formatB) }
+        );
+      } else {
+        push(
+          newOp,
+          withAttributes(
+            { r: length },
+            transformAttributes((cA as RichRetainOp).a, formatB, side)
+          )
+        );
+      }
+    }
+
+    return newOp;
+  },
+
+  compose(opA, opB) {
+    checkRichOp(opA);
+    checkRichOp(opB);
+
+    const newOp: RichTextOperation = [];
+    const iterA = new ComponentIterator(opA);
+    const iterB = new ComponentIterator(opB);
+
+    while (iterA.hasNext() || iterB.hasNext()) {
+      const peekA = iterA.peek();
+      const peekB = iterB.peek();
+
+      // If B inserts, it happens after A.
+      if (peekB && isRichInsert(peekB)) {
+        push(newOp, iterB.next());
+        continue;
+      }
+
+      // If A deletes, it happens before B sees it.
+      if (peekA && isRichDelete(peekA)) {
+        push(newOp, iterA.next());
+        continue;
+      }
+
+      const length = Math.min(iterA.peekLength(), iterB.peekLength());
+      const cA = iterA.next(length);
+      const cB = iterB.next(length);
+
+      if (isRichRetain(cB)) {
+        if (isRichRetain(cA)) {
+          push(
+            newOp,
+            withAttributes({ r: length }, composeAttributes(cA.a, cB.a, true))
+          );
+        } else if (isRichInsert(cA)) {
+          push(
+            newOp,
+            withAttributes({ i: cA.i }, composeAttributes(cA.a, cB.a, false))
+          );
+        }
+      } else if (isRichDelete(cB) && isRichRetain(cA)) {
+        // B's deleted content reflects A's format change, so it only
+        // describes the original document if A didn't change the format.
+        push(newOp, cA.a === undefined ? cB : { d: length });
+      }
+      // A inserted, but B deleted it immediately: it never happened.
+    }
+
+    return newOp;
+  },
+
+  invert(op) {
+    checkRichOp(op);
+
+    const inverse: RichTextOperation = [];
+
+    for (const component of op) {
+      if (isRichInsert(component)) {
+        push(inverse, { d: getRichLength(component), s: [component] });
+      } else if (isRichRetain(component)) {
+        if (component.a !== undefined) {
+          throw new Error(
+            "Cannot invert a format change without the previous attributes. Use invertWithSnapshot instead."
+          );
+        }
+        push(inverse, { r: component.r });
+      } else if (isRichDelete(component)) {
+        if (component.s === undefined) {
+          throw new Error(
+            "Cannot invert a delete without its deleted content. Use invertWithSnapshot instead."
+          );
+        }
+        for (const piece of component.s) {
+          push(inverse, piece);
+        }
+      }
+    }
+
+    return inverse;
+  },
+
+  invertWithSnapshot(op, snapshot) {
+    checkRichOp(op);
+
+    const inverse: RichTextOperation = [];
+    const doc = new ComponentIterator(snapshot);
+
+    for (const component of op) {
+      if (isRichInsert(component)) {
+        push(inverse, { d: getRichLength(component), s: [component] });
+        continue;
+      }
+
+      const taken = takeContent(doc, getRichLength(component));
+
+      if (isRichDelete(component)) {
+        for (const piece of taken) {
+          push(inverse, piece);
+        }
+      } else if (isRichRetain(component)) {
+        if (component.a === undefined) {
+          push(inverse, { r: component.r });
+          continue;
+        }
+        for (const piece of taken) {
+          push(
+            inverse,
+            withAttributes(
+              { r: getRichLength(piece) },
+              invertAttributes(component.a, piece.a)
+            )
+          );
+        }
+      }
+    }
+
+    return inverse;
+  },
+
+  transformCursor(cursor, op, side) {
+    checkRichOp(op);
+
+    // Same rules as TextType: the cursor behaves like a zero-length insert.
+    let index = 0;
+    let result = cursor;
+
+    for (const component of op) {
+      if (index > cursor) break;
+
+      if (isRichInsert(component)) {
+        if (index < cursor || side === "right") {
+          result += getRichLength(component);
+        }
+      } else if (isRichRetain(component)) {
+        index += component.r;
+      } else if (isRichDelete(component)) {
+        if (index < cursor) {
+          result -= Math.min(component.d, cursor - index);
+        }
+        index += component.d;
+      }
+    }
+
+    return result;
+  },
+};
+
+/**
+ * Walks a list of components, splitting them on demand.
+ * Past the end it yields an infinite retain, like the implicit retain in
+ * TextType.
+ */
+class ComponentIterator {
+  private index = 0;
+  private offset = 0;
+
+  constructor(private components: RichOpComponent[]) {}
+
+  hasNext(): boolean {
+    return this.index < this.components.length;
+  }
+
+  peek(): RichOpComponent | undefined {
+    return this.components[this.index];
+  }
+
+  peekLength(): number {
+    const component = this.peek();
+    return component ? getRichLength(component) - this.offset : Infinity;
+  }
+
+  next(length = Infinity): RichOpComponent {
+    const component = this.peek();
+    if (!component) return { r: length };
+
+    const start = this.offset;
+    const remaining = getRichLength(component) - start;
+    const take = Math.min(length, remaining);
+
+    if (take >= remaining) {
+      this.index++;
+      this.offset = 0;
+    } else {
+      this.offset += take;
+    }
+
+    return sliceComponent(component, start, take);
+  }
+}
+
+function sliceComponent(
+  component: RichOpComponent,
+  start: number,
+  length: number
+): RichOpComponent {
+  if (isRichInsert(component)) {
+    if (typeof component.i !== "string") return component;
+    if (start === 0 && length === component.i.length) return component;
+    return withAttributes(
+      { i: component.i.slice(start, start + length) },
+      component.a
+    );
+  }
+  if (isRichRetain(component)) {
+    return withAttributes({ r: length }, component.a);
+  }
+  if (component.s === undefined) return { d: length };
+  const content = new ComponentIterator(component.s);
+  takeContent(content, start);
+  return { d: length, s: takeContent(content, length) };
+}
+
+/**
+ * Take up to `length` characters of content from an iterator over inserts.
+ */
+function takeContent(iter: ComponentIterator, length: number): RichInsertOp[] {
+  const content: RichInsertOp[] = [];
+  let remaining = length;
+  while (remaining > 0 && iter.hasNext()) {
+    const piece = iter.next(remaining) as RichInsertOp;
+    push(content, piece);
+    remaining -= getRichLength(piece);
+  }
+  return content;
+}
+
+function getContentLength(content: RichInsertOp[]): number {
+  return content.reduce((sum, piece) => sum + getRichLength(piece), 0);
+}
+
+function normalizeContent(content: RichInsertOp[]): RichInsertOp[] {
+  const result: RichInsertOp[] = [];
+  for (const piece of content) push(result, piece);
+  return result;
+}
+
+/**
+ * Apply a format change to deleted content.
+ */
+function formatContent(
+  content: RichInsertOp[],
+  format: Attributes
+): RichInsertOp[] {
+  const result: RichInsertOp[] = [];
+  for (const piece of content) {
+    push(
+      result,
+      withAttributes({ i: piece.i }, composeAttributes(piece.a, format, false))
+    );
+  }
+  return result;
+}
+
+/**
+ * Appends a component to the operation, merging if possible.
+ * Merged components are replaced rather than mutated, since they may be
+ * shared with the input operations.
+ */
+function push(op: RichTextOperation, component: RichOpComponent) {
+  if (getRichLength(component) === 0) return;
+
+  const last = op[op.length - 1];
+
+  if (last) {
+    if (
+      isRichInsert(last) &&
+      isRichInsert(component) &&
+      typeof last.i === "string" &&
+      typeof component.i === "string" &&
+      isEqual(last.a, component.a)
+    ) {
+      op[op.length - 1] = withAttributes({ i: last.i + component.i }, last.a);
+      return;
+    }
+    if (
+      isRichRetain(last) &&
+      isRichRetain(component) &&
+      isEqual(last.a, component.a)
+    ) {
+      op[op.length - 1] = withAttributes({ r: last.r + component.r }, last.a);
+      return;
+    }
+    if (isRichDelete(last) && isRichDelete(component)) {
+      const merged: RichDeleteOp = { d: last.d + component.d };
+      // The merged delete is only invertible if both halves carry content
+      if (last.s !== undefined && component.s !== undefined) {
+        merged.s = normalizeContent([...last.s, ...component.s]);
+      }
+      op[op.length - 1] = merged;
+      return;
+    }
+  }
+
+  op.push(component);
+}
+
+/**
+ * Normalize an operation: merge consecutive components of the same type and
+ * attributes, remove empty ones.
+ */
+export function normalizeRich(op: RichTextOperation): RichTextOperation {
+  const newOp: RichTextOperation = [];
+  for (const c of op) {
+    push(newOp, c);
+  }
+  return newOp;
+}
+
+function withAttributes<T extends RichInsertOp | RichRetainOp>(
+  component: T,
+  attributes: Attributes | undefined
+): T {
+  if (attributes !== undefined && Object.keys(attributes).length > 0) {
+    component.a = attributes;
+  }
+  return component;
+}
+
+/**
+ * Combine attributes `a` followed by the change `b`.
+ * When `keepNull` is false, removals (null values) are dropped from the
+ * result, as in content; when true they are kept, as in a format change.
+ */
+function composeAttributes(
+  a: Attributes | undefined,
+  b: Attributes | undefined,
+  keepNull: boolean
+): Attributes | undefined {
+  const result: Attributes = { ...a, ...b };
+  if (!keepNull) {
+    for (const key of Object.keys(result)) {
+      if (result[key] === null) delete result[key];
+    }
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/**
+ * Transform the format change `a` against a concurrent format change `b` on
+ * the same range. The 'left' side keeps its values; the 'right' side yields
+ * any attribute that `b` also set.
+ */
+function transformAttributes(
+  a: Attributes | undefined,
+  b: Attributes | undefined,
+  side: "left" | "right"
+): Attributes | undefined {
+  if (a === undefined || b === undefined || side === "left") return a;
+  const result: Attributes = {};
+  for (const key of Object.keys(a)) {
+    if (!(key in b)) result[key] = a[key];
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/**
+ * The format change that undoes `change` on content with attributes `base`.
+ */
+function invertAttributes(
+  change: Attributes,
+  base: Attributes | undefined
+): Attributes {
+  const result: Attributes = {};
+  for (const key of Object.keys(change)) {
+    const previous = base?.[key];
+    if (!isEqual(previous, change[key])) {
+      result[key] = previous === undefined ? null : previous;
+    }
+  }
+  return result;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    a === null ||
+    b === null
+  ) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every((key) =>
+    isEqual(
+      (a as Record<string, unknown>)[key],
+      (b as Record<string, unknown>)[key]
+    )
+  );
+}
+
+/**
+ * Validate operation structure
+ */
+function checkRichOp(op: RichTextOperation) {
+  if (!Array.isArray(op)) throw new Error("Operation must be an array");
+  for (const c of op) {
+    if (typeof c !== "object" || c === null)
+      throw new Error("Operation component must be an object");
+    if (!isRichInsert(c) && !isRichRetain(c) && !isRichDelete(c)) {
+      throw new Error("Operation component must be Insert, Retain, or Delete");
+    }
+    if (
+      isRichInsert(c) &&
+      typeof c.i !== "string" &&
+      (typeof c.i !== "object" || c.i === null || Array.isArray(c.i))
+    ) {
+      throw new Error("Insert must be a string or an embed object");
+    }
+  }
+}
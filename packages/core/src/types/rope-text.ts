@@ -0,0 +1,382 @@
+import { OTType } from "../interfaces";
+import {
+  TextOperation,
+  TextSelection,
+  attachDeletedText,
+  checkOp,
+  createTextType,
+  isDelete,
+  isInsert,
+  isRetain,
+} from "./text";
+import { checkBoundary, hasUnpairedSurrogate } from "../unicode";
+
+// Longest chunk stored in a single node. Inserts shorter than this are
+// merged into the chunk before them so typing doesn't create a node per key.
+const CHUNK_SIZE = 512;
+
+/**
+ * A node of the rope: a chunk of text plus the text before (`left`) and after
+ * (`right`) it. Nodes are never modified, so ropes can share them.
+ * The tree is a treap: every node's priority is at least its children's,
+ * which keeps it balanced with high probability.
+ */
+interface RopeNode {
+  readonly text: string;
+  readonly left: RopeNode | null;
+  readonly right: RopeNode | null;
+  // Length of the text in this subtree, in UTF-16 code units
+  readonly length: number;
+  readonly priority: number;
+}
+
+/**
+ * An immutable string stored as a balanced tree of chunks. Inserting,
+ * deleting and slicing take O(log n) time instead of copying the whole
+ * string, and edits share unchanged chunks with the rope they came from.
+ * Indexes are UTF-16 code units, like JavaScript strings.
+ */
+export class Rope {
+  public static readonly empty = new Rope(null);
+
+  private constructor(private readonly root: RopeNode | null) {}
+
+  public static from(text: string): Rope {
+    return new Rope(build(text));
+  }
+
+  public get length(): number {
+    return size(this.root);
+  }
+
+  /**
+   * Insert text before index.
+   */
+  public insert(index: number, text: string): Rope {
+    checkIndex(index, this.length);
+    if (text === "") return this;
+
+    const [before, after] = split(this.root, index);
+    if (text.length <= CHUNK_SIZE) {
+      const last = lastChunk(before);
+      if (last !== null && last.length + text.length <= CHUNK_SIZE) {
+        return new Rope(merge(appendToLast(before, text), after));
+      }
+    }
+    return new Rope(merge(merge(before, build(text)), after));
+  }
+
+  /**
+   * Remove the text from start up to (not including) end.
+   */
+  public delete(start: number, end: number): Rope {
+    checkIndex(start, this.length);
+    checkIndex(end, this.length);
+    if (end <= start) return this;
+
+    const [before, rest] = split(this.root, start);
+    const [, after] = split(rest, end - start);
+    return new Rope(merge(before, after));
+  }
+
+  /**
+   * Get the text from start up to (not including) end. Like
+   * `String.prototype.slice`, indexes are clamped to the rope.
+   */
+  public slice(start = 0, end = this.length): string {
+    const parts: string[] = [];
+    collect(this.root, Math.max(0, start), Math.min(this.length, end), parts);
+    return parts.join("");
+  }
+
+  public toString(): string {
+    return this.slice();
+  }
+
+  public toJSON(): string {
+    return this.toString();
+  }
+}
+
+const size = (node: RopeNode | null) => (node === null ? 0 : node.length);
+
+function makeNode(
+  text: string,
+  left: RopeNode | null,
+  right: RopeNode | null,
+  priority: number
+): RopeNode {
+  return {
+    text,
+    left,
+    right,
+    length: size(left) + text.length + size(right),
+    priority,
+  };
+}
+
+function checkIndex(index: number, length: number) {
+  if (!Number.isInteger(index) || index < 0 || index > length) {
+    throw new Error(`Index ${index} is out of bounds (length ${length})`);
+  }
+}
+
+/**
+ * Build a balanced tree holding text, split into chunks.
+ */
+function build(text: string): RopeNode | null {
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+    chunks.push(text.slice(i, i + CHUNK_SIZE));
+  }
+  // Merging halves costs O(log n) per level, so this takes O(n) overall
+  const buildRange = (from: number, to: number): RopeNode | null => {
+    if (to - from === 0) return null;
+    if (to - from === 1) {
+      return makeNode(chunks[from]!, null, null, Math.random());
+    }
+    const mid = (from + to) >> 1;
+    return merge(buildRange(from, mid), buildRange(mid, to));
+  };
+  return buildRange(0, chunks.length);
+}
+
+/**
+ * Split a tree into the text before index and the text from index on.
+ */
+function split(
+  node: RopeNode | null,
+  index: number
+): [RopeNode | null, RopeNode | null] {
+  if (node === null) return [null, null];
+
+  const leftLength = size(node.left);
+  const chunkEnd = leftLength + node.text.length;
+
+  if (index <= leftLength) {
+    const [before, after] = split(node.left, index);
+    return [before, makeNode(node.text, after, node.right, node.priority)];
+  }
+  if (index >= chunkEnd) {
+    const [before, after] = split(node.right, index - chunkEnd);
+    return [makeNode(node.text, node.left, before, node.priority), after];
+  }
+
+  // The index falls inside this node's chunk. Both halves keep the node's
+  // priority, which is still at least that of their children.
+  const offset = index - leftLength;
+  return [
+    makeNode(node.text.slice(0, offset), node.left, null, node.priority),
+    makeNode(node.text.slice(offset), null, node.right, node.priority),
+  ];
+}
+
+/**
+ * Join two trees, keeping all of a's text before b's.
+ */
+function merge(a: RopeNode | null, b: RopeNode | null): RopeNode | null {
+  if (a === null) return b;
+  if (b === null) return a;
+  if (a.priority >= b.priority) {
+    return makeNode(a.text, a.left, merge(a.right, b), a.priority);
+  }
+  return makeNode(b.text, merge(a, b.left), b.right, b.priority);
+}
+
+function lastChunk(node: RopeNode | null): string | null {
+  if (node === null) return null;
+  while (node.right !== null) node = node.right;
+  return node.text;
+}
+
+/**
+ * Append text to the last chunk of a non-empty tree.
+ */
+function appendToLast(node: RopeNode | null, text: string): RopeNode | null {
+  if (node === null) return null;
+  if (node.right === null) {
+    return makeNode(node.text + text, node.left, null, node.priority);
+  }
+  return makeNode(
+    node.text,
+    node.left,
+    appendToLast(node.right, text),
+    node.priority
+  );
+}
+
+/**
+ * Push the chunks (or parts of chunks) between start and end onto parts.
+ */
+function collect(
+  node: RopeNode | null,
+  start: number,
+  end: number,
+  parts: string[]
+) {
+  if (node === null || start >= end) return;
+
+  const leftLength = size(node.left);
+  const chunkEnd = leftLength + node.text.length;
+
+  if (start < leftLength) {
+    collect(node.left, start, Math.min(end, leftLength), parts);
+  }
+  if (start < chunkEnd && end > leftLength) {
+    parts.push(
+      node.text.slice(
+        Math.max(0, start - leftLength),
+        Math.min(node.text.length, end - leftLength)
+      )
+    );
+  }
+  if (end > chunkEnd) {
+    collect(node.right, Math.max(0, start - chunkEnd), end - chunkEnd, parts);
+  }
+}
+
+export interface RopeTextTypeOptions {
+  /**
+   * Require operations to span exactly the document they apply to, like
+   * `createTextType({ strict: true })`. Defaults to false.
+   */
+  strict?: boolean;
+}
+
+/**
+ * The rope text type, with the optional parts of `OTType` it implements made
+ * required, plus selection helpers.
+ */
+export interface RopeTextOTType extends OTType<Rope, TextOperation> {
+  invert(op: TextOperation): TextOperation;
+  invertWithSnapshot(op: TextOperation, snapshot: Rope): TextOperation;
+  transformCursor(
+    cursor: number,
+    op: TextOperation,
+    side: "left" | "right"
+  ): number;
+  transformSelection(
+    selection: TextSelection,
+    op: TextOperation,
+    side?: "left" | "right"
+  ): TextSelection;
+}
+
+/**
+ * Create a text type whose snapshots are ropes. Operations are plain
+ * `TextOperation`s counted in UTF-16 code units, and snapshots serialize to
+ * strings, so it is registered as "text" and interoperates with `TextType`
+ * peers and stored documents. Only `apply` differs: it edits the rope in
+ * O(log n) per component instead of rebuilding the string.
+ */
+export function createRopeTextType(
+  options: RopeTextTypeOptions = {}
+): RopeTextOTType {
+  const strict = options.strict ?? false;
+  const text = createTextType({ strict });
+
+  const type: RopeTextOTType = {
+    name: text.name,
+
+    create() {
+      return Rope.empty;
+    },
+
+    apply(snapshot, op) {
+      if (!(snapshot instanceof Rope)) {
+        throw new Error("Snapshot must be a Rope");
+      }
+
+      checkOp(op);
+
+      let result = snapshot;
+      // Position in the result, and in the original snapshot
+      let offset = 0;
+      let index = 0;
+
+      for (const component of op) {
+        if (isInsert(component)) {
+          if (hasUnpairedSurrogate(component.i)) {
+            throw new Error("Insert contains an unpaired surrogate");
+          }
+          result = result.insert(offset, component.i);
+          offset += component.i.length;
+        } else if (isRetain(component)) {
+          if (offset + component.r > result.length) {
+            throw new Error(
+              `Operation goes past the end of the string. Index: ${index}, Retain: ${component.r}, Snapshot Length: ${snapshot.length}`
+            );
+          }
+          offset += component.r;
+          index += component.r;
+          checkRopeBoundary(result, offset, index);
+        } else if (isDelete(component)) {
+          const end = offset + component.d;
+          if (end > result.length) {
+            throw new Error(
+              `Operation goes past the end of the string. Index: ${index}, Delete: ${component.d}, Snapshot Length: ${snapshot.length}`
+            );
+          }
+          checkRopeBoundary(result, end, index + component.d);
+          if (
+            component.s !== undefined &&
+            result.slice(offset, end) !== component.s
+          ) {
+            throw new Error(
+              `Deleted text does not match snapshot at index ${index}`
+            );
+          }
+          result = result.delete(offset, end);
+          index += component.d;
+        }
+      }
+
+      if (strict && offset < result.length) {
+        throw new Error(
+          `Operation base length ${index} does not match snapshot length ${snapshot.length}`
+        );
+      }
+
+      return result;
+    },
+
+    transform: text.transform,
+    compose: text.compose,
+    invert: text.invert,
+
+    invertWithSnapshot(op, snapshot) {
+      return text.invert(attachDeletedText(op, snapshot));
+    },
+
+    transformCursor: text.transformCursor,
+    transformSelection: text.transformSelection,
+
+    serializeSnapshot(snapshot) {
+      return snapshot.toString();
+    },
+
+    deserializeSnapshot(data) {
+      if (typeof data !== "string") {
+        throw new Error("Stored snapshot must be a string");
+      }
+      return Rope.from(data);
+    },
+  };
+
+  return type;
+}
+
+/**
+ * The default rope text type, a drop-in replacement for `TextType` on large
+ * documents.
+ */
+export const RopeTextType = createRopeTextType();
+
+/**
+ * Throw if an offset falls between the two halves of a surrogate pair,
+ * looking only at the characters around it.
+ */
+function checkRopeBoundary(rope: Rope, offset: number, index: number) {
+  if (offset === 0 || offset >= rope.length) return;
+  checkBoundary(rope.slice(offset - 1, offset + 1), 1, index);
+}
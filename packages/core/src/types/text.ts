@@ -1,12 +1,81 @@
 import { OTType } from "../interfaces";
+import {
+  checkBoundary,
+  hasUnpairedSurrogate,
+  isHighSurrogate,
+  isLowSurrogate,
+} from "../unicode";
 
 export type InsertOp = { i: string };
 export type RetainOp = { r: number };
-export type DeleteOp = { d: number };
+/**
+ * Delete `d` characters. `s` optionally carries the deleted text, which makes
+ * the operation invertible without access to the original snapshot.
+ */
+export type DeleteOp = { d: number; s?: string };
 
 export type OpComponent = RetainOp | InsertOp | DeleteOp;
 export type TextOperation = OpComponent[];
 
+/**
+ * A selection range. `anchor` is where the selection started and `head`
+ * is where the caret is; they are equal for a collapsed cursor.
+ */
+export interface TextSelection {
+  anchor: number;
+  head: number;
+}
+
+/**
+ * The text type, with the optional parts of `OTType` it implements made
+ * required, plus selection helpers.
+ */
+export interface TextOTType extends OTType<string, TextOperation> {
+  invert(op: TextOperation): TextOperation;
+  invertWithSnapshot(op: TextOperation, snapshot: string): TextOperation;
+  transformCursor(
+    cursor: number,
+    op: TextOperation,
+    side: "left" | "right"
+  ): number;
+
+  /**
+   * Transform both ends of a selection through an operation.
+   */
+  transformSelection(
+    selection: TextSelection,
+    op: TextOperation,
+    side?: "left" | "right"
+  ): TextSelection;
+}
+
+/**
+ * The unit retain/delete counts and insert lengths are measured in.
+ * - `utf16`: UTF-16 code units, i.e. JavaScript `string.length`.
+ * - `codepoint`: Unicode code points, matching runtimes that index strings by
+ *   code point (Python, Swift's unicodeScalars, ...).
+ */
+export type TextUnit = "utf16" | "codepoint";
+
+export interface TextTypeOptions {
+  /**
+   * Unit for all counts in operations. Peers must agree on it, so the
+   * `codepoint` variant is registered under its own name (`text-codepoint`).
+   * Defaults to `utf16`.
+   */
+  unit?: TextUnit;
+
+  /**
+   * Require operations to span exactly the document they apply to:
+   * `apply` rejects ops whose base length differs from the snapshot length,
+   * `transform` rejects ops with different base lengths, and `compose`
+   * rejects ops where the first's target length isn't the second's base
+   * length. Strict ops are wire-compatible with the default type.
+   * Defaults to false.
+   */
+  strict?: boolean;
+}
+
 /**
  * Helper to check if a component is an Insert operation
  */
@@ -24,228 +93,509 @@ export const isDelete = (op: OpComponent): op is DeleteOp => "d" in op;
 
 /**
  * Get the length of a component.
- * For Insert: length of string.
+ * For Insert: length of string, measured in `unit`.
  * For Retain/Delete: the number value.
  */
-export const getLength = (op: OpComponent): number => {
-  if (isInsert(op)) return op.i.length;
+export const getLength = (
+  op: OpComponent,
+  unit: TextUnit = "utf16"
+): number => {
+  if (isInsert(op)) return unitLength(op.i, unit);
   if (isRetain(op)) return op.r;
   if (isDelete(op)) return op.d;
   return 0;
 };
 
+/**
+ * The length of the document an operation applies to
+ * (retained plus deleted units).
+ */
+export function baseLength(op: TextOperation): number {
+  let length = 0;
+  for (const c of op) {
+    if (isRetain(c)) length += c.r;
+    else if (isDelete(c)) length += c.d;
+  }
+  return length;
+}
+
+/**
+ * The length of the document an operation produces
+ * (retained plus inserted units).
+ */
+export function targetLength(
+  op: TextOperation,
+  unit: TextUnit = "utf16"
+): number {
+  let length = 0;
+  for (const c of op) {
+    if (isRetain(c)) length += c.r;
+    else if (isInsert(c)) length += unitLength(c.i, unit);
+  }
+  return length;
+}
+
 /**
  * Text OT Type Implementation
  * Follows the standard OT approach for text (Jupiter/Google Wave).
  */
-export const TextType: OTType<string, TextOperation> = {
-  name: "text",
+export function createTextType(options: TextTypeOptions = {}): TextOTType {
+  const unit = options.unit ?? "utf16";
+  const strict = options.strict ?? false;
+  const type: TextOTType = {
+    name: unit === "codepoint" ? "text-codepoint" : "text",
+
+    create() {
+      return "";
+    },
+
+    apply(snapshot, op) {
+      if (typeof snapshot !== "string") {
+        throw new Error("Snapshot must be a string");
+      }
 
-  create() {
-    return "";
-  },
+      checkOp(op, unit);
 
-  apply(snapshot, op) {
-    if (typeof snapshot !== "string") {
-      throw new Error("Snapshot must be a string");
-    }
+      let result = "";
+      // Position in the snapshot, in operation units and in UTF-16 code units
+      let index = 0;
+      let offset = 0;
 
-    checkOp(op);
+      for (const component of op) {
+        if (isInsert(component)) {
+          if (hasUnpairedSurrogate(component.i)) {
+            throw new Error("Insert contains an unpaired surrogate");
+          }
+          result += component.i;
+        } else if (isRetain(component)) {
+          const end = advance(snapshot, offset, component.r, unit);
+          if (end === -1) {
+            throw new Error(
+              `Operation goes past the end of the string. Index: ${index}, Retain: ${component.r}, Snapshot Length: ${unitLength(snapshot, unit)}`
+            );
+          }
+          checkBoundary(snapshot, end, index + component.r);
+          result += snapshot.slice(offset, end);
+          index += component.r;
+          offset = end;
+        } else if (isDelete(component)) {
+          const end = advance(snapshot, offset, component.d, unit);
+          if (end === -1) {
+            throw new Error(
+              `Operation goes past the end of the string. Index: ${index}, Delete: ${component.d}, Snapshot Length: ${unitLength(snapshot, unit)}`
+            );
+          }
+          checkBoundary(snapshot, end, index + component.d);
+          if (
+            component.s !== undefined &&
+            snapshot.slice(offset, end) !== component.s
+          ) {
+            throw new Error(
+              `Deleted text does not match snapshot at index ${index}`
+            );
+          }
+          index += component.d;
+          offset = end;
+        }
+      }
 
-    let result = "";
-    let index = 0;
+      if (strict && offset < snapshot.length) {
+        throw new Error(
+          `Operation base length ${index} does not match snapshot length ${unitLength(snapshot, unit)}`
+        );
+      }
 
-    for (const component of op) {
-      if (isInsert(component)) {
-        result += component.i;
-      } else if (isRetain(component)) {
-        if (index + component.r > snapshot.length) {
-          throw new Error(
-            `Operation goes past the end of the string. Index: ${index}, Retain: ${component.r}, Snapshot Length: ${snapshot.length}`
-          );
-        }
-        result += snapshot.slice(index, index + component.r);
-        index += component.r;
-      } else if (isDelete(component)) {
-        if (index + component.d > snapshot.length) {
-          throw new Error(
-            `Operation goes past the end of the string. Index: ${index}, Delete: ${component.d}, Snapshot Length: ${snapshot.length}`
-          );
-        }
-        index += component.d;
+      // In strict OT, the operation should cover the entire document (with retains).
+      // However, for robustness in this implementation, we append the remaining text
+      // if the operation didn't traverse the whole string.
+      if (offset < snapshot.length) {
+        result += snapshot.slice(offset);
       }
-    }
 
-    // In strict OT, the operation should cover the entire document (with retains).
-    // However, for robustness in this implementation, we append the remaining text
-    // if the operation didn't traverse the whole string.
-    if (index < snapshot.length) {
-      result += snapshot.slice(index);
-    }
+      return result;
+    },
 
-    return result;
-  },
+    transform(opA, opB, side) {
+      checkOp(opA, unit);
+      checkOp(opB, unit);
 
-  transform(opA, opB, side) {
-    checkOp(opA);
-    checkOp(opB);
+      if (strict && baseLength(opA) !== baseLength(opB)) {
+        throw new Error(
+          `Cannot transform operations with different base lengths: ${baseLength(opA)} and ${baseLength(opB)}`
+        );
+      }
+
+      const newOp: TextOperation = [];
+
+      let iA = 0;
+      let iB = 0;
+      let offsetA = 0;
+      let offsetB = 0;
+
+      const lenA = opA.length;
+      const lenB = opB.length;
+
+      // Implicit retain component to use when an operation is exhausted
+      const implicitRetain: RetainOp = { r: Infinity };
+
+      while (iA < lenA || iB < lenB) {
+        const cA = iA < lenA ? opA[iA]! : implicitRetain;
+        const cB = iB < lenB ? opB[iB]! : implicitRetain;
+
+        // Handle Inserts immediately
+        if (isInsert(cA)) {
+          // A inserts.
+          // If B also inserts, we need to decide order based on 'side'.
+          if (isInsert(cB)) {
+            if (side === "left") {
+              // Left side wins, insert A first
+              append(newOp, { i: cA.i });
+              iA++;
+            } else {
+              // Right side yields, push B's length as retain (transforming A against B)
+              append(newOp, { r: getLength(cB, unit) });
+              iB++;
+            }
+          } else {
+            // B is not inserting (or is null/implicit), so A's insert just happens.
+            append(newOp, { i: cA.i });
+            iA++;
+          }
+          continue;
+        }
 
-    const newOp: TextOperation = [];
+        if (isInsert(cB)) {
+          // B inserts. A is not inserting (handled above).
+          // A must retain B's insertion to keep indices aligned in the new document state (after B).
+          append(newOp, { r: getLength(cB, unit) });
+          iB++;
+          continue;
+        }
 
-    let iA = 0;
-    let iB = 0;
-    let offsetA = 0;
-    let offsetB = 0;
+        // Now dealing with Retain/Delete vs Retain/Delete
+        // Since we use implicitRetain, cA and cB are never null here.
 
-    const lenA = opA.length;
-    const lenB = opB.length;
+        const lengthA = getLength(cA, unit) - offsetA;
+        const lengthB = getLength(cB, unit) - offsetB;
+        const minLen = Math.min(lengthA, lengthB);
 
-    // Implicit retain component to use when an operation is exhausted
-    const implicitRetain: RetainOp = { r: Infinity };
+        if (isRetain(cA) && isRetain(cB)) {
+          append(newOp, { r: minLen });
+        } else if (isDelete(cA) && isRetain(cB)) {
+          append(newOp, sliceDelete(cA, offsetA, minLen, unit));
+        } else if (isRetain(cA) && isDelete(cB)) {
+          // A retains, B deletes. A's retain is "eaten" by B's delete.
+          // We do nothing.
+        } else if (isDelete(cA) && isDelete(cB)) {
+          // Both delete. A's delete is redundant because B also deleted it.
+          // We do nothing.
+        }
 
-    while (iA < lenA || iB < lenB) {
-      const cA = iA < lenA ? opA[iA]! : implicitRetain;
-      const cB = iB < lenB ? opB[iB]! : implicitRetain;
+        // Advance offsets
+        offsetA += minLen;
+        offsetB += minLen;
 
-      // Handle Inserts immediately
-      if (isInsert(cA)) {
-        // A inserts.
-        // If B also inserts, we need to decide order based on 'side'.
-        if (isInsert(cB)) {
-          if (side === "left") {
-            // Left side wins, insert A first
-            append(newOp, { i: cA.i });
-            iA++;
-          } else {
-            // Right side yields, push B's length as retain (transforming A against B)
-            append(newOp, { r: getLength(cB) });
-            iB++;
-          }
-        } else {
-          // B is not inserting (or is null/implicit), so A's insert just happens.
-          append(newOp, { i: cA.i });
+        // Advance iterators if fully consumed
+        if (iA < lenA && offsetA >= getLength(cA, unit)) {
           iA++;
+          offsetA = 0;
+        }
+        if (iB < lenB && offsetB >= getLength(cB, unit)) {
+          iB++;
+          offsetB = 0;
         }
-        continue;
       }
 
-      if (isInsert(cB)) {
-        // B inserts. A is not inserting (handled above).
-        // A must retain B's insertion to keep indices aligned in the new document state (after B).
-        append(newOp, { r: getLength(cB) });
-        iB++;
-        continue;
-      }
+      return normalize(newOp);
+    },
+
+    compose(opA, opB) {
+      checkOp(opA, unit);
+      checkOp(opB, unit);
 
-      // Now dealing with Retain/Delete vs Retain/Delete
-      // Since we use implicitRetain, cA and cB are never null here.
-
-      const lengthA = getLength(cA) - offsetA;
-      const lengthB = getLength(cB) - offsetB;
-      const minLen = Math.min(lengthA, lengthB);
-
-      if (isRetain(cA) && isRetain(cB)) {
-        append(newOp, { r: minLen });
-      } else if (isDelete(cA) && isRetain(cB)) {
-        append(newOp, { d: minLen });
-      } else if (isRetain(cA) && isDelete(cB)) {
-        // A retains, B deletes. A's retain is "eaten" by B's delete.
-        // We do nothing.
-      } else if (isDelete(cA) && isDelete(cB)) {
-        // Both delete. A's delete is redundant because B also deleted it.
-        // We do nothing.
+      if (strict && targetLength(opA, unit) !== baseLength(opB)) {
+        throw new Error(
+          `Cannot compose operations: target length ${targetLength(opA, unit)} does not match base length ${baseLength(opB)}`
+        );
       }
 
-      // Advance offsets
-      offsetA += minLen;
-      offsetB += minLen;
+      const newOp: TextOperation = [];
 
-      // Advance iterators if fully consumed
-      if (iA < lenA && offsetA >= getLength(cA)) {
-        iA++;
-        offsetA = 0;
-      }
-      if (iB < lenB && offsetB >= getLength(cB)) {
-        iB++;
-        offsetB = 0;
-      }
-    }
+      let iA = 0;
+      let iB = 0;
+      let offsetA = 0;
+      let offsetB = 0;
 
-    return normalize(newOp);
-  },
+      const lenA = opA.length;
+      const lenB = opB.length;
 
-  compose(opA, opB) {
-    checkOp(opA);
-    checkOp(opB);
+      const implicitRetain: RetainOp = { r: Infinity };
 
-    const newOp: TextOperation = [];
+      while (iA < lenA || iB < lenB) {
+        const cA = iA < lenA ? opA[iA]! : implicitRetain;
+        const cB = iB < lenB ? opB[iB]! : implicitRetain;
 
-    let iA = 0;
-    let iB = 0;
-    let offsetA = 0;
-    let offsetB = 0;
+        // If A deletes, it happens before B sees it.
+        if (isDelete(cA)) {
+          append(newOp, { ...cA });
+          iA++;
+          continue;
+        }
+
+        // If B inserts, it happens after A.
+        if (isInsert(cB)) {
+          append(newOp, { i: cB.i });
+          iB++;
+          continue;
+        }
+
+        // A is Retain or Insert (or implicit Retain)
+        // B is Retain or Delete (or implicit Retain)
 
-    const lenA = opA.length;
-    const lenB = opB.length;
+        const lengthA = getLength(cA, unit) - offsetA;
+        const lengthB = getLength(cB, unit) - offsetB;
+        const minLen = Math.min(lengthA, lengthB);
 
-    const implicitRetain: RetainOp = { r: Infinity };
+        if (isRetain(cA)) {
+          if (isRetain(cB)) {
+            append(newOp, { r: minLen });
+          } else if (isDelete(cB)) {
+            append(newOp, sliceDelete(cB, offsetB, minLen, unit));
+          }
+        } else if (isInsert(cA)) {
+          if (isRetain(cB)) {
+            append(newOp, {
+              i: sliceUnits(cA.i, offsetA, offsetA + minLen, unit),
+            });
+          } else if (isDelete(cB)) {
+            // A inserted, but B deleted it immediately.
+            // It effectively never happened.
+          }
+        }
 
-    while (iA < lenA || iB < lenB) {
-      const cA = iA < lenA ? opA[iA]! : implicitRetain;
-      const cB = iB < lenB ? opB[iB]! : implicitRetain;
+        offsetA += minLen;
+        offsetB += minLen;
 
-      // If A deletes, it happens before B sees it.
-      if (isDelete(cA)) {
-        append(newOp, { d: cA.d });
-        iA++;
-        continue;
+        if (iA < lenA && offsetA >= getLength(cA, unit)) {
+          iA++;
+          offsetA = 0;
+        }
+        if (iB < lenB && offsetB >= getLength(cB, unit)) {
+          iB++;
+          offsetB = 0;
+        }
       }
 
-      // If B inserts, it happens after A.
-      if (isInsert(cB)) {
-        append(newOp, { i: cB.i });
-        iB++;
-        continue;
+      return normalize(newOp);
+    },
+
+    invert(op) {
+      checkOp(op, unit);
+
+      const inverse: TextOperation = [];
+
+      for (const component of op) {
+        if (isRetain(component)) {
+          append(inverse, { r: component.r });
+        } else if (isInsert(component)) {
+          append(inverse, {
+            d: unitLength(component.i, unit),
+            s: component.i,
+          });
+        } else if (isDelete(component)) {
+          if (component.s === undefined) {
+            throw new Error(
+              "Cannot invert a delete without its deleted text. Use invertWithSnapshot instead."
+            );
+          }
+          append(inverse, { i: component.s });
+        }
       }
 
-      // A is Retain or Insert (or implicit Retain)
-      // B is Retain or Delete (or implicit Retain)
+      return inverse;
+    },
 
-      const lengthA = getLength(cA) - offsetA;
-      const lengthB = getLength(cB) - offsetB;
-      const minLen = Math.min(lengthA, lengthB);
+    invertWithSnapshot(op, snapshot) {
+      return type.invert(attachDeletedText(op, snapshot, unit));
+    },
 
-      if (isRetain(cA)) {
-        if (isRetain(cB)) {
-          append(newOp, { r: minLen });
-        } else if (isDelete(cB)) {
-          append(newOp, { d: minLen });
-        }
-      } else if (isInsert(cA)) {
-        if (isRetain(cB)) {
-          append(newOp, { i: cA.i.substr(offsetA, minLen) });
-        } else if (isDelete(cB)) {
-          // A inserted, but B deleted it immediately.
-          // It effectively never happened.
+    transformCursor(cursor, op, side) {
+      checkOp(op, unit);
+
+      // Treat the cursor as a zero-length insert at its position: inserts before
+      // it push it forward, deletes before it pull it back, and a cursor inside
+      // a deleted range collapses to the start of that range.
+      let index = 0;
+      let result = cursor;
+
+      for (const component of op) {
+        if (index > cursor) break;
+
+        if (isInsert(component)) {
+          if (index < cursor || side === "right") {
+            result += unitLength(component.i, unit);
+          }
+        } else if (isRetain(component)) {
+          index += component.r;
+        } else if (isDelete(component)) {
+          if (index < cursor) {
+            result -= Math.min(component.d, cursor - index);
+          }
+          index += component.d;
         }
       }
 
-      offsetA += minLen;
-      offsetB += minLen;
+      return result;
+    },
+
+    transformSelection(selection, op, side = "right") {
+      return {
+        anchor: type.transformCursor(selection.anchor, op, side),
+        head: type.transformCursor(selection.head, op, side),
+      };
+    },
+  };
+
+  return type;
+}
+
+/**
+ * The default text type, counting in UTF-16 code units like JavaScript strings.
+ */
+export const TextType = createTextType();
+
+/**
+ * Text to read deleted text from: a string, or anything that measures and
+ * slices like one in UTF-16 code units, e.g. a `Rope`.
+ */
+export interface TextSource {
+  readonly length: number;
+  slice(start: number, end: number): string;
+}
 
-      if (iA < lenA && offsetA >= getLength(cA)) {
-        iA++;
-        offsetA = 0;
+/**
+ * Fill in the deleted text (`s`) of every delete component, reading it from
+ * the snapshot the operation applies to. The result is invertible with
+ * `TextType.invert`.
+ */
+export function attachDeletedText(
+  op: TextOperation,
+  snapshot: TextSource,
+  unit: TextUnit = "utf16"
+): TextOperation {
+  checkOp(op, unit);
+  const snapshotLength = () =>
+    unit === "utf16"
+      ? snapshot.length
+      : unitLength(snapshot.slice(0, snapshot.length), unit);
+
+  const newOp: TextOperation = [];
+  let index = 0;
+  let offset = 0;
+
+  for (const component of op) {
+    if (isInsert(component)) {
+      append(newOp, { i: component.i });
+    } else if (isRetain(component)) {
+      const end = advance(snapshot, offset, component.r, unit);
+      if (end === -1) {
+        throw new Error(
+          `Operation goes past the end of the string. Index: ${index}, Retain: ${component.r}, Snapshot Length: ${snapshotLength()}`
+        );
       }
-      if (iB < lenB && offsetB >= getLength(cB)) {
-        iB++;
-        offsetB = 0;
+      append(newOp, { r: component.r });
+      index += component.r;
+      offset = end;
+    } else if (isDelete(component)) {
+      const end = advance(snapshot, offset, component.d, unit);
+      if (end === -1) {
+        throw new Error(
+          `Operation goes past the end of the string. Index: ${index}, Delete: ${component.d}, Snapshot Length: ${snapshotLength()}`
+        );
       }
+      append(newOp, { d: component.d, s: snapshot.slice(offset, end) });
+      index += component.d;
+      offset = end;
     }
+  }
 
-    return normalize(newOp);
-  },
-};
+  return newOp;
+}
+
+/**
+ * Take `length` units of a delete component starting at `offset`,
+ * keeping the matching slice of its deleted text when present.
+ */
+function sliceDelete(
+  component: DeleteOp,
+  offset: number,
+  length: number,
+  unit: TextUnit
+): DeleteOp {
+  if (component.s === undefined) return { d: length };
+  return {
+    d: length,
+    s: sliceUnits(component.s, offset, offset + length, unit),
+  };
+}
+
+/**
+ * Length of a string in the given unit.
+ */
+function unitLength(str: string, unit: TextUnit): number {
+  if (unit === "utf16") return str.length;
+  let count = 0;
+  for (let i = 0; i < str.length; i++) {
+    if (
+      isHighSurrogate(str.charCodeAt(i)) &&
+      isLowSurrogate(str.charCodeAt(i + 1))
+    ) {
+      i++;
+    }
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Move `count` units forward from UTF-16 offset `from`.
+ * Returns the new UTF-16 offset, or -1 if that goes past the end of `str`.
+ */
+function advance(
+  str: TextSource,
+  from: number,
+  count: number,
+  unit: TextUnit
+): number {
+  if (unit === "utf16") {
+    return from + count > str.length ? -1 : from + count;
+  }
+  let offset = from;
+  for (let n = 0; n < count; n++) {
+    if (offset >= str.length) return -1;
+    const next = str.slice(offset, offset + 2);
+    offset +=
+      isHighSurrogate(next.charCodeAt(0)) && isLowSurrogate(next.charCodeAt(1))
+        ? 2
+        : 1;
+  }
+  return offset;
+}
+
+/**
+ * Slice a string by unit positions.
+ */
+function sliceUnits(
+  str: string,
+  start: number,
+  end: number,
+  unit: TextUnit
+): string {
+  if (unit === "utf16") return str.slice(start, end);
+  const from = advance(str, 0, start, unit);
+  const to = advance(str, from, end - start, unit);
+  return str.slice(from, to === -1 ? str.length : to);
+}
 
 /**
  * Appends a component to the operation, merging if possible.
@@ -268,6 +618,12 @@ function append(op: TextOperation, component: OpComponent) {
     last.i += component.i;
   } else if (isDelete(last) && isDelete(component)) {
     last.d += component.d;
+    // The merged delete is only invertible if both halves carry their text
+    if (last.s !== undefined && component.s !== undefined) {
+      last.s += component.s;
+    } else {
+      delete last.s;
+    }
   } else {
     op.push(component);
   }
@@ -287,7 +643,7 @@ export function normalize(op: TextOperation): TextOperation {
 /**
  * Validate operation structure
  */
-export function checkOp(op: TextOperation) {
+export function checkOp(op: TextOperation, unit: TextUnit = "utf16") {
   if (!Array.isArray(op)) throw new Error("Operation must be an array");
   for (const c of op) {
     if (typeof c !== "object")
@@ -295,5 +651,8 @@ export function checkOp(op: TextOperation) {
     if (!isInsert(c) && !isRetain(c) && !isDelete(c)) {
       throw new Error("Operation component must be Insert, Retain, or Delete");
     }
+    if (isDelete(c) && c.s !== undefined && unitLength(c.s, unit) !== c.d) {
+      throw new Error("Delete text length must match delete count");
+    }
   }
 }
@@ -0,0 +1,164 @@
+import * as json1 from "ot-json1";
+import { OTType } from "../interfaces";
+import { JsonOp, JsonType, textEditOp } from "./json";
+import { TextOperation } from "./text";
+
+/**
+ * A node of a block document, e.g. a paragraph, a list item or an image.
+ * Leaf blocks hold their content in `text`, containers in `children`.
+ */
+export interface TreeNode {
+  type: string;
+  attrs: Record<string, json1.Doc>;
+  text?: string;
+  children?: TreeNode[];
+}
+
+/**
+ * Child indices leading from the root to a node.
+ * `[]` is the root, `[1, 0]` the first child of the root's second child.
+ */
+export type TreePath = number[];
+
+/**
+ * Tree ops are json1 ops on the node structure. Build them with
+ * `insertNode`, `deleteNode`, `moveNode`, `setAttribute`,
+ * `removeAttribute` and `editNodeText`, and combine them with `compose`.
+ */
+export type TreeOp = JsonOp;
+
+export interface TreeOTType extends OTType<TreeNode, TreeOp> {
+  invert(op: TreeOp): TreeOp;
+  invertWithSnapshot(op: TreeOp, snapshot: TreeNode): TreeOp;
+}
+
+/**
+ * A block document type for editors such as ProseMirror and Lexical.
+ * Nodes can be inserted, deleted and moved, their attributes set, and
+ * their text edited character by character, so concurrent edits to the
+ * same block merge instead of replacing each other.
+ * Conflicts are resolved deterministically, with the 'left' side winning:
+ * concurrent sets of the same attribute keep the left value, and a node
+ * moved by both sides goes where the left side put it.
+ */
+export const TreeType: TreeOTType = {
+  name: "tree",
+
+  create(): TreeNode {
+    return { type: "root", attrs: {}, children: [] };
+  },
+
+  apply(snapshot: TreeNode, op: TreeOp): TreeNode {
+    const result = JsonType.apply(asDoc(snapshot), op);
+    if (!isTreeNode(result)) {
+      throw new Error("Operation does not produce a valid tree root");
+    }
+    return result;
+  },
+
+  transform(opA: TreeOp, opB: TreeOp, side: "left" | "right"): TreeOp {
+    return json1.type.transformNoConflict(opA, opB, side);
+  },
+
+  compose(opA: TreeOp, opB: TreeOp): TreeOp {
+    return JsonType.compose(opA, opB);
+  },
+
+  invert(op: TreeOp): TreeOp {
+    return JsonType.invert(op);
+  },
+
+  invertWithSnapshot(op: TreeOp, snapshot: TreeNode): TreeOp {
+    return JsonType.invertWithDoc(op, asDoc(snapshot));
+  },
+};
+
+/**
+ * Insert node so it ends up at path.
+ */
+export function insertNode(path: TreePath, node: TreeNode): TreeOp {
+  return json1.insertOp(toJsonPath(path), asDoc(node));
+}
+
+/**
+ * Delete the node at path, including its children.
+ */
+export function deleteNode(path: TreePath): TreeOp {
+  return json1.removeOp(toJsonPath(path));
+}
+
+/**
+ * Move the node at from so it ends up at to. `to` is a path in the tree
+ * after the node has been removed from from.
+ */
+export function moveNode(from: TreePath, to: TreePath): TreeOp {
+  return json1.moveOp(toJsonPath(from), toJsonPath(to));
+}
+
+/**
+ * Set an attribute of the node at path. Pass the current value as old
+ * when the attribute is already set.
+ */
+export function setAttribute(
+  path: TreePath,
+  key: string,
+  value: json1.Doc,
+  old?: json1.Doc
+): TreeOp {
+  const attrPath = [...toJsonPath(path), "attrs", key];
+  return old === undefined
+    ? json1.insertOp(attrPath, value)
+    : json1.replaceOp(attrPath, old, value);
+}
+
+/**
+ * Remove an attribute of the node at path.
+ */
+export function removeAttribute(path: TreePath, key: string): TreeOp {
+  return json1.removeOp([...toJsonPath(path), "attrs", key]);
+}
+
+/**
+ * Edit the text of the leaf node at path.
+ */
+export function editNodeText(path: TreePath, op: TextOperation): TreeOp {
+  return textEditOp([...toJsonPath(path), "text"], op);
+}
+
+/**
+ * Get the node at path.
+ */
+export function getNode(root: TreeNode, path: TreePath): TreeNode {
+  let node = root;
+  for (const index of path) {
+    const child = node.children?.[index];
+    if (!child) {
+      throw new Error(`No node at path [${path.join(", ")}]`);
+    }
+    node = child;
+  }
+  return node;
+}
+
+function toJsonPath(path: TreePath): json1.Path {
+  return path.flatMap((index) => ["children", index]);
+}
+
+function asDoc(node: TreeNode): json1.Doc {
+  return node as unknown as json1.Doc;
+}
+
+// Only checks the node itself, not its descendants, to keep apply cheap
+function isTreeNode(doc: unknown): doc is TreeNode {
+  if (doc === null || typeof doc !== "object" || Array.isArray(doc)) {
+    return false;
+  }
+  const node = doc as Partial<TreeNode>;
+  return (
+    typeof node.type === "string" &&
+    node.attrs !== null &&
+    typeof node.attrs === "object" &&
+    (node.text === undefined || typeof node.text === "string") &&
+    (node.children === undefined || Array.isArray(node.children))
+  );
+}
@@ -0,0 +1,44 @@
+// UTF-16 surrogate pair helpers shared by the text types and diffing
+
+export const isHighSurrogate = (code: number) =>
+  code >= 0xd800 && code <= 0xdbff;
+export const isLowSurrogate = (code: number) =>
+  code >= 0xdc00 && code <= 0xdfff;
+
+/**
+ * Whether a UTF-16 offset falls between the halves of a surrogate pair.
+ */
+export function splitsSurrogatePair(str: string, offset: number): boolean {
+  return (
+    offset > 0 &&
+    offset < str.length &&
+    isHighSurrogate(str.charCodeAt(offset - 1)) &&
+    isLowSurrogate(str.charCodeAt(offset))
+  );
+}
+
+/**
+ * Throw if an operation's UTF-16 offset falls between the two halves of a
+ * surrogate pair. `index` is the position reported in the error.
+ */
+export function checkBoundary(str: string, offset: number, index: number) {
+  if (splitsSurrogatePair(str, offset)) {
+    throw new Error(`Operation splits a surrogate pair at index ${index}`);
+  }
+}
+
+/**
+ * Check whether a string contains a surrogate half without its partner.
+ */
+export function hasUnpairedSurrogate(str: string): boolean {
+  for (let i = 0; i < str.length; i++) {
+    const code = str.charCodeAt(i);
+    if (isHighSurrogate(code)) {
+      if (!isLowSurrogate(str.charCodeAt(i + 1))) return true;
+      i++;
+    } else if (isLowSurrogate(code)) {
+      return true;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { CounterType } from "../src/types/counter";
+
+describe("CounterType", () => {
+  it("should start at zero", () => {
+    expect(CounterType.create()).toBe(0);
+  });
+
+  it("should apply increments and decrements", () => {
+    expect(CounterType.apply(5, { inc: 3 })).toBe(8);
+    expect(CounterType.apply(5, { inc: -7 })).toBe(-2);
+  });
+
+  it("should reject invalid increments", () => {
+    expect(() => CounterType.apply(0, { inc: NaN })).toThrow(
+      /Invalid counter increment/
+    );
+  });
+
+  it("should keep concurrent increments unchanged", () => {
+    const opA = { inc: 2 };
+    const opB = { inc: 5 };
+    const left = CounterType.apply(
+      CounterType.apply(1, opA),
+      CounterType.transform(opB, opA, "right")
+    );
+    const right = CounterType.apply(
+      CounterType.apply(1, opB),
+      CounterType.transform(opA, opB, "left")
+    );
+    expect(left).toBe(8);
+    expect(right).toBe(left);
+  });
+
+  it("should compose by adding increments", () => {
+    expect(CounterType.compose({ inc: 2 }, { inc: -3 })).toEqual({ inc: -1 });
+  });
+
+  it("should invert by negating", () => {
+    const op = { inc: 4 };
+    expect(
+      CounterType.apply(CounterType.apply(1, op), CounterType.invert(op))
+    ).toBe(1);
+
+    // Also works detached from the type, e.g. passed as a callback
+    const { invertWithSnapshot } = CounterType;
+    expect(invertWithSnapshot(op, 5)).toEqual({ inc: -4 });
+  });
+});
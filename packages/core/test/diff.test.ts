@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { diffToTextOperation } from "../src/diff";
+import { TextType } from "../src/types/text";
+
+describe("diffToTextOperation", () => {
+  it("should return an empty op for identical strings", () => {
+    expect(diffToTextOperation("Hello", "Hello")).toEqual([]);
+  });
+
+  it("should generate an insert", () => {
+    expect(diffToTextOperation("Hello", "Hello World")).toEqual([
+      { r: 5 },
+      { i: " World" },
+    ]);
+  });
+
+  it("should generate a delete", () => {
+    expect(diffToTextOperation("Hello World", "World")).toEqual([
+      { d: 6 },
+      { r: 5 },
+    ]);
+  });
+
+  it("should place deletes before inserts in a replacement", () => {
+    expect(diffToTextOperation("abc", "axc")).toEqual([
+      { r: 1 },
+      { d: 1 },
+      { i: "x" },
+      { r: 1 },
+    ]);
+  });
+
+  it("should produce a minimal diff for the changed region", () => {
+    // Trimming leaves "bXcYd" vs "bcd"; only X and Y need to go
+    const op = diffToTextOperation("abXcYde", "abcde");
+    expect(op).toEqual([{ r: 2 }, { d: 1 }, { r: 1 }, { d: 1 }, { r: 2 }]);
+  });
+
+  it("should use the cursor hint to place inserts in repeated text", () => {
+    // Typing "a" at the start of "aaa" leaves the caret at 1
+    expect(diffToTextOperation("aaa", "aaaa", 1)).toEqual([
+      { i: "a" },
+      { r: 3 },
+    ]);
+    // Without the hint the common prefix wins
+    expect(diffToTextOperation("aaa", "aaaa")).toEqual([{ r: 3 }, { i: "a" }]);
+  });
+
+  it("should use the cursor hint to place deletes in repeated text", () => {
+    expect(diffToTextOperation("abab", "ab", 0)).toEqual([{ d: 2 }, { r: 2 }]);
+    expect(diffToTextOperation("abab", "ab", 2)).toEqual([{ r: 2 }, { d: 2 }]);
+  });
+
+  it("should ignore a cursor hint that does not fit the edit", () => {
+    expect(diffToTextOperation("abc", "abxc", 0)).toEqual([
+      { r: 2 },
+      { i: "x" },
+      { r: 1 },
+    ]);
+  });
+
+  it("should round-trip random edits through apply", () => {
+    const alphabet = "abc ";
+    let seed = 42;
+    const random = () => {
+      seed = (Math.imul(seed, 1103515245) + 12345) & 0x7fffffff;
+      return seed / 0x7fffffff;
+    };
+    const randomString = (length: number) =>
+      Array.from(
+        { length },
+        () => alphabet[Math.floor(random() * alphabet.length)]
+      ).join("");
+
+    for (let i = 0; i < 200; i++) {
+      const before = randomString(Math.floor(random() * 20));
+      const after = randomString(Math.floor(random() * 20));
+      const op = diffToTextOperation(before, after);
+      expect(TextType.apply(before, op)).toBe(after);
+    }
+  });
+
+  it("should handle large documents with small edits", () => {
+    const base = "lorem ipsum dolor sit amet ".repeat(40000);
+    const edited =
+      base.slice(0, 500000) + "INSERTED" + base.slice(500010, base.length);
+
+    const op = diffToTextOperation(base, edited);
+    expect(TextType.apply(base, op)).toBe(edited);
+    expect(op.length).toBeLessThanOrEqual(6);
+  });
+
+  it("should fall back to a replacement when the diff is too large", () => {
+    const before = "a".repeat(3000);
+    const after = "b".repeat(3000);
+    expect(diffToTextOperation(before, after)).toEqual([
+      { d: 3000 },
+      { i: after },
+    ]);
+  });
+});
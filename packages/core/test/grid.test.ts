@@ -0,0 +1,226 @@
+import { describe, it, expect } from "vitest";
+import {
+  GridOp,
+  GridSnapshot,
+  GridType,
+  createGridType,
+  getCell,
+} from "../src/types/grid";
+
+const Sheet = createGridType<string>(3, 3);
+
+// A 3x3 grid with the first row and column filled in
+const grid = (): GridSnapshot<string> => ({
+  rows: 3,
+  columns: 3,
+  cells: {
+    0: { 0: "A1", 1: "B1", 2: "C1" },
+    1: { 0: "A2" },
+    2: { 0: "A3" },
+  },
+});
+
+// Apply opA and opB in both orders and return both results
+const converge = (
+  snapshot: GridSnapshot<string>,
+  opA: GridOp<string>,
+  opB: GridOp<string>
+) => {
+  const left = Sheet.apply(
+    Sheet.apply(snapshot, opA),
+    Sheet.transform(opB, opA, "right")
+  );
+  const right = Sheet.apply(
+    Sheet.apply(snapshot, opB),
+    Sheet.transform(opA, opB, "left")
+  );
+  return [left, right] as const;
+};
+
+describe("GridType", () => {
+  describe("apply", () => {
+    it("should create an empty grid of the given size", () => {
+      expect(Sheet.create()).toEqual({ rows: 3, columns: 3, cells: {} });
+      expect(GridType.create()).toEqual({ rows: 0, columns: 0, cells: {} });
+    });
+
+    it("should set and clear cells", () => {
+      const result = Sheet.apply(grid(), [
+        { set: [1, 2], value: "C2" },
+        { set: [2, 0], value: null },
+      ]);
+      expect(result.cells).toEqual({
+        0: { 0: "A1", 1: "B1", 2: "C1" },
+        1: { 0: "A2", 2: "C2" },
+      });
+    });
+
+    it("should insert and delete rows", () => {
+      let result = Sheet.apply(grid(), [{ insertRow: 1 }]);
+      expect(result.rows).toBe(4);
+      expect(getCell(result, 1, 0)).toBeNull();
+      expect(getCell(result, 2, 0)).toBe("A2");
+
+      result = Sheet.apply(result, [{ deleteRow: 0 }]);
+      expect(result.rows).toBe(3);
+      expect(result.cells).toEqual({ 1: { 0: "A2" }, 2: { 0: "A3" } });
+    });
+
+    it("should insert and delete columns", () => {
+      let result = Sheet.apply(grid(), [{ insertColumn: 0 }]);
+      expect(result.columns).toBe(4);
+      expect(result.cells[0]).toEqual({ 1: "A1", 2: "B1", 3: "C1" });
+
+      result = Sheet.apply(result, [{ deleteColumn: 1 }]);
+      expect(result.cells).toEqual({ 0: { 1: "B1", 2: "C1" } });
+    });
+
+    it("should move rows", () => {
+      const result = Sheet.apply(grid(), [{ moveRow: 0, to: 2 }]);
+      expect(result.cells).toEqual({
+        0: { 0: "A2" },
+        1: { 0: "A3" },
+        2: { 0: "A1", 1: "B1", 2: "C1" },
+      });
+    });
+
+    it("should not modify the snapshot", () => {
+      const snapshot = grid();
+      Sheet.apply(snapshot, [{ set: [0, 0], value: "x" }, { deleteRow: 1 }]);
+      expect(snapshot).toEqual(grid());
+    });
+
+    it("should throw for cells out of bounds", () => {
+      expect(() => Sheet.apply(grid(), [{ set: [3, 0], value: "x" }])).toThrow(
+        "Row 3 is out of bounds"
+      );
+      expect(() => Sheet.apply(grid(), [{ deleteColumn: 3 }])).toThrow(
+        "Column 3 is out of bounds"
+      );
+    });
+  });
+
+  describe("transform", () => {
+    it("should shift a cell edit past an inserted row", () => {
+      const opA: GridOp<string> = [{ set: [1, 1], value: "B2" }];
+      const opB: GridOp<string> = [{ insertRow: 0 }];
+      const [left, right] = converge(grid(), opA, opB);
+      expect(getCell(left, 2, 1)).toBe("B2");
+      expect(right).toEqual(left);
+    });
+
+    it("should shift a cell edit past a deleted column", () => {
+      const opA: GridOp<string> = [{ set: [1, 2], value: "C2" }];
+      const opB: GridOp<string> = [{ deleteColumn: 0 }];
+      const [left, right] = converge(grid(), opA, opB);
+      expect(left.cells[1]).toEqual({ 1: "C2" });
+      expect(right).toEqual(left);
+    });
+
+    it("should follow a moved row with cell edits", () => {
+      const opA: GridOp<string> = [{ set: [2, 1], value: "B3" }];
+      const opB: GridOp<string> = [{ moveRow: 2, to: 0 }];
+      const [left, right] = converge(grid(), opA, opB);
+      expect(left.cells[0]).toEqual({ 0: "A3", 1: "B3" });
+      expect(right).toEqual(left);
+    });
+
+    it("should drop edits to a deleted row", () => {
+      const opA: GridOp<string> = [{ set: [1, 1], value: "B2" }];
+      const opB: GridOp<string> = [{ deleteRow: 1 }];
+      const [left, right] = converge(grid(), opA, opB);
+      expect(left.rows).toBe(2);
+      expect(left.cells).toEqual({
+        0: { 0: "A1", 1: "B1", 2: "C1" },
+        1: { 0: "A3" },
+      });
+      expect(right).toEqual(left);
+    });
+
+    it("should let the right side win when both set the same cell", () => {
+      const opA: GridOp<string> = [{ set: [0, 0], value: "left" }];
+      const opB: GridOp<string> = [{ set: [0, 0], value: "right" }];
+      const [left, right] = converge(grid(), opA, opB);
+      expect(getCell(left, 0, 0)).toBe("right");
+      expect(right).toEqual(left);
+    });
+
+    it("should converge for random concurrent ops", () => {
+      let seed = 11;
+      const random = (n: number) => {
+        seed = (Math.imul(seed, 1103515245) + 12345) & 0x7fffffff;
+        return (seed >>> 16) % n;
+      };
+      const randomOp = (snapshot: GridSnapshot<string>) => {
+        const op: GridOp<string> = [];
+        let current = snapshot;
+        for (let i = random(3); i >= 0; i--) {
+          const { rows, columns } = current;
+          const kind = random(6);
+          const component =
+            kind === 0 || rows === 0
+              ? { insertRow: random(rows + 1) }
+              : kind === 1 || columns === 0
+                ? { insertColumn: random(columns + 1) }
+                : kind === 2
+                  ? { deleteRow: random(rows) }
+                  : kind === 3
+                    ? { deleteColumn: random(columns) }
+                    : kind === 4
+                      ? { moveRow: random(rows), to: random(rows) }
+                      : {
+                          set: [random(rows), random(columns)] as [
+                            number,
+                            number,
+                          ],
+                          value: random(4) === 0 ? null : `v${random(100)}`,
+                        };
+          op.push(component);
+          current = Sheet.apply(current, [component]);
+        }
+        return op;
+      };
+
+      for (let i = 0; i < 1000; i++) {
+        const [left, right] = converge(
+          grid(),
+          randomOp(grid()),
+          randomOp(grid())
+        );
+        expect(left).toEqual(right);
+      }
+    });
+  });
+
+  describe("invert", () => {
+    it("should undo ops carrying removed cells", () => {
+      const op: GridOp<string> = [
+        { set: [0, 0], value: "x", old: "A1" },
+        { deleteRow: 1, cells: { 0: "A2" } },
+        { insertColumn: 3 },
+        { moveRow: 0, to: 1 },
+      ];
+      const result = Sheet.apply(grid(), op);
+      expect(Sheet.apply(result, Sheet.invert(op))).toEqual(grid());
+    });
+
+    it("should require the snapshot for deletes without cells", () => {
+      expect(() => Sheet.invert([{ deleteColumn: 0 }])).toThrow(
+        /invertWithSnapshot/
+      );
+    });
+
+    it("should fill in removed cells from the snapshot", () => {
+      const op: GridOp<string> = [
+        { deleteColumn: 0 },
+        { set: [0, 0], value: null },
+        { deleteRow: 0 },
+      ];
+      const result = Sheet.apply(grid(), op);
+      // Also works detached from the type, e.g. passed as a callback
+      const { invertWithSnapshot } = Sheet;
+      const inverse = invertWithSnapshot(op, grid());
+      expect(Sheet.apply(result, inverse)).toEqual(grid());
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { createJsonType } from "../src/types/json";
+import { createJsonType, JsonValidationError } from "../src/types/json";
 import * as json1 from "ot-json1";
 
 describe("createJsonType with hooks", () => {
@@ -38,9 +38,8 @@ describe("createJsonType with hooks", () => {
     const opA = json1.replaceOp(["keyA"], "init", "a");
     const opB = json1.replaceOp(["keyB"], "init", "b");
 
-    const transformed = type.transform(opA, opB, "left");
-    // Expect null because validate returned false
-    expect(transformed).toBeNull();
+    // Rejected because validate returned false
+    expect(() => type.transform(opA, opB, "left")).toThrow(JsonValidationError);
   });
 
   it("should proactively rewrite ops with transformOp", () => {
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import {
+  JsonType,
+  JsonValidationError,
+  createJsonType,
+} from "../src/types/json";
+import * as json1 from "ot-json1";
+
+describe("JsonType invert", () => {
+  it("should invert an insert", () => {
+    const snapshot = { users: ["Alice"] };
+    const op = json1.insertOp(["users", 1], "Bob");
+    const inverse = JsonType.invert(op);
+
+    expect(JsonType.apply(JsonType.apply(snapshot, op), inverse)).toEqual(
+      snapshot
+    );
+  });
+
+  it("should invert removals and replacements carrying their values", () => {
+    const snapshot = { title: "Draft", tags: ["a", "b"] };
+    const op = JsonType.compose(json1.replaceOp(["title"], "Draft", "Final"), [
+      "tags",
+      0,
+      { r: "a" },
+    ]);
+    const inverse = JsonType.invert(op);
+
+    expect(JsonType.apply(JsonType.apply(snapshot, op), inverse)).toEqual(
+      snapshot
+    );
+  });
+
+  it("should invert moves", () => {
+    const snapshot = { a: { x: 1 }, b: {} };
+    const op = json1.moveOp(["a", "x"], ["b", "y"]);
+    const inverse = JsonType.invert(op);
+
+    expect(JsonType.apply(JsonType.apply(snapshot, op), inverse)).toEqual(
+      snapshot
+    );
+  });
+
+  it("should throw when a removal does not carry its value", () => {
+    const op = json1.removeOp(["count"]);
+    expect(() => JsonType.invert(op)).toThrow(/invertWithDoc/);
+  });
+
+  it("should fill in removed values from the document", () => {
+    const snapshot = { count: 3, nested: { list: [1, 2, 3] } };
+    const op = JsonType.compose(
+      json1.removeOp(["count"]),
+      json1.removeOp(["nested", "list", 1])
+    );
+    const inverse = JsonType.invertWithDoc(op, snapshot);
+
+    expect(JsonType.apply(JsonType.apply(snapshot, op), inverse)).toEqual(
+      snapshot
+    );
+    expect(JsonType.invertWithSnapshot(op, snapshot)).toEqual(inverse);
+  });
+});
+
+describe("createJsonType invert with hooks", () => {
+  it("should invert the op rewritten by transformOp", () => {
+    // Redirect writes to "title" into "draft"
+    const redirecting = createJsonType({
+      transformOp: (op) =>
+        Array.isArray(op) && op[0] === "title"
+          ? ["draft", ...op.slice(1)]
+          : null,
+    });
+    const snapshot = { title: "T", draft: "old" };
+    const op = json1.replaceOp(["title"], "old", "new");
+
+    const applied = redirecting.apply(snapshot, op);
+    expect(applied).toEqual({ title: "T", draft: "new" });
+
+    const inverse = redirecting.invertWithDoc(op, snapshot);
+    expect(redirecting.apply(applied, inverse)).toEqual(snapshot);
+  });
+
+  it("should reject inverses rejected by validate", () => {
+    const type = createJsonType({
+      validate: (op) => JSON.stringify(op).indexOf("locked") === -1,
+    });
+
+    const op = json1.removeOp(["locked"], true);
+    expect(() => type.invertWithDoc(op, { locked: true })).toThrow(
+      JsonValidationError
+    );
+    expect(type.invert(json1.insertOp(["open"], 1))).not.toBeNull();
+  });
+});
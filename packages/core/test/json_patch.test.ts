@@ -0,0 +1,208 @@
+import { describe, it, expect } from "vitest";
+import * as json1 from "ot-json1";
+import {
+  JsonPatch,
+  JsonPatchError,
+  fromJsonPatch,
+  fromPointer,
+  toJsonPatch,
+  toPointer,
+} from "../src/json-patch";
+import { JsonType, textEditOp } from "../src/types/json";
+
+const doc = {
+  title: "Form",
+  fields: [{ label: "Email" }, { label: "Name" }],
+  meta: { "a/b": 1, "c~d": 2 },
+};
+
+// Apply a patch through its JsonOp
+const applyPatch = (snapshot: json1.Doc, patch: JsonPatch) =>
+  JsonType.apply(snapshot, fromJsonPatch(patch, snapshot));
+
+describe("JSON Pointers", () => {
+  it("should tell array indices from object keys", () => {
+    expect(fromPointer("/fields/1/label", doc)).toEqual(["fields", 1, "label"]);
+    expect(fromPointer("/fields/-", doc)).toEqual(["fields", 2]);
+    expect(fromPointer("", doc)).toEqual([]);
+  });
+
+  it("should unescape and escape special characters", () => {
+    expect(fromPointer("/meta/a~1b", doc)).toEqual(["meta", "a/b"]);
+    expect(fromPointer("/meta/c~0d", doc)).toEqual(["meta", "c~d"]);
+    expect(toPointer(["meta", "a/b"])).toBe("/meta/a~1b");
+    expect(toPointer(["meta", "c~d"])).toBe("/meta/c~0d");
+  });
+
+  it("should reject invalid pointers", () => {
+    expect(() => fromPointer("fields", doc)).toThrow(JsonPatchError);
+    expect(() => fromPointer("/fields/x", doc)).toThrow(/Invalid array index/);
+    expect(() => fromPointer("/missing/key", doc)).toThrow(/does not exist/);
+  });
+});
+
+describe("fromJsonPatch", () => {
+  it("should add, replace and remove values", () => {
+    const result = applyPatch(doc, [
+      { op: "add", path: "/fields/-", value: { label: "Phone" } },
+      { op: "replace", path: "/title", value: "Signup" },
+      { op: "remove", path: "/fields/0" },
+      { op: "add", path: "/meta/c~0d", value: 3 },
+    ]);
+
+    expect(result).toEqual({
+      title: "Signup",
+      fields: [{ label: "Name" }, { label: "Phone" }],
+      meta: { "a/b": 1, "c~d": 3 },
+    });
+  });
+
+  it("should move and copy values", () => {
+    const result = applyPatch(doc, [
+      { op: "move", from: "/fields/0", path: "/fields/1" },
+      { op: "copy", from: "/title", path: "/subtitle" },
+      { op: "move", from: "/meta/a~1b", path: "/meta/c~0d" },
+    ]);
+
+    expect(result).toEqual({
+      title: "Form",
+      subtitle: "Form",
+      fields: [{ label: "Name" }, { label: "Email" }],
+      meta: { "c~d": 1 },
+    });
+  });
+
+  it("should produce a move that follows concurrent edits", () => {
+    const move = fromJsonPatch(
+      [{ op: "move", from: "/fields/0", path: "/primary" }],
+      doc
+    );
+    const edit = json1.replaceOp(["fields", 0, "label"], "Email", "E-mail");
+
+    const editPrime = JsonType.transform(edit, move, "left");
+    expect(JsonType.apply(JsonType.apply(doc, move), editPrime)).toMatchObject({
+      primary: { label: "E-mail" },
+    });
+  });
+
+  it("should produce invertible ops", () => {
+    const op = fromJsonPatch(
+      [
+        { op: "remove", path: "/fields/1" },
+        { op: "replace", path: "/title", value: "New" },
+      ],
+      doc
+    );
+    const inverse = JsonType.invert(op);
+    expect(JsonType.apply(JsonType.apply(doc, op), inverse)).toEqual(doc);
+  });
+
+  it("should check test operations", () => {
+    expect(() =>
+      fromJsonPatch(
+        [
+          { op: "replace", path: "/title", value: "New" },
+          { op: "test", path: "/title", value: "Form" },
+        ],
+        doc
+      )
+    ).toThrow('Patch operation 1: Test failed at "/title"');
+
+    const op = fromJsonPatch(
+      [{ op: "test", path: "/meta", value: { "c~d": 2, "a/b": 1 } }],
+      doc
+    );
+    expect(JsonType.apply(doc, op)).toEqual(doc);
+  });
+
+  it("should report the index of invalid operations", () => {
+    let error: unknown;
+    try {
+      fromJsonPatch(
+        [
+          { op: "add", path: "/a", value: 1 },
+          { op: "remove", path: "/fields/5" },
+        ],
+        doc
+      );
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(JsonPatchError);
+    expect((error as JsonPatchError).index).toBe(1);
+    expect((error as JsonPatchError).message).toBe(
+      'Patch operation 1: Path "/fields/5" does not exist'
+    );
+  });
+
+  it("should reject unsupported constructs", () => {
+    const patch = [{ op: "merge", path: "/title" }] as unknown as JsonPatch;
+    expect(() => fromJsonPatch(patch, doc)).toThrow(
+      'Patch operation 0: Unsupported operation "merge"'
+    );
+    expect(() =>
+      fromJsonPatch([{ op: "move", from: "/meta", path: "/meta/x" }], doc)
+    ).toThrow(/into one of its children/);
+    expect(() =>
+      fromJsonPatch([{ op: "add", path: "/fields/7", value: 1 }], doc)
+    ).toThrow(/out of bounds/);
+  });
+});
+
+describe("toJsonPatch", () => {
+  it("should write a replace of an object member", () => {
+    const op = json1.replaceOp(["title"], "Form", "Signup");
+    expect(toJsonPatch(op, doc)).toEqual([
+      { op: "replace", path: "/title", value: "Signup" },
+    ]);
+  });
+
+  it("should write inserts and removals in array order", () => {
+    const op = JsonType.compose(
+      json1.removeOp(["fields", 0]),
+      json1.insertOp(["fields", 1], { label: "Phone" })
+    );
+    expect(toJsonPatch(op, doc)).toEqual([
+      { op: "remove", path: "/fields/0" },
+      { op: "add", path: "/fields/1", value: { label: "Phone" } },
+    ]);
+  });
+
+  it("should write moves as remove and add", () => {
+    const op = json1.moveOp(["fields", 1], ["fields", 0]);
+    expect(toJsonPatch(op, doc)).toEqual([
+      { op: "remove", path: "/fields/1" },
+      { op: "add", path: "/fields/0", value: { label: "Name" } },
+    ]);
+  });
+
+  it("should write embedded edits as replacements", () => {
+    const op = textEditOp(["title"], [{ r: 4 }, { i: "s" }]);
+    expect(toJsonPatch(op, doc)).toEqual([
+      { op: "replace", path: "/title", value: "Forms" },
+    ]);
+  });
+
+  it("should round-trip through fromJsonPatch", () => {
+    const ops = [
+      JsonType.compose(
+        json1.moveOp(["fields", 0], ["meta", "first"]),
+        json1.removeOp(["fields", 0])
+      ),
+      JsonType.compose(
+        json1.insertOp(["fields", 0], { label: "A" }),
+        json1.insertOp(["fields", 2], { label: "B" })
+      ),
+      JsonType.compose(
+        json1.removeOp(["meta"]),
+        json1.replaceOp(["fields", 1, "label"], "Name", "Full name")
+      ),
+    ];
+
+    for (const op of ops) {
+      const expected = JsonType.apply(doc, op);
+      expect(applyPatch(doc, toJsonPatch(op, doc))).toEqual(expected);
+    }
+  });
+});
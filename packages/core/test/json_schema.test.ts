@@ -0,0 +1,176 @@
+import { describe, it, expect } from "vitest";
+import * as json1 from "ot-json1";
+import {
+  JsonSchema,
+  createSchemaJsonType,
+  validateJsonSchema,
+} from "../src/types/json-schema";
+import { JsonValidationError } from "../src/types/json";
+
+const formSchema: JsonSchema = {
+  type: "object",
+  required: ["name", "fields"],
+  additionalProperties: false,
+  properties: {
+    name: { type: "string", minLength: 1, maxLength: 20 },
+    status: { enum: ["draft", "published"] },
+    fields: {
+      type: "array",
+      maxItems: 3,
+      items: {
+        type: "object",
+        required: ["label"],
+        properties: {
+          label: { type: "string" },
+          width: { type: "integer", minimum: 1, maximum: 12 },
+        },
+      },
+    },
+  },
+};
+
+const validForm = {
+  name: "Signup",
+  status: "draft",
+  fields: [{ label: "Email", width: 6 }],
+};
+
+describe("validateJsonSchema", () => {
+  it("should accept valid documents", () => {
+    expect(validateJsonSchema(validForm, formSchema)).toBeNull();
+  });
+
+  it("should report type mismatches", () => {
+    expect(validateJsonSchema({ ...validForm, name: 1 }, formSchema)).toEqual({
+      path: ["name"],
+      reason: "Expected string, got number",
+    });
+  });
+
+  it("should report missing required keys", () => {
+    expect(validateJsonSchema({ fields: [] }, formSchema)).toEqual({
+      path: [],
+      reason: 'Missing required property "name"',
+    });
+  });
+
+  it("should report values outside an enum", () => {
+    const doc = { ...validForm, status: "archived" };
+    expect(validateJsonSchema(doc, formSchema)).toEqual({
+      path: ["status"],
+      reason: 'Expected one of "draft", "published"',
+    });
+  });
+
+  it("should check bounds on numbers, strings and arrays", () => {
+    const field = { label: "Email" };
+    expect(
+      validateJsonSchema(
+        { ...validForm, fields: [{ label: "A", width: 13 }] },
+        formSchema
+      )
+    ).toEqual({
+      path: ["fields", 0, "width"],
+      reason: "Expected a number <= 12, got 13",
+    });
+    expect(
+      validateJsonSchema({ ...validForm, name: "" }, formSchema)?.reason
+    ).toBe("Expected at least 1 characters");
+    expect(
+      validateJsonSchema(
+        { ...validForm, fields: [field, field, field, field] },
+        formSchema
+      )
+    ).toEqual({ path: ["fields"], reason: "Expected at most 3 items" });
+  });
+
+  it("should check array item types", () => {
+    const doc = { ...validForm, fields: [{ label: "A" }, "B"] };
+    expect(validateJsonSchema(doc, formSchema)).toEqual({
+      path: ["fields", 1],
+      reason: "Expected object, got string",
+    });
+  });
+
+  it("should reject unexpected properties", () => {
+    const doc = { ...validForm, extra: true };
+    expect(validateJsonSchema(doc, formSchema)).toEqual({
+      path: ["extra"],
+      reason: "Unexpected property",
+    });
+  });
+
+  it("should tell integers from numbers", () => {
+    const doc = { ...validForm, fields: [{ label: "A", width: 1.5 }] };
+    expect(validateJsonSchema(doc, formSchema)?.path).toEqual([
+      "fields",
+      0,
+      "width",
+    ]);
+  });
+});
+
+describe("createSchemaJsonType", () => {
+  const FormType = createSchemaJsonType(formSchema);
+
+  it("should apply ops producing valid documents", () => {
+    const op = json1.insertOp(["fields", 1], { label: "Name" });
+    expect(FormType.apply(validForm, op)).toEqual({
+      ...validForm,
+      fields: [{ label: "Email", width: 6 }, { label: "Name" }],
+    });
+  });
+
+  it("should reject ops producing invalid documents", () => {
+    const op = json1.replaceOp(["fields", 0, "width"], 6, 20);
+
+    let error: unknown;
+    try {
+      FormType.apply(validForm, op);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(JsonValidationError);
+    expect((error as JsonValidationError).path).toEqual(["fields", 0, "width"]);
+  });
+
+  it("should reject removing a required key", () => {
+    const op = json1.removeOp(["name"]);
+    expect(() => FormType.apply(validForm, op)).toThrow(
+      'Invalid operation at (root): Missing required property "name"'
+    );
+  });
+
+  it("should reject removing the root", () => {
+    const op = json1.removeOp([]);
+    expect(() => FormType.apply(validForm, op)).toThrow(
+      "Invalid operation at (root): Document is missing"
+    );
+  });
+
+  it("should transform without a document", () => {
+    const opA = json1.replaceOp(["name"], "Signup", "Login");
+    const opB = json1.insertOp(["fields", 0], { label: "Phone" });
+    expect(FormType.transform(opA, opB, "left")).toEqual(
+      json1.type.transform(opA, opB, "left")
+    );
+  });
+
+  it("should run the validate hook after the schema check", () => {
+    const type = createSchemaJsonType(formSchema, {
+      validate: (_op, doc, stage) =>
+        stage !== "apply" || (doc as { status?: string }).status !== "published"
+          ? true
+          : { path: ["status"], reason: "Only admins can publish" },
+    });
+
+    const publish = json1.replaceOp(["status"], "draft", "published");
+    expect(() => type.apply(validForm, publish)).toThrow(
+      "Only admins can publish"
+    );
+
+    const invalid = json1.replaceOp(["status"], "draft", "gone");
+    expect(() => type.apply(validForm, invalid)).toThrow(/Expected one of/);
+  });
+});
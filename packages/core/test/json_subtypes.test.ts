@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import * as json1 from "ot-json1";
+import {
+  JsonType,
+  createJsonType,
+  subtypeEditOp,
+  textEditOp,
+} from "../src/types/json";
+import { OTType } from "../src/interfaces";
+
+const doc = { title: "Hello", body: "World", tags: [] };
+
+describe("JsonType with embedded text edits", () => {
+  it("should edit a string field in place", () => {
+    const op = textEditOp(["title"], [{ r: 5 }, { i: " there" }]);
+    expect(JsonType.apply(doc, op)).toEqual({
+      title: "Hello there",
+      body: "World",
+      tags: [],
+    });
+  });
+
+  it("should transform concurrent edits to the same string", () => {
+    const opA = textEditOp(["title"], [{ i: "Oh, " }]);
+    const opB = textEditOp(["title"], [{ r: 5 }, { i: "!" }]);
+
+    const aPrime = JsonType.transform(opA, opB, "left");
+    const bPrime = JsonType.transform(opB, opA, "right");
+
+    const left = JsonType.apply(JsonType.apply(doc, opA), bPrime);
+    const right = JsonType.apply(JsonType.apply(doc, opB), aPrime);
+    expect(left).toEqual(right);
+    expect(left).toEqual({ ...doc, title: "Oh, Hello!" });
+  });
+
+  it("should break insert ties at the same position by side", () => {
+    const opA = textEditOp(["body"], [{ i: "A" }]);
+    const opB = textEditOp(["body"], [{ i: "B" }]);
+
+    const aPrime = JsonType.transform(opA, opB, "left");
+    const bPrime = JsonType.transform(opB, opA, "right");
+
+    expect(JsonType.apply(JsonType.apply(doc, opA), bPrime)).toEqual({
+      ...doc,
+      body: "ABWorld",
+    });
+    expect(JsonType.apply(JsonType.apply(doc, opB), aPrime)).toEqual({
+      ...doc,
+      body: "ABWorld",
+    });
+  });
+
+  it("should follow a string moved concurrently", () => {
+    const edit = textEditOp(["title"], [{ r: 5 }, { i: "!" }]);
+    const move = json1.moveOp(["title"], ["heading"]);
+
+    const editPrime = JsonType.transform(edit, move, "left");
+    expect(JsonType.apply(JsonType.apply(doc, move), editPrime)).toEqual({
+      heading: "Hello!",
+      body: "World",
+      tags: [],
+    });
+  });
+
+  it("should compose consecutive edits to a string", () => {
+    const opA = textEditOp(["title"], [{ r: 5 }, { i: " there" }]);
+    const opB = textEditOp(["title"], [{ d: 6 }, { r: 5 }]);
+
+    const composed = JsonType.compose(opA, opB);
+    expect(composed).toEqual(textEditOp(["title"], [{ d: 5 }, { i: "there" }]));
+    expect(JsonType.apply(doc, composed)).toEqual({ ...doc, title: "there" });
+  });
+
+  it("should invert text edits using the document", () => {
+    const op = textEditOp(["body"], [{ d: 2 }, { i: "Sw" }]);
+    const inverse = JsonType.invertWithDoc(op, doc);
+    expect(JsonType.apply(JsonType.apply(doc, op), inverse)).toEqual(doc);
+  });
+
+  it("should invert text edits carrying deleted text", () => {
+    const op = textEditOp(["body"], [{ d: 2, s: "Wo" }, { i: "Sw" }]);
+    const inverse = JsonType.invert(op);
+    expect(JsonType.apply(JsonType.apply(doc, op), inverse)).toEqual(doc);
+  });
+});
+
+describe("createJsonType({ subtypes })", () => {
+  // Keeps the largest value seen
+  const MaxType: OTType<number, number> = {
+    name: "test-max",
+    create: () => 0,
+    apply: (snapshot, op) => Math.max(snapshot, op),
+    transform: (opA) => opA,
+    compose: (opA, opB) => Math.max(opA, opB),
+  };
+
+  it("should apply and transform edits of registered subtypes", () => {
+    const type = createJsonType({ subtypes: [MaxType] });
+    const opA = subtypeEditOp(["score"], MaxType, 7);
+    const opB = subtypeEditOp(["score"], MaxType, 5);
+
+    const left = type.apply(
+      type.apply({ score: 3 }, opA),
+      type.transform(opB, opA, "right")
+    );
+    const right = type.apply(
+      type.apply({ score: 3 }, opB),
+      type.transform(opA, opB, "left")
+    );
+    expect(left).toEqual({ score: 7 });
+    expect(right).toEqual(left);
+  });
+});
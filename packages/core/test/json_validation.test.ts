@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import {
+  JsonType,
+  JsonValidationError,
+  createJsonType,
+} from "../src/types/json";
+import * as json1 from "ot-json1";
+
+type Todo = { title: string; done: boolean };
+
+// Every todo needs a string title
+const TodoListType = createJsonType({
+  validate: (_op, doc) => {
+    if (doc === undefined) return true;
+    const todos = (doc as { todos: Todo[] }).todos;
+    const index = todos.findIndex((todo) => typeof todo.title !== "string");
+    if (index === -1) return true;
+    return {
+      path: ["todos", index, "title"],
+      reason: "title must be a string",
+    };
+  },
+});
+
+describe("createJsonType validate", () => {
+  const snapshot = { todos: [{ title: "Write docs", done: false }] };
+
+  it("should validate against the document produced by apply", () => {
+    const op = json1.insertOp(["todos", 1], { title: "Ship", done: false });
+    expect(TodoListType.apply(snapshot, op)).toEqual({
+      todos: [
+        { title: "Write docs", done: false },
+        { title: "Ship", done: false },
+      ],
+    });
+  });
+
+  it("should throw a structured error for invalid documents", () => {
+    const op = json1.replaceOp(["todos", 0, "title"], "Write docs", 42);
+
+    let error: unknown;
+    try {
+      TodoListType.apply(snapshot, op);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(JsonValidationError);
+    expect((error as JsonValidationError).path).toEqual(["todos", 0, "title"]);
+    expect((error as JsonValidationError).reason).toBe(
+      "title must be a string"
+    );
+    expect((error as JsonValidationError).message).toBe(
+      "Invalid operation at todos/0/title: title must be a string"
+    );
+  });
+
+  it("should not modify the snapshot when rejecting", () => {
+    const op = json1.replaceOp(["todos", 0, "title"], "Write docs", null);
+    expect(() => TodoListType.apply(snapshot, op)).toThrow(JsonValidationError);
+    expect(snapshot).toEqual({
+      todos: [{ title: "Write docs", done: false }],
+    });
+  });
+
+  it("should use the op path when validate returns false", () => {
+    const type = createJsonType({ validate: () => false });
+    const op = json1.replaceOp(["a", "b"], 1, 2);
+
+    expect(() => type.apply({ a: { b: 1 } }, op)).toThrow(
+      "Invalid operation at a/b: Rejected by validate hook"
+    );
+  });
+
+  it("should leave the default type unvalidated", () => {
+    const op = json1.replaceOp(["todos", 0, "title"], "Write docs", 42);
+    expect(JsonType.apply(snapshot, op)).toEqual({
+      todos: [{ title: 42, done: false }],
+    });
+  });
+});
@@ -0,0 +1,258 @@
+import { describe, it, expect } from "vitest";
+import { ListOp, ListType, createListType } from "../src/types/list";
+
+type Card = { id: string };
+const CardList = createListType<Card>();
+const a = { id: "a" };
+const b = { id: "b" };
+const c = { id: "c" };
+const x = { id: "x" };
+const y = { id: "y" };
+
+// Apply opA and opB in both orders and return both results
+const converge = <T>(
+  snapshot: T[],
+  opA: ListOp<T>,
+  opB: ListOp<T>,
+  type = createListType<T>()
+) => {
+  const left = type.apply(
+    type.apply(snapshot, opA),
+    type.transform(opB, opA, "right")
+  );
+  const right = type.apply(
+    type.apply(snapshot, opB),
+    type.transform(opA, opB, "left")
+  );
+  return [left, right];
+};
+
+describe("ListType", () => {
+  describe("apply", () => {
+    it("should insert, delete and replace items", () => {
+      const op: ListOp<Card> = [
+        { insert: 1, value: x },
+        { delete: 0 },
+        { replace: 1, value: y },
+      ];
+      expect(CardList.apply([a, b], op)).toEqual([x, y]);
+    });
+
+    it("should move items", () => {
+      expect(CardList.apply([a, b, c], [{ move: 0, to: 2 }])).toEqual([
+        b,
+        c,
+        a,
+      ]);
+      expect(CardList.apply([a, b, c], [{ move: 2, to: 0 }])).toEqual([
+        c,
+        a,
+        b,
+      ]);
+    });
+
+    it("should not modify the snapshot", () => {
+      const snapshot = [a, b];
+      CardList.apply(snapshot, [{ delete: 0 }]);
+      expect(snapshot).toEqual([a, b]);
+    });
+
+    it("should throw for indices out of bounds", () => {
+      expect(() => CardList.apply([a], [{ delete: 1 }])).toThrow(
+        /out of bounds/
+      );
+      expect(() => CardList.apply([a], [{ insert: 2, value: b }])).toThrow(
+        /out of bounds/
+      );
+    });
+  });
+
+  describe("transform", () => {
+    it("should order concurrent inserts at the same index by side", () => {
+      const opA: ListOp<Card> = [{ insert: 1, value: x }];
+      const opB: ListOp<Card> = [{ insert: 1, value: y }];
+      const [left, right] = converge([a, b], opA, opB);
+      expect(left).toEqual([a, x, y, b]);
+      expect(right).toEqual(left);
+    });
+
+    it("should delete an item only once", () => {
+      const [left, right] = converge<Card>(
+        [a, b, c],
+        [{ delete: 1 }],
+        [{ delete: 1 }]
+      );
+      expect(left).toEqual([a, c]);
+      expect(right).toEqual(left);
+    });
+
+    it("should move an item that was shifted by an insert", () => {
+      const opA: ListOp<Card> = [{ move: 2, to: 0 }];
+      const opB: ListOp<Card> = [{ insert: 0, value: x }];
+      const [left, right] = converge([a, b, c], opA, opB);
+      expect(left).toEqual([x, c, a, b]);
+      expect(right).toEqual(left);
+    });
+
+    it("should delete an item wherever it was moved", () => {
+      const opA: ListOp<Card> = [{ move: 0, to: 2 }];
+      const opB: ListOp<Card> = [{ delete: 0 }];
+      const [left, right] = converge([a, b, c], opA, opB);
+      expect(left).toEqual([b, c]);
+      expect(right).toEqual(left);
+    });
+
+    it("should replace an item wherever it was moved", () => {
+      const opA: ListOp<Card> = [{ move: 0, to: 2 }];
+      const opB: ListOp<Card> = [{ replace: 0, value: x }];
+      const [left, right] = converge([a, b, c], opA, opB);
+      expect(left).toEqual([b, c, x]);
+      expect(right).toEqual(left);
+    });
+
+    it("should let the left side win when both move the same item", () => {
+      const opA: ListOp<Card> = [{ move: 0, to: 2 }];
+      const opB: ListOp<Card> = [{ move: 0, to: 1 }];
+      const [left, right] = converge([a, b, c], opA, opB);
+      expect(left).toEqual([b, c, a]);
+      expect(right).toEqual(left);
+    });
+
+    it("should keep both moves of different items", () => {
+      const opA: ListOp<Card> = [{ move: 0, to: 2 }];
+      const opB: ListOp<Card> = [{ move: 2, to: 0 }];
+      const [left, right] = converge([a, b, c], opA, opB);
+      expect(left).toEqual([c, b, a]);
+      expect(right).toEqual(left);
+    });
+
+    it("should follow an item next to where another item was moved", () => {
+      const opA: ListOp<Card> = [{ move: 0, to: 1 }];
+      const opB: ListOp<Card> = [{ delete: 2 }];
+      const [left, right] = converge([a, b, c], opA, opB);
+      expect(left).toEqual([b, a]);
+      expect(right).toEqual(left);
+    });
+
+    it("should keep a move after an insert behind the moved item", () => {
+      const opA: ListOp<Card> = [{ move: 0, to: 1 }];
+      const opB: ListOp<Card> = [{ insert: 2, value: x }];
+      const [left, right] = converge([a, b, c], opA, opB);
+      expect(left).toEqual([b, x, a, c]);
+      expect(right).toEqual(left);
+    });
+
+    it("should leave moves of an item onto itself in place", () => {
+      const opA: ListOp<Card> = [{ move: 0, to: 0 }];
+      const opB: ListOp<Card> = [{ insert: 1, value: x }];
+      const [left, right] = converge([a], opA, opB);
+      expect(left).toEqual([a, x]);
+      expect(right).toEqual(left);
+    });
+
+    it("should let the left side win when both replace the same item", () => {
+      const opA: ListOp<Card> = [{ replace: 0, value: x }];
+      const opB: ListOp<Card> = [{ replace: 0, value: y }];
+      const [left, right] = converge([a], opA, opB);
+      expect(left).toEqual([x]);
+      expect(right).toEqual(left);
+    });
+
+    it("should keep a replaced item deleted concurrently", () => {
+      const opA: ListOp<Card> = [{ replace: 0, value: x }];
+      const opB: ListOp<Card> = [{ delete: 0 }];
+      const [left, right] = converge([a, b], opA, opB);
+      expect(left).toEqual([x, b]);
+      expect(right).toEqual(left);
+    });
+
+    it("should converge for random concurrent ops", () => {
+      let seed = 7;
+      const random = (n: number) => {
+        seed = (Math.imul(seed, 1103515245) + 12345) & 0x7fffffff;
+        // The low bits of this generator repeat quickly
+        return (seed >>> 16) % n;
+      };
+      const randomOp = (list: number[]) => {
+        const op: ListOp<number> = [];
+        let current = list;
+        for (let i = random(3); i >= 0; i--) {
+          const n = current.length;
+          const kind = n === 0 ? 0 : random(4);
+          const component =
+            kind === 0
+              ? { insert: random(n + 1), value: 100 + random(100) }
+              : kind === 1
+                ? { delete: random(n) }
+                : kind === 2
+                  ? { replace: random(n), value: 200 + random(100) }
+                  : { move: random(n), to: random(n) };
+          op.push(component);
+          current = ListType.apply(current, [component]) as number[];
+        }
+        return op;
+      };
+
+      for (let i = 0; i < 2000; i++) {
+        const snapshot = Array.from({ length: random(6) }, (_, j) => j);
+        const [left, right] = converge(
+          snapshot,
+          randomOp(snapshot),
+          randomOp(snapshot)
+        );
+        expect(left).toEqual(right);
+      }
+    });
+  });
+
+  describe("compose", () => {
+    it("should match applying ops one after the other", () => {
+      const opA: ListOp<Card> = [{ insert: 0, value: x }];
+      const opB: ListOp<Card> = [{ move: 0, to: 2 }, { delete: 0 }];
+      const composed = CardList.compose(opA, opB);
+      expect(CardList.apply([a, b], composed)).toEqual(
+        CardList.apply(CardList.apply([a, b], opA), opB)
+      );
+    });
+  });
+
+  describe("invert", () => {
+    it("should undo ops carrying removed values", () => {
+      const snapshot = [a, b, c];
+      const op: ListOp<Card> = [
+        { insert: 3, value: x },
+        { delete: 0, value: a },
+        { replace: 0, value: y, old: b },
+        { move: 2, to: 0 },
+      ];
+      const inverse = CardList.invert(op);
+      expect(CardList.apply(CardList.apply(snapshot, op), inverse)).toEqual(
+        snapshot
+      );
+    });
+
+    it("should require the snapshot for deletes without values", () => {
+      expect(() => CardList.invert([{ delete: 0 }])).toThrow(
+        /invertWithSnapshot/
+      );
+      expect(() => CardList.invert([{ replace: 0, value: x }])).toThrow(
+        /invertWithSnapshot/
+      );
+    });
+
+    it("should fill in removed values from the snapshot", () => {
+      const snapshot = [a, b, c];
+      const op: ListOp<Card> = [
+        { move: 0, to: 2 },
+        { delete: 0 },
+        { replace: 1, value: x },
+      ];
+      // Also works detached from the type, e.g. passed as a callback
+      const { invertWithSnapshot } = CardList;
+      const inverse = invertWithSnapshot(op, snapshot);
+      expect(CardList.apply(CardList.apply(snapshot, op), inverse)).toEqual(
+        snapshot
+      );
+    });
+  });
+});
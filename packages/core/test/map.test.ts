@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { MapOp, createMapType } from "../src/types/map";
+
+type Settings = string | number;
+const SettingsType = createMapType<Settings>();
+
+describe("MapType", () => {
+  it("should start empty", () => {
+    expect(SettingsType.create()).toEqual({});
+  });
+
+  it("should set and delete keys", () => {
+    const op: MapOp<Settings> = {
+      theme: { set: "dark" },
+      zoom: { delete: true },
+    };
+    expect(SettingsType.apply({ zoom: 2, lang: "en" }, op)).toEqual({
+      theme: "dark",
+      lang: "en",
+    });
+  });
+
+  it("should keep concurrent changes to different keys", () => {
+    const opA: MapOp<Settings> = { theme: { set: "dark" } };
+    const opB: MapOp<Settings> = { zoom: { set: 3 } };
+    expect(SettingsType.transform(opA, opB, "left")).toEqual(opA);
+  });
+
+  it("should let the right side win changes to the same key", () => {
+    const snapshot = { theme: "light" };
+    const opA: MapOp<Settings> = { theme: { set: "dark" }, zoom: { set: 1 } };
+    const opB: MapOp<Settings> = { theme: { delete: true } };
+
+    expect(SettingsType.transform(opA, opB, "left")).toEqual({
+      zoom: { set: 1 },
+    });
+    expect(SettingsType.transform(opB, opA, "right")).toEqual({
+      theme: { delete: true, before: { value: "dark" } },
+    });
+
+    const left = SettingsType.apply(
+      SettingsType.apply(snapshot, opA),
+      SettingsType.transform(opB, opA, "right")
+    );
+    const right = SettingsType.apply(
+      SettingsType.apply(snapshot, opB),
+      SettingsType.transform(opA, opB, "left")
+    );
+    expect(left).toEqual({ zoom: 1 });
+    expect(right).toEqual(left);
+  });
+
+  it("should compose changes key by key", () => {
+    const opA: MapOp<Settings> = {
+      theme: { set: "dark", before: null },
+      zoom: { set: 2 },
+    };
+    const opB: MapOp<Settings> = {
+      theme: { delete: true, before: { value: "dark" } },
+      lang: { set: "fr" },
+    };
+    expect(SettingsType.compose(opA, opB)).toEqual({
+      theme: { delete: true, before: null },
+      zoom: { set: 2 },
+      lang: { set: "fr" },
+    });
+  });
+
+  it("should invert ops carrying previous values", () => {
+    const snapshot = { theme: "light" };
+    const op: MapOp<Settings> = {
+      theme: { set: "dark", before: { value: "light" } },
+      zoom: { set: 2, before: null },
+    };
+    const inverse = SettingsType.invert(op);
+    expect(
+      SettingsType.apply(SettingsType.apply(snapshot, op), inverse)
+    ).toEqual(snapshot);
+  });
+
+  it("should fill in previous values from the snapshot", () => {
+    const snapshot = { theme: "light", zoom: 1 };
+    const op: MapOp<Settings> = {
+      theme: { delete: true },
+      lang: { set: "fr" },
+    };
+    expect(() => SettingsType.invert(op)).toThrow(/invertWithSnapshot/);
+
+    // Also works detached from the type, e.g. passed as a callback
+    const { invertWithSnapshot } = SettingsType;
+    const inverse = invertWithSnapshot(op, snapshot);
+    expect(
+      SettingsType.apply(SettingsType.apply(snapshot, op), inverse)
+    ).toEqual(snapshot);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import {
+  RegisterOp,
+  RegisterType,
+  createRegisterType,
+} from "../src/types/register";
+
+const Slide = createRegisterType(0);
+
+describe("RegisterType", () => {
+  it("should start with the initial value", () => {
+    expect(Slide.create()).toBe(0);
+    expect(RegisterType.create()).toBeNull();
+  });
+
+  it("should set the value", () => {
+    expect(Slide.apply(0, [{ set: 3 }])).toBe(3);
+    expect(Slide.apply(2, [])).toBe(2);
+  });
+
+  it("should let the right side win concurrent sets", () => {
+    const opA: RegisterOp<number> = [{ set: 1 }];
+    const opB: RegisterOp<number> = [{ set: 2 }];
+
+    expect(Slide.transform(opA, opB, "left")).toEqual([]);
+    expect(Slide.transform(opB, opA, "right")).toEqual([{ set: 2, old: 1 }]);
+
+    const left = Slide.apply(
+      Slide.apply(0, opA),
+      Slide.transform(opB, opA, "right")
+    );
+    const right = Slide.apply(
+      Slide.apply(0, opB),
+      Slide.transform(opA, opB, "left")
+    );
+    expect(left).toBe(2);
+    expect(right).toBe(left);
+  });
+
+  it("should keep a set that has nothing to conflict with", () => {
+    expect(Slide.transform([{ set: 1 }], [], "left")).toEqual([{ set: 1 }]);
+  });
+
+  it("should compose to the last set", () => {
+    expect(Slide.compose([{ set: 1, old: 0 }], [{ set: 2, old: 1 }])).toEqual([
+      { set: 2, old: 0 },
+    ]);
+    expect(Slide.compose([], [{ set: 2 }])).toEqual([{ set: 2 }]);
+  });
+
+  it("should invert sets carrying the old value", () => {
+    expect(Slide.invert([{ set: 2, old: 1 }])).toEqual([{ set: 1, old: 2 }]);
+    expect(() => Slide.invert([{ set: 2 }])).toThrow(/invertWithSnapshot/);
+    expect(Slide.invertWithSnapshot([{ set: 2 }], 1)).toEqual([
+      { set: 1, old: 2 },
+    ]);
+  });
+});
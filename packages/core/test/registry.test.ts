@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import { OTType } from "../src/interfaces";
+import { TypeRegistry, formatTypeName, parseTypeName } from "../src/registry";
+import { TextType } from "../src/types/text";
+import { CounterType } from "../src/types/counter";
+
+// Version 2 of the counter stores { count } instead of a bare number and
+// names its op field "add"
+const CounterV2: OTType<{ count: number }, { add: number }> = {
+  name: "counter@2",
+  create: () => ({ count: 0 }),
+  apply: (snapshot, op) => ({ count: snapshot.count + op.add }),
+  transform: (opA) => opA,
+  compose: (opA, opB) => ({ add: opA.add + opB.add }),
+};
+
+// Version 3 counts in cents
+const CounterV3: OTType<{ cents: number }, { add: number }> = {
+  name: "counter@3",
+  create: () => ({ cents: 0 }),
+  apply: (snapshot, op) => ({ cents: snapshot.cents + op.add }),
+  transform: CounterV2.transform,
+  compose: CounterV2.compose,
+};
+
+const registry = () =>
+  new TypeRegistry()
+    .register(CounterType)
+    .register(CounterV2, {
+      upgrade: {
+        snapshot: (count) => ({ count }),
+        op: (op) => ({ add: (op as { inc: number }).inc }),
+      },
+    })
+    .register(CounterV3, {
+      aliases: ["tally"],
+      upgrade: {
+        snapshot: (snapshot) => ({
+          cents: (snapshot as { count: number }).count * 100,
+        }),
+        op: (op) => ({ add: (op as { add: number }).add * 100 }),
+      },
+    });
+
+describe("TypeRegistry", () => {
+  it("should parse and format versioned type names", () => {
+    expect(parseTypeName("text")).toEqual({ name: "text", version: 1 });
+    expect(parseTypeName("text@2")).toEqual({ name: "text", version: 2 });
+    expect(parseTypeName("@scope/type@3")).toEqual({
+      name: "@scope/type",
+      version: 3,
+    });
+    expect(formatTypeName({ name: "text", version: 1 })).toBe("text");
+    expect(formatTypeName({ name: "text", version: 2 })).toBe("text@2");
+  });
+
+  it("should look up types by exact name and version", () => {
+    const types = registry().register(TextType);
+
+    expect(types.get("text")).toBe(TextType);
+    expect(types.get("counter")).toBe(CounterType);
+    expect(types.get("counter@2")).toBe(CounterV2);
+    expect(types.get("counter@1")).toBe(CounterType);
+    expect(types.get("counter@4")).toBeUndefined();
+    expect(types.has("json")).toBe(false);
+  });
+
+  it("should look up the latest version", () => {
+    expect(registry().latest("counter")).toBe(CounterV3);
+    expect(registry().latest("json")).toBeUndefined();
+  });
+
+  it("should resolve aliases", () => {
+    const types = registry().alias("score", "tally");
+
+    expect(types.get("tally")).toBe(CounterV3);
+    expect(types.get("score")).toBe(CounterV3);
+    expect(types.resolve("score")).toEqual({ name: "counter", version: 3 });
+  });
+
+  it("should reject aliases that refer to themselves", () => {
+    const types = new TypeRegistry().alias("a", "b").alias("b", "a");
+    expect(() => types.get("a")).toThrow("Alias a refers to itself");
+    expect(() => types.alias("c", "c")).toThrow();
+  });
+
+  it("should upgrade snapshots and ops through every version", () => {
+    const types = registry();
+
+    expect(types.upgradeSnapshot(5, "counter")).toEqual({ cents: 500 });
+    expect(types.upgradeSnapshot(5, "counter", "counter@2")).toEqual({
+      count: 5,
+    });
+    expect(types.upgradeOp({ inc: 2 }, "counter", "tally")).toEqual({
+      add: 200,
+    });
+    expect(types.upgradeOp({ add: 1 }, "counter@3")).toEqual({ add: 1 });
+  });
+
+  it("should keep data unchanged for versions without upgrade functions", () => {
+    const types = new TypeRegistry()
+      .register(CounterType)
+      .register({ ...CounterType, name: "counter@2" });
+
+    expect(types.upgradeOp({ inc: 1 }, "counter")).toEqual({ inc: 1 });
+  });
+
+  it("should refuse upgrades it can't do", () => {
+    const types = new TypeRegistry().register(CounterType).register(CounterV3);
+
+    expect(() => types.upgradeOp({ inc: 1 }, "counter")).toThrow(
+      "counter@2 is not registered"
+    );
+    expect(() => types.upgradeOp({ add: 1 }, "counter@3", "counter")).toThrow(
+      "Cannot downgrade"
+    );
+    expect(() => types.upgradeOp({}, "counter", "text")).toThrow(
+      "different type"
+    );
+    expect(() => types.upgradeOp({}, "json")).toThrow("Unknown type: json");
+  });
+});
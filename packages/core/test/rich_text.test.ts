@@ -0,0 +1,338 @@
+import { describe, it, expect } from "vitest";
+import {
+  RichTextType,
+  RichTextOperation,
+  RichTextSnapshot,
+  normalizeRich,
+} from "../src/types/rich-text";
+
+describe("RichTextType", () => {
+  describe("create", () => {
+    it("should create an empty document", () => {
+      expect(RichTextType.create()).toEqual([]);
+    });
+  });
+
+  describe("apply", () => {
+    it("should insert formatted text", () => {
+      const op: RichTextOperation = [
+        { i: "Hello", a: { bold: true } },
+        { i: " World" },
+      ];
+      expect(RichTextType.apply([], op)).toEqual([
+        { i: "Hello", a: { bold: true } },
+        { i: " World" },
+      ]);
+    });
+
+    it("should format a range with an attribute retain", () => {
+      const snapshot: RichTextSnapshot = [{ i: "Hello World" }];
+      const op: RichTextOperation = [{ r: 6 }, { r: 5, a: { italic: true } }];
+      expect(RichTextType.apply(snapshot, op)).toEqual([
+        { i: "Hello " },
+        { i: "World", a: { italic: true } },
+      ]);
+    });
+
+    it("should remove attributes set to null", () => {
+      const snapshot: RichTextSnapshot = [
+        { i: "Hello", a: { bold: true, italic: true } },
+      ];
+      const op: RichTextOperation = [{ r: 5, a: { bold: null } }];
+      expect(RichTextType.apply(snapshot, op)).toEqual([
+        { i: "Hello", a: { italic: true } },
+      ]);
+    });
+
+    it("should merge neighbours with equal attributes", () => {
+      const snapshot: RichTextSnapshot = [
+        { i: "ab", a: { bold: true } },
+        { i: "cd" },
+      ];
+      const op: RichTextOperation = [{ r: 2 }, { r: 2, a: { bold: true } }];
+      expect(RichTextType.apply(snapshot, op)).toEqual([
+        { i: "abcd", a: { bold: true } },
+      ]);
+    });
+
+    it("should insert and format embeds", () => {
+      const snapshot: RichTextSnapshot = [{ i: "ab" }];
+      const op: RichTextOperation = [
+        { r: 1 },
+        { i: { image: "cat.png" }, a: { width: 100 } },
+      ];
+      const result = RichTextType.apply(snapshot, op);
+      expect(result).toEqual([
+        { i: "a" },
+        { i: { image: "cat.png" }, a: { width: 100 } },
+        { i: "b" },
+      ]);
+
+      const resize: RichTextOperation = [{ r: 1 }, { r: 1, a: { width: 50 } }];
+      expect(RichTextType.apply(result, resize)[1]).toEqual({
+        i: { image: "cat.png" },
+        a: { width: 50 },
+      });
+    });
+
+    it("should delete across formatted pieces", () => {
+      const snapshot: RichTextSnapshot = [
+        { i: "ab", a: { bold: true } },
+        { i: "cd" },
+      ];
+      const op: RichTextOperation = [{ r: 1 }, { d: 2 }];
+      expect(RichTextType.apply(snapshot, op)).toEqual([
+        { i: "a", a: { bold: true } },
+        { i: "d" },
+      ]);
+    });
+
+    it("should throw when going past the end", () => {
+      expect(() => RichTextType.apply([{ i: "ab" }], [{ r: 3 }])).toThrow(
+        /past the end/
+      );
+    });
+
+    it("should reject deleted content that does not match", () => {
+      const op: RichTextOperation = [{ d: 2, s: [{ i: "ab" }] }];
+      expect(() =>
+        RichTextType.apply([{ i: "ab", a: { bold: true } }], op)
+      ).toThrow(/does not match/);
+    });
+  });
+
+  describe("compose", () => {
+    it("should apply a format change to an insert", () => {
+      const opA: RichTextOperation = [{ i: "Hello" }];
+      const opB: RichTextOperation = [{ r: 5, a: { bold: true } }];
+      expect(RichTextType.compose(opA, opB)).toEqual([
+        { i: "Hello", a: { bold: true } },
+      ]);
+    });
+
+    it("should combine format changes and keep removals", () => {
+      const opA: RichTextOperation = [{ r: 3, a: { bold: true } }];
+      const opB: RichTextOperation = [
+        { r: 3, a: { bold: null, italic: true } },
+      ];
+      expect(RichTextType.compose(opA, opB)).toEqual([
+        { r: 3, a: { bold: null, italic: true } },
+      ]);
+    });
+
+    it("should cancel an insert deleted right away", () => {
+      const opA: RichTextOperation = [{ i: "abc", a: { bold: true } }];
+      const opB: RichTextOperation = [{ r: 1 }, { d: 1 }];
+      expect(RichTextType.compose(opA, opB)).toEqual([
+        { i: "ac", a: { bold: true } },
+      ]);
+    });
+
+    it("should match applying ops one after the other", () => {
+      const snapshot: RichTextSnapshot = [{ i: "Hello World" }];
+      const opA: RichTextOperation = [
+        { r: 6, a: { bold: true } },
+        { d: 5 },
+        { i: "There" },
+      ];
+      const opB: RichTextOperation = [
+        { r: 3 },
+        { i: "!", a: { color: "red" } },
+        { r: 3, a: { bold: null } },
+      ];
+      const sequential = RichTextType.apply(
+        RichTextType.apply(snapshot, opA),
+        opB
+      );
+      const composed = RichTextType.apply(
+        snapshot,
+        RichTextType.compose(opA, opB)
+      );
+      expect(composed).toEqual(sequential);
+    });
+  });
+
+  describe("transform", () => {
+    it("should order concurrent inserts by side", () => {
+      const opA: RichTextOperation = [{ r: 1 }, { i: "A", a: { bold: true } }];
+      const opB: RichTextOperation = [{ r: 1 }, { i: "B" }];
+
+      expect(RichTextType.transform(opA, opB, "left")).toEqual([
+        { r: 1 },
+        { i: "A", a: { bold: true } },
+        { r: 1 },
+      ]);
+      expect(RichTextType.transform(opB, opA, "right")).toEqual([
+        { r: 2 },
+        { i: "B" },
+      ]);
+    });
+
+    it("should resolve conflicting formats in favour of the left side", () => {
+      const opA: RichTextOperation = [{ r: 3, a: { color: "red" } }];
+      const opB: RichTextOperation = [
+        { r: 3, a: { color: "blue", bold: true } },
+      ];
+
+      expect(RichTextType.transform(opA, opB, "left")).toEqual([
+        { r: 3, a: { color: "red" } },
+      ]);
+      expect(RichTextType.transform(opB, opA, "right")).toEqual([
+        { r: 3, a: { bold: true } },
+      ]);
+    });
+
+    it("should drop format changes on text deleted concurrently", () => {
+      const opA: RichTextOperation = [{ r: 4, a: { bold: true } }];
+      const opB: RichTextOperation = [{ r: 1 }, { d: 2 }, { r: 1 }];
+      expect(RichTextType.transform(opA, opB, "left")).toEqual([
+        { r: 2, a: { bold: true } },
+      ]);
+    });
+
+    it("should keep deleted content in sync with concurrent formats", () => {
+      const opA: RichTextOperation = [{ d: 2, s: [{ i: "ab" }] }];
+      const opB: RichTextOperation = [{ r: 2, a: { bold: true } }];
+      const aPrime = RichTextType.transform(opA, opB, "left");
+
+      expect(aPrime).toEqual([{ d: 2, s: [{ i: "ab", a: { bold: true } }] }]);
+      const formatted = RichTextType.apply([{ i: "ab" }], opB);
+      expect(RichTextType.apply(formatted, aPrime)).toEqual([]);
+    });
+
+    it("should converge for concurrent edits", () => {
+      const snapshot: RichTextSnapshot = [
+        { i: "Hello", a: { bold: true } },
+        { i: " World" },
+      ];
+      const cases: [RichTextOperation, RichTextOperation][] = [
+        [
+          [{ r: 2 }, { r: 6, a: { italic: true } }],
+          [{ r: 4 }, { d: 3 }, { i: "X", a: { bold: true } }],
+        ],
+        [
+          [{ r: 5, a: { bold: null } }, { i: "!" }],
+          [{ r: 3, a: { bold: false, color: "red" } }, { d: 2 }],
+        ],
+        [
+          [{ d: 11 }, { i: { image: "a.png" } }],
+          [{ r: 11 }, { i: "?" }],
+        ],
+      ];
+
+      for (const [opA, opB] of cases) {
+        const aPrime = RichTextType.transform(opA, opB, "left");
+        const bPrime = RichTextType.transform(opB, opA, "right");
+
+        const path1 = RichTextType.apply(
+          RichTextType.apply(snapshot, opA),
+          bPrime
+        );
+        const path2 = RichTextType.apply(
+          RichTextType.apply(snapshot, opB),
+          aPrime
+        );
+        expect(path1).toEqual(path2);
+      }
+    });
+  });
+
+  describe("invert", () => {
+    it("should invert inserts and deletes carrying content", () => {
+      const snapshot: RichTextSnapshot = [{ i: "abc", a: { bold: true } }];
+      const op: RichTextOperation = [
+        { r: 1 },
+        { d: 1, s: [{ i: "b", a: { bold: true } }] },
+        { i: "X" },
+      ];
+      const inverse = RichTextType.invert(op);
+
+      expect(inverse).toEqual([
+        { r: 1 },
+        { i: "b", a: { bold: true } },
+        { d: 1, s: [{ i: "X" }] },
+      ]);
+      expect(
+        RichTextType.apply(RichTextType.apply(snapshot, op), inverse)
+      ).toEqual(snapshot);
+    });
+
+    it("should require the snapshot for format changes", () => {
+      const op: RichTextOperation = [{ r: 2, a: { bold: true } }];
+      expect(() => RichTextType.invert(op)).toThrow(/invertWithSnapshot/);
+    });
+
+    it("should require the snapshot for deletes without content", () => {
+      expect(() => RichTextType.invert([{ d: 1 }])).toThrow(
+        /invertWithSnapshot/
+      );
+    });
+
+    it("should invert format changes using the snapshot", () => {
+      const snapshot: RichTextSnapshot = [
+        { i: "ab", a: { bold: true } },
+        { i: "cd", a: { color: "red" } },
+      ];
+      const op: RichTextOperation = [
+        { r: 4, a: { bold: true, color: "blue" } },
+        { i: "!" },
+      ];
+      const inverse = RichTextType.invertWithSnapshot(op, snapshot);
+
+      expect(inverse).toEqual([
+        { r: 2, a: { color: null } },
+        { r: 2, a: { bold: null, color: "red" } },
+        { d: 1, s: [{ i: "!" }] },
+      ]);
+      expect(
+        RichTextType.apply(RichTextType.apply(snapshot, op), inverse)
+      ).toEqual(snapshot);
+    });
+
+    it("should invert deletes using the snapshot", () => {
+      const snapshot: RichTextSnapshot = [
+        { i: "ab", a: { bold: true } },
+        { i: { image: "a.png" } },
+      ];
+      const op: RichTextOperation = [{ r: 1 }, { d: 2 }];
+      const inverse = RichTextType.invertWithSnapshot(op, snapshot);
+
+      expect(
+        RichTextType.apply(RichTextType.apply(snapshot, op), inverse)
+      ).toEqual(snapshot);
+    });
+  });
+
+  describe("transformCursor", () => {
+    it("should count embeds as one character", () => {
+      const op: RichTextOperation = [{ i: { image: "a.png" } }];
+      expect(RichTextType.transformCursor(0, op, "right")).toBe(1);
+      expect(RichTextType.transformCursor(0, op, "left")).toBe(0);
+    });
+  });
+
+  describe("normalizeRich", () => {
+    it("should merge components with equal attributes", () => {
+      const op: RichTextOperation = [
+        { r: 1, a: { bold: true } },
+        { r: 2, a: { bold: true } },
+        { i: "a" },
+        { i: "b", a: { bold: true } },
+        { i: "" },
+      ];
+      expect(normalizeRich(op)).toEqual([
+        { r: 3, a: { bold: true } },
+        { i: "a" },
+        { i: "b", a: { bold: true } },
+      ]);
+    });
+
+    it("should never merge embeds", () => {
+      const op: RichTextOperation = [
+        { i: { image: "a" } },
+        { i: { image: "a" } },
+      ];
+      expect(normalizeRich(op)).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect } from "vitest";
+import { Rope, RopeTextType, createRopeTextType } from "../src/types/rope-text";
+import { TextOperation, TextType } from "../src/types/text";
+import { deserializeSnapshot, serializeSnapshot } from "../src/serialize";
+
+let seed = 7;
+const random = (n: number) => {
+  seed = (Math.imul(seed, 1103515245) + 12345) & 0x7fffffff;
+  return (seed >>> 16) % n;
+};
+
+const randomText = (length: number) => {
+  let text = "";
+  for (let i = 0; i < length; i++) text += "abcdef \n"[random(8)];
+  return text;
+};
+
+// A random op spanning the whole document
+const randomOp = (length: number): TextOperation => {
+  const op: TextOperation = [];
+  let index = 0;
+  while (index < length) {
+    const n = 1 + random(Math.min(length - index, 700));
+    const kind = random(3);
+    if (kind === 0) {
+      op.push({ i: randomText(random(600)) });
+    } else {
+      op.push(kind === 1 ? { d: n } : { r: n });
+      index += n;
+    }
+  }
+  return op;
+};
+
+describe("Rope", () => {
+  it("should convert to and from strings", () => {
+    const text = randomText(5000);
+    expect(Rope.from(text).toString()).toBe(text);
+    expect(Rope.from(text).length).toBe(5000);
+    expect(Rope.empty.toString()).toBe("");
+    expect(JSON.stringify({ doc: Rope.from("hi") })).toBe('{"doc":"hi"}');
+  });
+
+  it("should insert, delete and slice like a string", () => {
+    let rope = Rope.from(randomText(3000));
+    let text = rope.toString();
+
+    for (let i = 0; i < 500; i++) {
+      const at = random(text.length + 1);
+      if (random(2) === 0) {
+        const inserted = randomText(random(2) === 0 ? 1 : random(1200));
+        rope = rope.insert(at, inserted);
+        text = text.slice(0, at) + inserted + text.slice(at);
+      } else {
+        const end = Math.min(text.length, at + random(800));
+        rope = rope.delete(at, end);
+        text = text.slice(0, at) + text.slice(end);
+      }
+      const start = random(text.length + 1);
+      expect(rope.slice(start, start + 100)).toBe(
+        text.slice(start, start + 100)
+      );
+    }
+    expect(rope.toString()).toBe(text);
+    expect(rope.length).toBe(text.length);
+  });
+
+  it("should leave the original rope unchanged", () => {
+    const rope = Rope.from("Hello World");
+    rope.insert(5, ",").delete(0, 2);
+    expect(rope.toString()).toBe("Hello World");
+  });
+
+  it("should throw for indexes out of bounds", () => {
+    expect(() => Rope.from("abc").insert(4, "x")).toThrow(
+      "Index 4 is out of bounds"
+    );
+    expect(() => Rope.from("abc").delete(-1, 2)).toThrow();
+  });
+});
+
+describe("RopeTextType", () => {
+  it("should use the same name and wire format as TextType", () => {
+    expect(RopeTextType.name).toBe(TextType.name);
+    const result = RopeTextType.apply(Rope.from("Hello World"), [
+      { r: 6 },
+      { i: "Beautiful " },
+      { r: 5 },
+    ]);
+    expect(result.toString()).toBe("Hello Beautiful World");
+  });
+
+  it("should apply ops like TextType", () => {
+    for (let i = 0; i < 200; i++) {
+      const text = randomText(random(3000));
+      const op = randomOp(text.length);
+      expect(RopeTextType.apply(Rope.from(text), op).toString()).toBe(
+        TextType.apply(text, op)
+      );
+    }
+  });
+
+  it("should keep text an op doesn't traverse unless strict", () => {
+    const op: TextOperation = [{ r: 2 }, { i: "!" }];
+    expect(RopeTextType.apply(Rope.from("Hello"), op).toString()).toBe(
+      "He!llo"
+    );
+    expect(() =>
+      createRopeTextType({ strict: true }).apply(Rope.from("Hello"), op)
+    ).toThrow("Operation base length 2 does not match snapshot length 5");
+  });
+
+  it("should reject ops that don't fit the snapshot", () => {
+    const rope = Rope.from("a😀b");
+    expect(() => RopeTextType.apply(rope, [{ r: 5 }])).toThrow(
+      "Operation goes past the end of the string"
+    );
+    expect(() => RopeTextType.apply(rope, [{ r: 2 }, { i: "x" }])).toThrow(
+      "Operation splits a surrogate pair at index 2"
+    );
+    expect(() => RopeTextType.apply(rope, [{ d: 1, s: "b" }])).toThrow(
+      "Deleted text does not match snapshot at index 0"
+    );
+    expect(() => RopeTextType.apply(rope, [{ i: "\ud83d" }])).toThrow(
+      "Insert contains an unpaired surrogate"
+    );
+  });
+
+  it("should converge with TextType peers", () => {
+    const text = randomText(2000);
+    const opA = randomOp(text.length);
+    const opB = randomOp(text.length);
+
+    const ropeResult = RopeTextType.apply(
+      RopeTextType.apply(Rope.from(text), opA),
+      RopeTextType.transform(opB, opA, "right")
+    );
+    const stringResult = TextType.apply(
+      TextType.apply(text, opB),
+      TextType.transform(opA, opB, "left")
+    );
+    expect(ropeResult.toString()).toBe(stringResult);
+  });
+
+  it("should invert ops with the snapshot", () => {
+    const rope = Rope.from(randomText(2000));
+    const op = randomOp(rope.length);
+    const inverse = RopeTextType.invertWithSnapshot(op, rope);
+    const result = RopeTextType.apply(RopeTextType.apply(rope, op), inverse);
+    expect(result.toString()).toBe(rope.toString());
+  });
+
+  it("should invert like TextType", () => {
+    const text = randomText(2000);
+    const op = randomOp(text.length);
+    expect(RopeTextType.invertWithSnapshot(op, Rope.from(text))).toEqual(
+      TextType.invertWithSnapshot(op, text)
+    );
+
+    // Both read the deleted text with attachDeletedText, bounds checks too
+    const error =
+      "Operation goes past the end of the string. Index: 0, Retain: 6, Snapshot Length: 5";
+    expect(() => TextType.invertWithSnapshot([{ r: 6 }], "Hello")).toThrow(
+      error
+    );
+    expect(() =>
+      RopeTextType.invertWithSnapshot([{ r: 6 }], Rope.from("Hello"))
+    ).toThrow(error);
+  });
+
+  it("should store snapshots as strings", () => {
+    const rope = RopeTextType.apply(RopeTextType.create(), [{ i: "Hello" }]);
+    const stored = serializeSnapshot(RopeTextType, rope);
+    expect(stored).toBe("Hello");
+    // Documents stored by TextType load as ropes, and the other way round
+    expect(TextType.apply(stored as string, [{ r: 5 }, { i: "!" }])).toBe(
+      "Hello!"
+    );
+    expect(deserializeSnapshot(RopeTextType, "Hi").toString()).toBe("Hi");
+    expect(() => deserializeSnapshot(RopeTextType, 1)).toThrow(
+      "Stored snapshot must be a string"
+    );
+  });
+
+  it("should edit large documents one keystroke at a time", () => {
+    let rope = Rope.from(randomText(2_000_000));
+    const text = rope.toString();
+    for (let i = 0; i < 5000; i++) {
+      rope = RopeTextType.apply(rope, [{ r: 1_000_000 + i }, { i: "x" }]);
+    }
+    expect(rope.length).toBe(2_005_000);
+    expect(rope.slice(999_999, 1_005_001)).toBe(
+      text[999_999] + "x".repeat(5000) + text[1_000_000]
+    );
+  });
+});
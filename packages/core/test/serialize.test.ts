@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { OTType } from "../src/interfaces";
+import {
+  deserializeOp,
+  deserializeSnapshot,
+  serializeOp,
+  serializeSnapshot,
+} from "../src/serialize";
+import { TextType } from "../src/types/text";
+
+// A set of tags, which JSON.stringify would turn into {}
+const TagsType: OTType<Set<string>, { add: Set<string> }> = {
+  name: "tags",
+  create: () => new Set(),
+  apply: (snapshot, op) => new Set([...snapshot, ...op.add]),
+  transform: (opA) => opA,
+  compose: (opA, opB) => ({ add: new Set([...opA.add, ...opB.add]) }),
+  serializeSnapshot: (snapshot) => [...snapshot].sort(),
+  deserializeSnapshot: (data) => new Set(data as string[]),
+  serializeOp: (op) => ({ add: [...op.add].sort() }),
+  deserializeOp: (data) => ({ add: new Set((data as { add: string[] }).add) }),
+};
+
+describe("serialize", () => {
+  it("should round-trip snapshots and ops through JSON", () => {
+    const snapshot = new Set(["b", "a"]);
+    const stored = JSON.stringify(serializeSnapshot(TagsType, snapshot));
+    expect(stored).toBe('["a","b"]');
+    expect(deserializeSnapshot(TagsType, JSON.parse(stored))).toEqual(snapshot);
+
+    const op = { add: new Set(["c"]) };
+    const sent = JSON.stringify(serializeOp(TagsType, op));
+    expect(sent).toBe('{"add":["c"]}');
+    expect(deserializeOp(TagsType, JSON.parse(sent))).toEqual(op);
+  });
+
+  it("should leave data unchanged for types without hooks", () => {
+    const op = [{ r: 1 }, { i: "x" }];
+    expect(serializeSnapshot(TextType, "Hello")).toBe("Hello");
+    expect(deserializeSnapshot(TextType, "Hello")).toBe("Hello");
+    expect(serializeOp(TextType, op)).toBe(op);
+    expect(deserializeOp(TextType, op)).toBe(op);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import * as json1 from "ot-json1";
+import { Random, checkType, createRandom } from "../src/testing";
+import {
+  TextOperation,
+  TextType,
+  createTextType,
+  normalize,
+} from "../src/types/text";
+import { Rope, RopeTextType } from "../src/types/rope-text";
+import { JsonType, textEditOp } from "../src/types/json";
+
+// A random op spanning some or all of text
+const textOp = (random: Random, text: string): TextOperation => {
+  const op: TextOperation = [];
+  let index = 0;
+  for (let i = random.int(5); i > 0; i--) {
+    const remaining = text.length - index;
+    const kind = remaining === 0 ? 0 : random.int(3);
+    if (kind === 0) {
+      op.push({ i: random.string(4, "abc") });
+    } else {
+      const n = 1 + random.int(remaining);
+      op.push(kind === 1 ? { r: n } : { d: n });
+      index += n;
+    }
+  }
+  return op;
+};
+
+interface Doc {
+  title: string;
+  items: number[];
+}
+
+// JsonType rejects concurrent writes to the same key, so ops only edit text
+// and lists
+const jsonOp = (random: Random, snapshot: unknown) => {
+  const doc = snapshot as Doc;
+  const n = doc.items.length;
+  const kind = n === 0 ? random.int(2) : random.int(4);
+  if (kind === 0) {
+    return textEditOp(["title"], textOp(random, doc.title));
+  }
+  if (kind === 1) {
+    return json1.insertOp(["items", random.int(n + 1)], random.int(10));
+  }
+  if (kind === 2) {
+    return json1.removeOp(["items", random.int(n)]);
+  }
+  return json1.moveOp(["items", random.int(n)], ["items", random.int(n)]);
+};
+
+describe("checkType", () => {
+  it("should pass for TextType", () => {
+    checkType(TextType, { op: textOp, normalize });
+  });
+
+  it("should pass for RopeTextType", () => {
+    checkType(RopeTextType, {
+      op: (random, snapshot) => textOp(random, snapshot.toString()),
+      snapshot: (random) => Rope.from(random.string(20, "xyz")),
+      normalize,
+    });
+  });
+
+  it("should pass for JsonType", () => {
+    checkType(JsonType, {
+      op: jsonOp,
+      snapshot: (random) => ({
+        title: random.string(6),
+        items: Array.from({ length: random.int(4) }, (_, i) => i),
+      }),
+      normalize: json1.type.normalize,
+    });
+  });
+
+  it("should report the smallest failing case", () => {
+    // Both sides win ties, so concurrent inserts at the same place diverge
+    const text = createTextType();
+    const Broken = {
+      ...text,
+      transform: (opA: TextOperation, opB: TextOperation) =>
+        text.transform(opA, opB, "left"),
+    };
+
+    expect(() =>
+      checkType(Broken, { op: textOp, checks: ["transform"] })
+    ).toThrow(
+      [
+        "Type text failed the transform check (seed 1, run 3):",
+        `  Transformed ops don't converge: "ab" differs from "ba"`,
+        `  snapshot: ""`,
+        `  op 1: [{"i":"b"}]`,
+        `  op 2: [{"i":"a"}]`,
+      ].join("\n")
+    );
+  });
+
+  it("should report ops that throw", () => {
+    expect(() =>
+      checkType(TextType, {
+        op: () => [{ r: 1 }],
+        snapshot: () => "",
+        checks: ["invert"],
+      })
+    ).toThrow(/Threw Operation goes past the end of the string/);
+  });
+});
+
+describe("createRandom", () => {
+  const draws = (seed: number, count: number) => {
+    const random = createRandom(seed);
+    return Array.from({ length: count }, () => random.int(1 << 15));
+  };
+
+  it("should not repeat within a long run", () => {
+    // Once a generator cycles, every run of draws has been seen before
+    const values = draws(1, 100_000);
+    const runs = new Set<string>();
+    for (let i = 0; i + 4 <= values.length; i++) {
+      runs.add(values.slice(i, i + 4).join());
+    }
+    expect(runs.size).toBe(values.length - 3);
+  });
+
+  it("should give different sequences for different seeds", () => {
+    const sequences = new Set(
+      [1, 2, 3, 4, 5, 42, 1000].map((seed) => draws(seed, 20).join())
+    );
+    expect(sequences.size).toBe(7);
+  });
+
+  it("should give the same sequence for the same seed", () => {
+    expect(draws(7, 20)).toEqual(draws(7, 20));
+  });
+});
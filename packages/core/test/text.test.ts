@@ -1,5 +1,10 @@
 import { describe, it, expect } from "vitest";
-import { TextType, TextOperation, normalize } from "../src/types/text";
+import {
+  TextType,
+  TextOperation,
+  normalize,
+  attachDeletedText,
+} from "../src/types/text";
 
 describe("TextType", () => {
   describe("apply", () => {
@@ -171,6 +176,157 @@ describe("TextType", () => {
     });
   });
 
+  describe("invert", () => {
+    it("should invert inserts into deletes carrying the text", () => {
+      const op: TextOperation = [{ r: 5 }, { i: " World" }];
+      expect(TextType.invert(op)).toEqual([{ r: 5 }, { d: 6, s: " World" }]);
+    });
+
+    it("should invert deletes that carry their text", () => {
+      const op: TextOperation = [{ r: 1 }, { d: 1, s: "e" }, { r: 3 }];
+      expect(TextType.invert(op)).toEqual([{ r: 1 }, { i: "e" }, { r: 3 }]);
+    });
+
+    it("should round-trip through apply", () => {
+      const snapshot = "Hello World";
+      const op: TextOperation = [
+        { r: 2 },
+        { i: "y" },
+        { d: 2, s: "ll" },
+        { r: 1 },
+        { d: 6, s: " World" },
+      ];
+      const applied = TextType.apply(snapshot, op);
+      expect(applied).toBe("Heyo");
+      expect(TextType.apply(applied, TextType.invert(op))).toBe(snapshot);
+    });
+
+    it("should throw when a delete does not carry its text", () => {
+      const op: TextOperation = [{ d: 2 }];
+      expect(() => TextType.invert(op)).toThrow(/invertWithSnapshot/);
+    });
+
+    it("should invert plain deletes using the snapshot", () => {
+      const snapshot = "Hello";
+      const op: TextOperation = [{ r: 1 }, { d: 3 }, { i: "ipp" }];
+      const inverse = TextType.invertWithSnapshot(op, snapshot);
+
+      expect(inverse).toEqual([{ r: 1 }, { i: "ell" }, { d: 3, s: "ipp" }]);
+      expect(TextType.apply(TextType.apply(snapshot, op), inverse)).toBe(
+        snapshot
+      );
+    });
+
+    it("should attach deleted text from a snapshot", () => {
+      const op: TextOperation = [{ r: 1 }, { d: 2 }, { r: 2 }];
+      expect(attachDeletedText(op, "Hello")).toEqual([
+        { r: 1 },
+        { d: 2, s: "el" },
+        { r: 2 },
+      ]);
+    });
+
+    it("should reject deletes whose text does not match the snapshot", () => {
+      const op: TextOperation = [{ d: 2, s: "xx" }];
+      expect(() => TextType.apply("Hello", op)).toThrow(/does not match/);
+    });
+
+    it("should keep deleted text through transform", () => {
+      const opA: TextOperation = [{ d: 4, s: "abcd" }];
+      const opB: TextOperation = [{ r: 2 }, { i: "X" }, { r: 2 }];
+
+      const aPrime = TextType.transform(opA, opB, "left");
+      expect(aPrime).toEqual([{ d: 2, s: "ab" }, { r: 1 }, { d: 2, s: "cd" }]);
+
+      const result = TextType.apply("abXcd", aPrime);
+      expect(TextType.apply(result, TextType.invert(aPrime))).toBe("abXcd");
+    });
+
+    it("should keep deleted text through compose", () => {
+      const opA: TextOperation = [{ r: 1 }, { d: 1, s: "b" }, { r: 2 }];
+      const opB: TextOperation = [{ d: 1, s: "a" }, { r: 2 }];
+
+      const composed = TextType.compose(opA, opB);
+      expect(composed).toEqual([{ d: 2, s: "ab" }, { r: 2 }]);
+      expect(TextType.apply("cd", TextType.invert(composed))).toBe("abcd");
+    });
+
+    it("should drop deleted text when merging with a plain delete", () => {
+      const op: TextOperation = [{ d: 1, s: "a" }, { d: 1 }];
+      expect(normalize(op)).toEqual([{ d: 2 }]);
+    });
+  });
+
+  describe("transformCursor", () => {
+    it("should shift a cursor after an earlier insert", () => {
+      const op: TextOperation = [{ r: 1 }, { i: "abc" }, { r: 4 }];
+      expect(TextType.transformCursor(3, op, "left")).toBe(6);
+    });
+
+    it("should not move a cursor for a later insert", () => {
+      const op: TextOperation = [{ r: 4 }, { i: "abc" }, { r: 1 }];
+      expect(TextType.transformCursor(3, op, "left")).toBe(3);
+    });
+
+    it("should break ties at the cursor position using side", () => {
+      const op: TextOperation = [{ r: 3 }, { i: "abc" }, { r: 2 }];
+      expect(TextType.transformCursor(3, op, "left")).toBe(3);
+      expect(TextType.transformCursor(3, op, "right")).toBe(6);
+    });
+
+    it("should pull a cursor back over an earlier delete", () => {
+      const op: TextOperation = [{ d: 2 }, { r: 3 }];
+      expect(TextType.transformCursor(4, op, "left")).toBe(2);
+    });
+
+    it("should collapse a cursor inside a deleted range to its start", () => {
+      const op: TextOperation = [{ r: 1 }, { d: 3 }, { r: 1 }];
+      expect(TextType.transformCursor(3, op, "right")).toBe(1);
+    });
+
+    it("should agree with transform of an insert at the cursor", () => {
+      const ops: TextOperation[] = [
+        [{ r: 2 }, { i: "XY" }, { r: 8 }],
+        [{ r: 5 }, { d: 3 }, { r: 2 }],
+        [{ d: 4 }, { i: "ab" }, { r: 6 }],
+        [{ r: 3 }, { i: "Q" }, { d: 2 }, { r: 5 }],
+      ];
+
+      for (const op of ops) {
+        for (let cursor = 0; cursor <= 10; cursor++) {
+          for (const side of ["left", "right"] as const) {
+            const marker: TextOperation = [{ r: cursor }, { i: "|" }];
+            const transformed = TextType.transform(marker, op, side);
+            const first = transformed[0]!;
+            const expected = "r" in first ? first.r : 0;
+            expect(TextType.transformCursor(cursor, op, side)).toBe(expected);
+          }
+        }
+      }
+    });
+  });
+
+  describe("transformSelection", () => {
+    it("should transform both ends of a selection", () => {
+      const op: TextOperation = [{ i: "ab" }, { r: 3 }, { d: 2 }, { r: 5 }];
+      expect(TextType.transformSelection({ anchor: 1, head: 6 }, op)).toEqual({
+        anchor: 3,
+        head: 6,
+      });
+    });
+
+    it("should default to moving collapsed cursors after inserts", () => {
+      const op: TextOperation = [{ r: 2 }, { i: "x" }];
+      expect(TextType.transformSelection({ anchor: 2, head: 2 }, op)).toEqual({
+        anchor: 3,
+        head: 3,
+      });
+      expect(
+        TextType.transformSelection({ anchor: 2, head: 2 }, op, "left")
+      ).toEqual({ anchor: 2, head: 2 });
+    });
+  });
+
   describe("normalize", () => {
     it("should merge consecutive retains", () => {
       const op: TextOperation = [{ r: 1 }, { r: 2 }];
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import {
+  TextOperation,
+  TextType,
+  baseLength,
+  createTextType,
+  targetLength,
+} from "../src/types/text";
+
+describe("baseLength / targetLength", () => {
+  it("should measure the documents an op spans", () => {
+    const op: TextOperation = [{ r: 2 }, { i: "abc" }, { d: 3 }, { r: 1 }];
+    expect(baseLength(op)).toBe(6);
+    expect(targetLength(op)).toBe(6);
+  });
+
+  it("should measure inserts in the given unit", () => {
+    const op: TextOperation = [{ i: "😀" }];
+    expect(targetLength(op)).toBe(2);
+    expect(targetLength(op, "codepoint")).toBe(1);
+  });
+});
+
+describe("createTextType({ strict: true })", () => {
+  const StrictText = createTextType({ strict: true });
+
+  it("should keep the default type name", () => {
+    expect(StrictText.name).toBe(TextType.name);
+  });
+
+  it("should apply ops that span the whole snapshot", () => {
+    const op: TextOperation = [{ r: 5 }, { i: " World" }];
+    expect(StrictText.apply("Hello", op)).toBe("Hello World");
+  });
+
+  it("should reject ops shorter than the snapshot", () => {
+    const op: TextOperation = [{ r: 2 }, { i: "!" }];
+    expect(() => StrictText.apply("Hello", op)).toThrow(
+      "Operation base length 2 does not match snapshot length 5"
+    );
+    // The lenient type still appends the untraversed text
+    expect(TextType.apply("Hello", op)).toBe("He!llo");
+  });
+
+  it("should reject transforming ops with different base lengths", () => {
+    const opA: TextOperation = [{ r: 5 }, { i: "A" }];
+    const opB: TextOperation = [{ r: 3 }, { i: "B" }];
+    expect(() => StrictText.transform(opA, opB, "left")).toThrow(
+      /different base lengths/
+    );
+  });
+
+  it("should transform ops with matching base lengths", () => {
+    const opA: TextOperation = [{ r: 5 }, { i: "A" }];
+    const opB: TextOperation = [{ r: 3 }, { i: "B" }, { r: 2 }];
+    expect(StrictText.transform(opA, opB, "left")).toEqual([
+      { r: 6 },
+      { i: "A" },
+    ]);
+  });
+
+  it("should reject composing ops whose lengths don't line up", () => {
+    const opA: TextOperation = [{ r: 5 }, { i: "A" }];
+    const opB: TextOperation = [{ r: 5 }, { i: "B" }];
+    expect(() => StrictText.compose(opA, opB)).toThrow(
+      "Cannot compose operations: target length 6 does not match base length 5"
+    );
+  });
+
+  it("should compose ops whose lengths line up", () => {
+    const opA: TextOperation = [{ r: 5 }, { i: "A" }];
+    const opB: TextOperation = [{ r: 6 }, { i: "B" }];
+    expect(StrictText.compose(opA, opB)).toEqual([{ r: 5 }, { i: "AB" }]);
+  });
+});
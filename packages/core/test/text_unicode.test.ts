@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import {
+  TextType,
+  TextOperation,
+  createTextType,
+  getLength,
+} from "../src/types/text";
+import { diffToTextOperation } from "../src/diff";
+
+// "😀" is a single code point made of two UTF-16 code units
+const emoji = "😀";
+
+describe("TextType (utf16)", () => {
+  it("should count emoji as two units", () => {
+    expect(getLength({ i: emoji })).toBe(2);
+    expect(TextType.apply(`a${emoji}b`, [{ r: 3 }, { i: "!" }])).toBe(
+      `a${emoji}!b`
+    );
+  });
+
+  it("should reject retains that split a surrogate pair", () => {
+    const op: TextOperation = [{ r: 2 }, { i: "x" }];
+    expect(() => TextType.apply(`a${emoji}b`, op)).toThrow(
+      /splits a surrogate pair/
+    );
+  });
+
+  it("should reject deletes that split a surrogate pair", () => {
+    const op: TextOperation = [{ r: 1 }, { d: 1 }];
+    expect(() => TextType.apply(`a${emoji}b`, op)).toThrow(
+      /splits a surrogate pair/
+    );
+  });
+
+  it("should reject inserts with unpaired surrogates", () => {
+    const op: TextOperation = [{ i: "\ud83d" }];
+    expect(() => TextType.apply("", op)).toThrow(/unpaired surrogate/);
+  });
+});
+
+describe("createTextType({ unit: 'codepoint' })", () => {
+  const CodePointText = createTextType({ unit: "codepoint" });
+
+  it("should use a distinct type name", () => {
+    expect(CodePointText.name).toBe("text-codepoint");
+    expect(TextType.name).toBe("text");
+  });
+
+  it("should count emoji as one unit", () => {
+    expect(getLength({ i: `${emoji}${emoji}` }, "codepoint")).toBe(2);
+    const op: TextOperation = [{ r: 2 }, { i: "!" }];
+    expect(CodePointText.apply(`a${emoji}b`, op)).toBe(`a${emoji}!b`);
+  });
+
+  it("should delete whole code points", () => {
+    const op: TextOperation = [{ r: 1 }, { d: 1, s: emoji }, { r: 1 }];
+    expect(CodePointText.apply(`a${emoji}b`, op)).toBe("ab");
+  });
+
+  it("should report lengths in code points when out of bounds", () => {
+    const op: TextOperation = [{ r: 4 }];
+    expect(() => CodePointText.apply(`a${emoji}b`, op)).toThrow(
+      /Snapshot Length: 3/
+    );
+  });
+
+  it("should transform inserts by code point length", () => {
+    const opA: TextOperation = [{ i: `${emoji}${emoji}` }, { r: 2 }];
+    const opB: TextOperation = [{ r: 1 }, { i: "x" }, { r: 1 }];
+
+    const bPrime = CodePointText.transform(opB, opA, "right");
+    expect(bPrime).toEqual([{ r: 3 }, { i: "x" }, { r: 1 }]);
+
+    const snapshot = "ab";
+    const left = CodePointText.apply(
+      CodePointText.apply(snapshot, opA),
+      bPrime
+    );
+    const aPrime = CodePointText.transform(opA, opB, "left");
+    const right = CodePointText.apply(
+      CodePointText.apply(snapshot, opB),
+      aPrime
+    );
+    expect(left).toBe(`${emoji}${emoji}axb`);
+    expect(right).toBe(left);
+  });
+
+  it("should compose without splitting emoji in inserts", () => {
+    const opA: TextOperation = [{ i: `${emoji}a${emoji}` }];
+    const opB: TextOperation = [{ r: 1 }, { d: 1 }, { r: 1 }];
+    expect(CodePointText.compose(opA, opB)).toEqual([
+      { i: `${emoji}${emoji}` },
+    ]);
+  });
+
+  it("should invert using code point lengths", () => {
+    const snapshot = `a${emoji}b`;
+    const op: TextOperation = [{ r: 1 }, { d: 1 }, { i: `${emoji}!` }];
+    const inverse = CodePointText.invertWithSnapshot(op, snapshot);
+
+    expect(inverse).toEqual([{ r: 1 }, { i: emoji }, { d: 2, s: `${emoji}!` }]);
+    expect(
+      CodePointText.apply(CodePointText.apply(snapshot, op), inverse)
+    ).toBe(snapshot);
+  });
+
+  it("should transform cursors by code point length", () => {
+    const op: TextOperation = [{ i: emoji }];
+    expect(CodePointText.transformCursor(0, op, "right")).toBe(1);
+    expect(TextType.transformCursor(0, op, "right")).toBe(2);
+  });
+});
+
+describe("diffToTextOperation with surrogate pairs", () => {
+  it("should not split emoji sharing a high surrogate", () => {
+    // "😀" and "😁" share the same high surrogate
+    const op = diffToTextOperation("x😀", "x😁");
+    expect(op).toEqual([{ r: 1 }, { d: 2 }, { i: "😁" }]);
+    expect(TextType.apply("x😀", op)).toBe("x😁");
+  });
+
+  it("should produce code point counts for the codepoint unit", () => {
+    const CodePointText = createTextType({ unit: "codepoint" });
+    const before = `${emoji}ab`;
+    const after = `${emoji}a${emoji}b`;
+
+    const op = diffToTextOperation(before, after, 3, "codepoint");
+    expect(op).toEqual([{ r: 2 }, { i: emoji }, { r: 1 }]);
+    expect(CodePointText.apply(before, op)).toBe(after);
+  });
+});
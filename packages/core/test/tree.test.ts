@@ -0,0 +1,193 @@
+import { describe, it, expect } from "vitest";
+import {
+  TreeNode,
+  TreeOp,
+  TreeType,
+  deleteNode,
+  editNodeText,
+  getNode,
+  insertNode,
+  moveNode,
+  removeAttribute,
+  setAttribute,
+} from "../src/types/tree";
+
+const paragraph = (text: string, attrs = {}): TreeNode => ({
+  type: "paragraph",
+  attrs,
+  text,
+});
+
+const doc = (): TreeNode => ({
+  type: "root",
+  attrs: {},
+  children: [
+    { type: "heading", attrs: { level: 1 }, text: "Title" },
+    {
+      type: "list",
+      attrs: {},
+      children: [paragraph("one"), paragraph("two")],
+    },
+    paragraph("Hello"),
+  ],
+});
+
+// Apply a and b concurrently to snapshot, as the server would
+function converge(snapshot: TreeNode, a: TreeOp, b: TreeOp) {
+  const left = TreeType.apply(
+    TreeType.apply(snapshot, a),
+    TreeType.transform(b, a, "right")
+  );
+  const right = TreeType.apply(
+    TreeType.apply(snapshot, b),
+    TreeType.transform(a, b, "left")
+  );
+  expect(left).toEqual(right);
+  return left;
+}
+
+describe("TreeType", () => {
+  it("should create an empty root", () => {
+    expect(TreeType.create()).toEqual({
+      type: "root",
+      attrs: {},
+      children: [],
+    });
+  });
+
+  it("should insert, delete and move nodes", () => {
+    let result = TreeType.apply(doc(), insertNode([1, 1], paragraph("new")));
+    expect(getNode(result, [1]).children?.map((n) => n.text)).toEqual([
+      "one",
+      "new",
+      "two",
+    ]);
+
+    result = TreeType.apply(result, deleteNode([0]));
+    expect(getNode(result, [0]).type).toBe("list");
+
+    result = TreeType.apply(result, moveNode([1], [0, 0]));
+    expect(result.children).toHaveLength(1);
+    expect(getNode(result, [0, 0]).text).toBe("Hello");
+  });
+
+  it("should set and remove attributes", () => {
+    let result = TreeType.apply(doc(), setAttribute([2], "align", "center"));
+    expect(getNode(result, [2]).attrs).toEqual({ align: "center" });
+
+    result = TreeType.apply(result, setAttribute([0], "level", 2, 1));
+    expect(getNode(result, [0]).attrs).toEqual({ level: 2 });
+
+    result = TreeType.apply(result, removeAttribute([2], "align"));
+    expect(getNode(result, [2]).attrs).toEqual({});
+  });
+
+  it("should edit the text of a node", () => {
+    const op = editNodeText([1, 0], [{ r: 3 }, { i: "!" }]);
+    expect(getNode(TreeType.apply(doc(), op), [1, 0]).text).toBe("one!");
+  });
+
+  it("should throw for paths that do not exist", () => {
+    expect(() => getNode(doc(), [5])).toThrow("No node at path [5]");
+  });
+
+  it("should reject ops that replace the root with a non-node", () => {
+    expect(() => TreeType.apply(doc(), [{ r: true, i: "text" }])).toThrow(
+      "Operation does not produce a valid tree root"
+    );
+  });
+});
+
+describe("TreeType transform", () => {
+  it("should merge concurrent text edits to the same node", () => {
+    const a = editNodeText([2], [{ i: ">> " }, { r: 5 }]);
+    const b = editNodeText([2], [{ r: 5 }, { i: " world" }]);
+
+    expect(getNode(converge(doc(), a, b), [2]).text).toBe(">> Hello world");
+  });
+
+  it("should keep text edits when another node is inserted before", () => {
+    const a = editNodeText([1, 1], [{ r: 3 }, { i: "!" }]);
+    const b = insertNode([1, 0], paragraph("zero"));
+
+    const result = converge(doc(), a, b);
+    expect(getNode(result, [1]).children?.map((n) => n.text)).toEqual([
+      "zero",
+      "one",
+      "two!",
+    ]);
+  });
+
+  it("should follow a moved node with text edits", () => {
+    const a = moveNode([2], [0]);
+    const b = editNodeText([2], [{ r: 5 }, { i: "!" }]);
+
+    expect(getNode(converge(doc(), a, b), [0]).text).toBe("Hello!");
+  });
+
+  it("should drop edits to a deleted node", () => {
+    const a = deleteNode([1]);
+    const b = editNodeText([1, 0], [{ r: 3 }, { i: "!" }]);
+
+    const result = converge(doc(), a, b);
+    expect(result.children?.map((n) => n.type)).toEqual([
+      "heading",
+      "paragraph",
+    ]);
+  });
+
+  it("should keep the left value for concurrent attribute sets", () => {
+    const a = setAttribute([0], "level", 2, 1);
+    const b = setAttribute([0], "level", 3, 1);
+
+    const left = TreeType.apply(
+      TreeType.apply(doc(), a),
+      TreeType.transform(b, a, "right")
+    );
+    const right = TreeType.apply(
+      TreeType.apply(doc(), b),
+      TreeType.transform(a, b, "left")
+    );
+    expect(getNode(left, [0]).attrs.level).toBe(2);
+    expect(right).toEqual(left);
+  });
+
+  it("should converge when both sides move the same node", () => {
+    const a = moveNode([2], [0]);
+    const b = moveNode([2], [1, 0]);
+
+    const result = converge(doc(), a, b);
+    expect(getNode(result, [0]).text).toBe("Hello");
+    expect(result.children).toHaveLength(3);
+  });
+
+  it("should converge when both sides delete the same node", () => {
+    const result = converge(doc(), deleteNode([0]), deleteNode([0]));
+    expect(result.children).toHaveLength(2);
+  });
+});
+
+describe("TreeType invert", () => {
+  it("should undo an insert and a move", () => {
+    const op = TreeType.compose(
+      insertNode([0], paragraph("first")),
+      moveNode([3], [1])
+    );
+    const result = TreeType.apply(doc(), op);
+
+    expect(TreeType.apply(result, TreeType.invert(op))).toEqual(doc());
+  });
+
+  it("should undo a delete using the snapshot", () => {
+    const op = TreeType.compose(
+      deleteNode([1]),
+      editNodeText([1], [{ d: 5 }, { i: "Bye" }])
+    );
+    const result = TreeType.apply(doc(), op);
+    expect(result.children?.map((n) => n.text)).toEqual(["Title", "Bye"]);
+
+    expect(() => TreeType.invert(op)).toThrow(/invertWithDoc/);
+    const inverse = TreeType.invertWithSnapshot(op, doc());
+    expect(TreeType.apply(result, inverse)).toEqual(doc());
+  });
+});
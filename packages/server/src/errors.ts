@@ -0,0 +1,42 @@
+/**
+ * Thrown by `Server.submitOperation` when the document's type rejects an
+ * operation, e.g. because it doesn't fit the current snapshot.
+ * The original error is available as `cause`; `reason` and `path` are
+ * copied from it when the type reports them (e.g. `JsonValidationError`),
+ * so they can be sent back to the client in a "reject" message.
+ */
+export class InvalidOperationError extends Error {
+  public readonly docId: string;
+  public readonly revision: number;
+  public readonly reason: string;
+  public readonly path?: (string | number)[];
+
+  constructor(docId: string, revision: number, cause: unknown) {
+    const reason = getReason(cause);
+    super(
+      `Invalid operation for document ${docId} at revision ${revision}: ${reason}`,
+      { cause }
+    );
+    this.name = "InvalidOperationError";
+    this.docId = docId;
+    this.revision = revision;
+    this.reason = reason;
+    this.path = getPath(cause);
+  }
+}
+
+function getReason(cause: unknown): string {
+  if (cause instanceof Error) {
+    const { reason } = cause as { reason?: unknown };
+    return typeof reason === "string" ? reason : cause.message;
+  }
+  return String(cause);
+}
+
+function getPath(cause: unknown): (string | number)[] | undefined {
+  if (cause instanceof Error) {
+    const { path } = cause as { path?: unknown };
+    if (Array.isArray(path)) return path;
+  }
+  return undefined;
+}
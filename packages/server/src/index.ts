@@ -1,3 +1,5 @@
+export * from "./errors";
 export * from "./interfaces";
 export * from "./memory-adapter";
+export * from "./presence";
 export * from "./server";
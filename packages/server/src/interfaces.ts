@@ -1,9 +1,29 @@
+import { OTType } from "@open-ot/core";
+
 export interface DocumentRecord {
   type: "text" | "json" | (string & {}); // 'text', 'json', 'custom'
   v: number; // revision
-  data: unknown; // The Snapshot
+  data: unknown; // The initial Snapshot, serialized by its type
+}
+
+/**
+ * Who submitted an operation: the client's ID and the operation's sequence
+ * number among that client's operations. A client resending an operation
+ * sends the same origin, so the server can tell it was already stored.
+ */
+export interface OperationOrigin {
+  clientId: string;
+  seq: number;
 }
 
+/**
+ * What a backend needs to know about a type to store its snapshots.
+ */
+export type StoredType = Pick<
+  OTType<unknown, unknown>,
+  "name" | "serializeSnapshot" | "deserializeSnapshot"
+>;
+
 export interface IBackendAdapter {
   /** Get the current global revision and type of the document */
   getRecord(docId: string): Promise<DocumentRecord>;
@@ -11,6 +31,25 @@ export interface IBackendAdapter {
   /** Get a range of past operations for transformation */
   getHistory(docId: string, start: number, end?: number): Promise<unknown[]>;
 
-  /** Atomic commit: Add op to history AND increment revision */
-  saveOperation(docId: string, op: unknown, newRevision: number): Promise<void>;
+  /**
+   * Atomic commit: Add op to history AND increment revision.
+   * The op is already serialized by its type. `origin`, if given, is stored
+   * with it for `getOperationRevision`.
+   */
+  saveOperation(
+    docId: string,
+    op: unknown,
+    newRevision: number,
+    origin?: OperationOrigin
+  ): Promise<void>;
+
+  /**
+   * Optional: Get the revision created by the operation saved with this
+   * origin, or null if there is none. Without it the server can't detect
+   * resent operations and stores them again.
+   */
+  getOperationRevision?(
+    docId: string,
+    origin: OperationOrigin
+  ): Promise<number | null>;
 }
@@ -1,22 +1,37 @@
-import { IBackendAdapter, DocumentRecord } from "./interfaces";
+import {
+  IBackendAdapter,
+  DocumentRecord,
+  OperationOrigin,
+  StoredType,
+} from "./interfaces";
 
 export class MemoryBackend implements IBackendAdapter {
   private documents: Map<string, DocumentRecord> = new Map();
   private history: Map<string, unknown[]> = new Map();
+  // Revision of each stored op by document, keyed by `${clientId}:${seq}`
+  private origins: Map<string, Map<string, number>> = new Map();
 
   constructor() {}
 
+  /**
+   * Create a document. Pass the type itself, rather than its name, to store
+   * the snapshot serialized by the type's `serializeSnapshot`.
+   */
   public async createDocument(
     docId: string,
-    type: string,
+    type: string | StoredType,
     initialSnapshot: unknown
   ) {
     this.documents.set(docId, {
-      type,
+      type: typeof type === "string" ? type : type.name,
       v: 0,
-      data: initialSnapshot,
+      data:
+        typeof type !== "string" && type.serializeSnapshot
+          ? type.serializeSnapshot(initialSnapshot)
+          : initialSnapshot,
     });
     this.history.set(docId, []);
+    this.origins.set(docId, new Map());
   }
 
   async getRecord(docId: string): Promise<DocumentRecord> {
@@ -39,7 +54,8 @@ export class MemoryBackend implements IBackendAdapter {
   async saveOperation(
     docId: string,
     op: unknown,
-    newRevision: number
+    newRevision: number,
+    origin?: OperationOrigin
   ): Promise<void> {
     const doc = this.documents.get(docId);
     if (!doc) {
@@ -54,6 +70,9 @@ export class MemoryBackend implements IBackendAdapter {
 
     const ops = this.history.get(docId) || [];
     ops.push(op);
+    if (origin) {
+      this.origins.get(docId)?.set(originKey(origin), newRevision);
+    }
 
     doc.v = newRevision;
     // In this memory adapter, we treat the backend primarily as an op log.
@@ -62,4 +81,15 @@ export class MemoryBackend implements IBackendAdapter {
     // operations to maintain an up-to-date snapshot if needed, as `saveOperation`
     // does not include an updated snapshot.
   }
+
+  async getOperationRevision(
+    docId: string,
+    origin: OperationOrigin
+  ): Promise<number | null> {
+    return this.origins.get(docId)?.get(originKey(origin)) ?? null;
+  }
+}
+
+function originKey(origin: OperationOrigin): string {
+  return `${origin.clientId}:${origin.seq}`;
 }
@@ -0,0 +1,117 @@
+/**
+ * A client's presence on a document, as sent in its "presence" message.
+ * The server relays it without looking inside.
+ */
+export interface PresenceMember {
+  clientId: string;
+  presence: unknown;
+  // The revision the presence's cursor refers to
+  revision: number;
+}
+
+export interface PresenceRelayOptions {
+  /**
+   * Milliseconds without a presence message after which a client is
+   * considered gone. Clients resend their presence every 10 seconds by
+   * default. Defaults to 30000.
+   */
+  timeout?: number;
+  /**
+   * Called when a client times out, to tell the other clients on the
+   * document it left.
+   */
+  onTimeout?: (docId: string, clientId: string) => void;
+}
+
+/**
+ * Keeps track of which clients are on each document and their latest
+ * presence, so it can be relayed to the other clients and sent to clients
+ * that join later. Presence is ephemeral: it is kept in memory and never
+ * stored in the backend.
+ */
+export class PresenceRelay {
+  private timeout: number;
+  private onTimeout?: (docId: string, clientId: string) => void;
+
+  private documents: Map<
+    string,
+    Map<
+      string,
+      { member: PresenceMember; timer: ReturnType<typeof setTimeout> }
+    >
+  > = new Map();
+
+  constructor(options: PresenceRelayOptions = {}) {
+    this.timeout = options.timeout ?? 30_000;
+    this.onTimeout = options.onTimeout;
+  }
+
+  /**
+   * Handle a client's "presence" message and restart its timeout.
+   * @returns "join" if the client wasn't on the document, "update" if its
+   * presence changed and "unchanged" for a resend of the same presence,
+   * which doesn't need to be relayed
+   */
+  public update(
+    docId: string,
+    member: PresenceMember
+  ): "join" | "update" | "unchanged" {
+    let members = this.documents.get(docId);
+    if (!members) {
+      members = new Map();
+      this.documents.set(docId, members);
+    }
+
+    const previous = members.get(member.clientId);
+    if (previous) clearTimeout(previous.timer);
+
+    const timer = setTimeout(() => {
+      if (this.remove(docId, member.clientId)) {
+        this.onTimeout?.(docId, member.clientId);
+      }
+    }, this.timeout);
+    members.set(member.clientId, { member, timer });
+
+    if (!previous) return "join";
+    return previous.member.revision === member.revision &&
+      JSON.stringify(previous.member.presence) ===
+        JSON.stringify(member.presence)
+      ? "unchanged"
+      : "update";
+  }
+
+  /**
+   * Remove a client from a document, e.g. when its connection closes or it
+   * clears its presence.
+   * @returns Whether the client was on the document
+   */
+  public remove(docId: string, clientId: string): boolean {
+    const members = this.documents.get(docId);
+    const entry = members?.get(clientId);
+    if (!members || !entry) return false;
+
+    clearTimeout(entry.timer);
+    members.delete(clientId);
+    if (members.size === 0) this.documents.delete(docId);
+    return true;
+  }
+
+  /**
+   * The clients on a document with their latest presence, e.g. to send to a
+   * client that just connected.
+   */
+  public getMembers(docId: string): PresenceMember[] {
+    const members = this.documents.get(docId);
+    return members ? [...members.values()].map(({ member }) => member) : [];
+  }
+
+  /**
+   * Remove every client from every document without calling `onTimeout`.
+   */
+  public close(): void {
+    this.documents.forEach((members) =>
+      members.forEach(({ timer }) => clearTimeout(timer))
+    );
+    this.documents.clear();
+  }
+}
@@ -1,34 +1,77 @@
-import { OTType } from "@open-ot/core";
-import { IBackendAdapter } from "./interfaces";
+import {
+  OTType,
+  RegisterTypeOptions,
+  TypeRegistry,
+  deserializeOp,
+  deserializeSnapshot,
+  serializeOp,
+} from "@open-ot/core";
+import { IBackendAdapter, DocumentRecord, OperationOrigin } from "./interfaces";
+import { InvalidOperationError } from "./errors";
+
+export interface ServerOptions {
+  /**
+   * Apply every submitted operation to the latest snapshot before saving it.
+   * Operations the type can't transform or apply are rejected with an
+   * `InvalidOperationError` instead of being stored.
+   * Defaults to false.
+   */
+  validateOperations?: boolean;
+  /**
+   * Registry to look up document types in, e.g. one shared with the
+   * clients. Defaults to a new registry; `registerType` adds to it.
+   */
+  registry?: TypeRegistry;
+}
 
 export class Server {
   private backend: IBackendAdapter;
-  // We use unknown here because the server can handle heterogeneous types.
-  // When we retrieve a type, we cast it based on the document's type string.
-  private types: Map<string, OTType<unknown, unknown>> = new Map();
+  private options: ServerOptions;
+  // Resolves the type string of each document record, including versions
+  // and aliases.
+  private types: TypeRegistry;
 
-  constructor(backend: IBackendAdapter) {
+  // Latest known snapshot per document, used to validate operations.
+  // Rebuilt from the backend's initial snapshot and history when stale.
+  private snapshots: Map<string, { v: number; snapshot: unknown }> = new Map();
+
+  constructor(backend: IBackendAdapter, options: ServerOptions = {}) {
     this.backend = backend;
+    this.options = options;
+    this.types = options.registry ?? new TypeRegistry();
   }
 
-  public registerType<Snapshot, Op>(type: OTType<Snapshot, Op>) {
-    // We cast to unknown to store it in the map.
-    // This is safe because we only retrieve it when we have the matching type string from the document record.
-    this.types.set(type.name, type as unknown as OTType<unknown, unknown>);
+  public registerType<Snapshot, Op>(
+    type: OTType<Snapshot, Op>,
+    options?: RegisterTypeOptions
+  ) {
+    this.types.register(type, options);
   }
 
   /**
    * Handle an operation submitted by a client.
+   * Ops are received, stored and returned serialized with the type's
+   * `serializeOp`, if it has one.
    * @param docId The document ID
    * @param op The operation to apply
    * @param revision The revision the client *thinks* they are building on
-   * @returns The transformed operation and the new revision
+   * @param opType The type name the op was written for, if the client uses an
+   * older version of the document's type. The op is upgraded to the
+   * document's version first.
+   * @param origin The client ID and sequence number of the op. If the backend
+   * already stored an op with this origin, the op is a resend and isn't
+   * applied again.
+   * @returns The transformed operation and the new revision, or for a resend
+   * the stored operation and its revision with `duplicate` set
+   * @throws InvalidOperationError if `validateOperations` is enabled and the type rejects the op
    */
   public async submitOperation(
     docId: string,
     op: unknown,
-    revision: number
-  ): Promise<{ op: unknown; revision: number }> {
+    revision: number,
+    opType?: string,
+    origin?: OperationOrigin
+  ): Promise<{ op: unknown; revision: number; duplicate?: boolean }> {
     const record = await this.backend.getRecord(docId);
     const type = this.types.get(record.type);
 
@@ -40,11 +83,36 @@ export class Server {
       throw new Error(`Invalid revision: ${revision} > ${record.v}`);
     }
 
+    const storedRevision = await this.findOperation(docId, origin);
+    if (storedRevision !== null) {
+      const [storedOp] = await this.backend.getHistory(
+        docId,
+        storedRevision - 1,
+        storedRevision
+      );
+      return { op: storedOp, revision: storedRevision, duplicate: true };
+    }
+
     // 1. Catch Up (Transform)
     // If the client is behind (revision < record.v), we need to transform their op
     // against all operations that happened since 'revision'.
 
-    let finalOp = op;
+    // When validating, an error from the type means the op itself is invalid
+    const check = <T>(fn: () => T): T => {
+      if (!this.options.validateOperations) return fn();
+      try {
+        return fn();
+      } catch (e) {
+        throw new InvalidOperationError(docId, revision, e);
+      }
+    };
+
+    let finalOp = deserializeOp(
+      type,
+      opType === undefined || opType === record.type
+        ? op
+        : this.types.upgradeOp(op, opType, record.type)
+    );
 
     if (revision < record.v) {
       const history = await this.backend.getHistory(docId, revision);
@@ -56,17 +124,100 @@ export class Server {
         // the operation that comes later; the side parameter controls tie-breaking for concurrent edits.
         // Note: this assumes `history` is ordered from the earliest to the latest revision.
 
-        finalOp = type.transform(finalOp, pastOp, "right");
+        finalOp = check(() =>
+          type.transform(finalOp, deserializeOp(type, pastOp), "right")
+        );
       }
     }
 
     // 2. Apply & Store
     const newRevision = record.v + 1;
-    await this.backend.saveOperation(docId, finalOp, newRevision);
+    const storedOp = serializeOp(type, finalOp);
+
+    if (this.options.validateOperations) {
+      const snapshot = await this.loadSnapshot(docId, record, type);
+      const nextSnapshot = check(() => type.apply(snapshot, finalOp));
+
+      await this.backend.saveOperation(docId, storedOp, newRevision, origin);
+      this.snapshots.set(docId, { v: newRevision, snapshot: nextSnapshot });
+    } else {
+      await this.backend.saveOperation(docId, storedOp, newRevision, origin);
+    }
 
     // Note: We are NOT updating the snapshot in the backend in this simple implementation.
     // In a real app, we might want to update the snapshot periodically or on every op.
 
-    return { op: finalOp, revision: newRevision };
+    return { op: storedOp, revision: newRevision };
+  }
+
+  /**
+   * Get the operations a reconnecting client missed, to reply to its
+   * "resync" message.
+   * @param docId The document ID
+   * @param revision The last revision the client has
+   * @param pending The origin of the op the client is waiting on an ack for,
+   * if any. The acknowledgement may have been lost with the connection.
+   * @returns The serialized operations after `revision`, oldest first, and
+   * the document's current revision. If the pending op is among the
+   * operations, `acknowledged` is the revision it created.
+   */
+  public async resync(
+    docId: string,
+    revision: number,
+    pending?: OperationOrigin
+  ): Promise<{ ops: unknown[]; revision: number; acknowledged?: number }> {
+    const record = await this.backend.getRecord(docId);
+    if (revision > record.v) {
+      throw new Error(`Invalid revision: ${revision} > ${record.v}`);
+    }
+    const ops =
+      revision < record.v
+        ? await this.backend.getHistory(docId, revision, record.v)
+        : [];
+
+    const acknowledged = await this.findOperation(docId, pending);
+    if (acknowledged !== null && acknowledged > revision) {
+      return { ops, revision: record.v, acknowledged };
+    }
+    return { ops, revision: record.v };
+  }
+
+  // Revision of the op stored with `origin`, if the backend can tell
+  private async findOperation(
+    docId: string,
+    origin: OperationOrigin | undefined
+  ): Promise<number | null> {
+    if (!origin || !this.backend.getOperationRevision) return null;
+    return this.backend.getOperationRevision(docId, origin);
+  }
+
+  /**
+   * Get the snapshot of a document at its current revision, replaying
+   * history on top of the cached (or initial) snapshot as needed.
+   */
+  private async loadSnapshot(
+    docId: string,
+    record: DocumentRecord,
+    type: OTType<unknown, unknown>
+  ): Promise<unknown> {
+    const v = record.v;
+
+    let cached = this.snapshots.get(docId);
+    if (!cached || cached.v > v) {
+      // The backend stores the initial snapshot alongside the op log
+      cached = { v: 0, snapshot: deserializeSnapshot(type, record.data) };
+    }
+
+    if (cached.v < v) {
+      const history = await this.backend.getHistory(docId, cached.v, v);
+      let snapshot = cached.snapshot;
+      for (const pastOp of history) {
+        snapshot = type.apply(snapshot, deserializeOp(type, pastOp));
+      }
+      cached = { v, snapshot };
+      this.snapshots.set(docId, cached);
+    }
+
+    return cached.snapshot;
   }
 }
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { PresenceRelay } from "../src/presence";
+
+const alice = {
+  clientId: "alice",
+  presence: { data: { name: "Alice" }, cursor: { anchor: 2, head: 2 } },
+  revision: 3,
+};
+
+describe("PresenceRelay", () => {
+  let relay: PresenceRelay;
+  let timeouts: [string, string][];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    timeouts = [];
+    relay = new PresenceRelay({
+      timeout: 1000,
+      onTimeout: (docId, clientId) => timeouts.push([docId, clientId]),
+    });
+  });
+
+  afterEach(() => {
+    relay.close();
+    vi.useRealTimers();
+  });
+
+  it("should track members per document", () => {
+    expect(relay.update("doc-1", alice)).toBe("join");
+    expect(relay.update("doc-2", { ...alice, clientId: "bob" })).toBe("join");
+
+    expect(relay.getMembers("doc-1")).toEqual([alice]);
+    expect(relay.getMembers("doc-2").map((m) => m.clientId)).toEqual(["bob"]);
+    expect(relay.getMembers("doc-3")).toEqual([]);
+  });
+
+  it("should tell updates from resends", () => {
+    relay.update("doc-1", alice);
+
+    expect(relay.update("doc-1", { ...alice })).toBe("unchanged");
+    expect(relay.update("doc-1", { ...alice, revision: 4 })).toBe("update");
+    expect(
+      relay.update("doc-1", { ...alice, revision: 4, presence: { data: 1 } })
+    ).toBe("update");
+    expect(relay.getMembers("doc-1")).toEqual([
+      { ...alice, revision: 4, presence: { data: 1 } },
+    ]);
+  });
+
+  it("should remove members", () => {
+    relay.update("doc-1", alice);
+
+    expect(relay.remove("doc-1", "alice")).toBe(true);
+    expect(relay.remove("doc-1", "alice")).toBe(false);
+    expect(relay.getMembers("doc-1")).toEqual([]);
+
+    vi.advanceTimersByTime(2000);
+    expect(timeouts).toEqual([]);
+  });
+
+  it("should time out members that stop sending presence", () => {
+    relay.update("doc-1", alice);
+    relay.update("doc-1", { ...alice, clientId: "bob" });
+
+    // Resending restarts the timeout
+    vi.advanceTimersByTime(600);
+    relay.update("doc-1", alice);
+    vi.advanceTimersByTime(600);
+
+    expect(timeouts).toEqual([["doc-1", "bob"]]);
+    expect(relay.getMembers("doc-1")).toEqual([alice]);
+
+    vi.advanceTimersByTime(600);
+    expect(timeouts).toEqual([
+      ["doc-1", "bob"],
+      ["doc-1", "alice"],
+    ]);
+  });
+});
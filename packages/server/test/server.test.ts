@@ -1,7 +1,34 @@
 import { describe, it, expect, beforeEach } from "vitest";
 import { Server } from "../src/server";
 import { MemoryBackend } from "../src/memory-adapter";
-import { TextType, TextOperation } from "@open-ot/core";
+import { InvalidOperationError } from "../src/errors";
+import {
+  CounterType,
+  OTType,
+  TextType,
+  TextOperation,
+  TypeRegistry,
+  createGridType,
+  createJsonType,
+  createRegisterType,
+  createTextType,
+} from "@open-ot/core";
+
+// A set of tags, which JSON can't represent directly
+const TagsType: OTType<Set<string>, { add: Set<string> }> = {
+  name: "tags",
+  create: () => new Set(),
+  apply: (snapshot, op) => new Set([...snapshot, ...op.add]),
+  // Drop tags the other op already added
+  transform: (opA, opB) => ({
+    add: new Set([...opA.add].filter((tag) => !opB.add.has(tag))),
+  }),
+  compose: (opA, opB) => ({ add: new Set([...opA.add, ...opB.add]) }),
+  serializeSnapshot: (snapshot) => [...snapshot],
+  deserializeSnapshot: (data) => new Set(data as string[]),
+  serializeOp: (op) => ({ add: [...op.add] }),
+  deserializeOp: (data) => ({ add: new Set((data as { add: string[] }).add) }),
+};
 
 describe("Server", () => {
   let server: Server;
@@ -47,10 +74,222 @@ describe("Server", () => {
     expect(history[1]).toEqual([{ r: 5 }, { i: "World" }]);
   });
 
+  it("should keep the last concurrent set of a register", async () => {
+    server.registerType(createRegisterType(0));
+    await backend.createDocument("slide", "register", 0);
+
+    await server.submitOperation("slide", [{ set: 1 }], 0);
+    const result = await server.submitOperation("slide", [{ set: 2 }], 0);
+
+    expect(result.op).toEqual([{ set: 2, old: 1 }]);
+  });
+
+  it("should shift concurrent cell edits past inserted rows", async () => {
+    const Sheet = createGridType<string>(2, 2);
+    server.registerType(Sheet);
+    await backend.createDocument("sheet", "grid", Sheet.create());
+
+    await server.submitOperation("sheet", [{ insertRow: 0 }], 0);
+    const result = await server.submitOperation(
+      "sheet",
+      [{ set: [1, 1], value: "B2" }],
+      0
+    );
+
+    expect(result.op).toEqual([{ set: [2, 1], value: "B2" }]);
+  });
+
+  it("should look up types in a shared registry", async () => {
+    const registry = new TypeRegistry().register(CounterType, {
+      aliases: ["views"],
+    });
+    const shared = new Server(backend, { registry });
+    await backend.createDocument("views", "views", 0);
+
+    const result = await shared.submitOperation("views", { inc: 1 }, 0);
+    expect(result.revision).toBe(1);
+  });
+
+  it("should upgrade ops written for an older version of the type", async () => {
+    server.registerType(CounterType);
+    server.registerType({ ...CounterType, name: "counter@2" });
+    server.registerType(
+      { ...CounterType, name: "counter@3" },
+      { upgrade: { op: (op) => ({ inc: (op as { inc: number }).inc * 10 }) } }
+    );
+    await backend.createDocument("cents", "counter@3", 0);
+
+    const result = await server.submitOperation(
+      "cents",
+      { inc: 2 },
+      0,
+      "counter"
+    );
+    expect(result.op).toEqual({ inc: 20 });
+  });
+
   it("should reject invalid revision", async () => {
     const op: TextOperation = [{ i: "Hello" }];
     await expect(server.submitOperation("doc1", op, 1)).rejects.toThrow(
       "Invalid revision"
     );
   });
+
+  it("should return the operations a client missed", async () => {
+    await server.submitOperation("doc1", [{ i: "Hello" }], 0);
+    await server.submitOperation("doc1", [{ r: 5 }, { i: "!" }], 1);
+
+    expect(await server.resync("doc1", 1)).toEqual({
+      ops: [[{ r: 5 }, { i: "!" }]],
+      revision: 2,
+    });
+    expect(await server.resync("doc1", 2)).toEqual({ ops: [], revision: 2 });
+    await expect(server.resync("doc1", 3)).rejects.toThrow(
+      "Invalid revision: 3 > 2"
+    );
+  });
+
+  it("should not apply a resent operation twice", async () => {
+    const origin = { clientId: "alice", seq: 1 };
+    const first = await server.submitOperation(
+      "doc1",
+      [{ i: "Hello" }],
+      0,
+      undefined,
+      origin
+    );
+    await server.submitOperation("doc1", [{ i: "Oh " }, { r: 5 }], 1);
+
+    // Resent after catching up, transformed over both ops
+    const resent = await server.submitOperation(
+      "doc1",
+      [{ r: 3 }, { i: "Hello" }, { r: 5 }],
+      2,
+      undefined,
+      origin
+    );
+
+    expect(resent).toEqual({ ...first, duplicate: true });
+    expect(await backend.getHistory("doc1", 0)).toHaveLength(2);
+    expect(await backend.getOperationRevision("doc1", origin)).toBe(1);
+  });
+
+  it("should report a stored pending operation on resync", async () => {
+    const origin = { clientId: "alice", seq: 1 };
+    await server.submitOperation("doc1", [{ i: "Oh " }], 0);
+    await server.submitOperation(
+      "doc1",
+      [{ r: 3 }, { i: "Hello" }],
+      1,
+      undefined,
+      origin
+    );
+
+    expect(await server.resync("doc1", 1, origin)).toEqual({
+      ops: [[{ r: 3 }, { i: "Hello" }]],
+      revision: 2,
+      acknowledged: 2,
+    });
+    expect(
+      await server.resync("doc1", 1, { clientId: "alice", seq: 2 })
+    ).toEqual({ ops: [[{ r: 3 }, { i: "Hello" }]], revision: 2 });
+  });
+
+  describe("with validateOperations", () => {
+    beforeEach(async () => {
+      server = new Server(backend, { validateOperations: true });
+      server.registerType(createTextType({ strict: true }));
+    });
+
+    it("should accept ops spanning the current snapshot", async () => {
+      await server.submitOperation("doc1", [{ i: "Hello" }], 0);
+      const result = await server.submitOperation(
+        "doc1",
+        [{ r: 5 }, { i: " World" }],
+        1
+      );
+
+      expect(result.revision).toBe(2);
+      expect(await backend.getHistory("doc1", 0)).toHaveLength(2);
+    });
+
+    it("should reject ops with a mismatched base length", async () => {
+      await server.submitOperation("doc1", [{ i: "Hello" }], 0);
+
+      const submit = server.submitOperation("doc1", [{ r: 2 }, { i: "!" }], 1);
+      await expect(submit).rejects.toBeInstanceOf(InvalidOperationError);
+      await expect(submit).rejects.toThrow(
+        "Invalid operation for document doc1 at revision 1: Operation base length 2 does not match snapshot length 5"
+      );
+
+      // Nothing was stored
+      expect(await backend.getHistory("doc1", 0)).toHaveLength(1);
+    });
+
+    it("should reject stale ops that can't be transformed", async () => {
+      await server.submitOperation("doc1", [{ i: "Hello" }], 0);
+
+      // Based on revision 0 (empty document) but retains past its end
+      const submit = server.submitOperation("doc1", [{ r: 3 }, { i: "!" }], 0);
+      await expect(submit).rejects.toBeInstanceOf(InvalidOperationError);
+    });
+
+    it("should validate against snapshots rebuilt from history", async () => {
+      // Ops stored through another server instance
+      const other = new Server(backend);
+      other.registerType(TextType);
+      await other.submitOperation("doc1", [{ i: "abc" }], 0);
+
+      await expect(
+        server.submitOperation("doc1", [{ r: 2 }], 1)
+      ).rejects.toBeInstanceOf(InvalidOperationError);
+
+      const result = await server.submitOperation(
+        "doc1",
+        [{ r: 3 }, { i: "d" }],
+        1
+      );
+      expect(result.revision).toBe(2);
+    });
+
+    it("should store and return ops serialized by the type", async () => {
+      server.registerType(TagsType);
+      await backend.createDocument("tags", TagsType, new Set(["a"]));
+      expect((await backend.getRecord("tags")).data).toEqual(["a"]);
+
+      await server.submitOperation("tags", { add: ["a", "b"] }, 0);
+      const result = await server.submitOperation(
+        "tags",
+        { add: ["b", "c"] },
+        0
+      );
+
+      expect(result.op).toEqual({ add: ["c"] });
+      expect(await backend.getHistory("tags", 0)).toEqual([
+        { add: ["a", "b"] },
+        { add: ["c"] },
+      ]);
+    });
+
+    it("should report the path and reason of schema violations", async () => {
+      server.registerType(
+        createJsonType({
+          validate: (_op, doc) =>
+            doc === undefined || typeof (doc as { n: unknown }).n === "number"
+              ? true
+              : { path: ["n"], reason: "n must be a number" },
+        })
+      );
+      await backend.createDocument("json1", "json", { n: 1 });
+
+      const error = await server
+        .submitOperation("json1", ["n", { r: 1, i: "one" }], 0)
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(InvalidOperationError);
+      expect(error.reason).toBe("n must be a number");
+      expect(error.path).toEqual(["n"]);
+      expect(await backend.getHistory("json1", 0)).toHaveLength(0);
+    });
+  });
 });
@@ -0,0 +1,4 @@
+import { config } from "@open-ot/eslint-config/react-internal";
+
+/** @type {import("eslint").Linter.Config} */
+export default config;
@@ -0,0 +1,513 @@
+import { OTClient } from "@open-ot/client";
+import {
+  OTType,
+  TransportAdapter,
+  deserializeOp,
+  deserializeSnapshot,
+  serializeOp,
+  serializeSnapshot,
+} from "@open-ot/core";
+import { Random, createRandom, deepEqual } from "@open-ot/core/testing";
+import {
+  InvalidOperationError,
+  MemoryBackend,
+  Server,
+  ServerOptions,
+} from "@open-ot/server";
+
+const DOC_ID = "doc";
+
+// Deliveries allowed while settling before giving up
+const MAX_SETTLE_DELIVERIES = 100_000;
+
+export interface NetworkOptions {
+  /**
+   * How many ticks a message takes to arrive, picked per message.
+   * Defaults to 0 to 3.
+   */
+  latency?: { min: number; max: number };
+  /**
+   * Let messages on the same connection overtake each other. Transports
+   * like WebSockets never do this. Defaults to false.
+   */
+  reorder?: boolean;
+  /**
+   * Chance that a message arrives again after arriving, below 1.
+   * Defaults to 0.
+   */
+  duplicate?: number;
+  /**
+   * Chance per tick that a client loses its connection or, if it is
+   * disconnected, reconnects. Messages in flight are lost. Defaults to 0.
+   */
+  disconnect?: number;
+}
+
+/**
+ * What a simulation runs on: the same setup replays a trace.
+ */
+export interface SimulationSetup<Snapshot, Op> {
+  type: OTType<Snapshot, Op>;
+  /**
+   * Defaults to `type.create()`.
+   */
+  initialSnapshot?: Snapshot;
+  /**
+   * Number of clients. Defaults to 3.
+   */
+  clients?: number;
+  server?: ServerOptions;
+  /**
+   * Compare snapshots. Defaults to comparing their serialized form.
+   */
+  equal?(a: Snapshot, b: Snapshot): boolean;
+}
+
+export interface SimulationOptions<Snapshot, Op>
+  extends SimulationSetup<Snapshot, Op> {
+  /**
+   * Generate a local edit for a client's snapshot. Generators written for
+   * `checkType` from `@open-ot/core/testing` work here too.
+   */
+  op(random: Random, snapshot: Snapshot): Op;
+  /**
+   * Ticks to run before letting the network settle. Defaults to 100.
+   */
+  steps?: number;
+  /**
+   * Seed for every random choice. Defaults to 1.
+   */
+  seed?: number;
+  network?: NetworkOptions;
+}
+
+/**
+ * One step of a simulation. Ops are serialized, so a trace can be stored
+ * as JSON and replayed.
+ * - `edit`: a client applies a local op.
+ * - `deliver`: the message at `index` of those in flight to the server from
+ *   `client`, or to `client` from the server, arrives. A `duplicate` arrives
+ *   as a copy and stays in flight.
+ * - `disconnect`: a client goes offline, losing its messages in flight.
+ * - `reconnect`: a client comes back online and resyncs with the server,
+ *   resending the edits the server didn't acknowledge.
+ */
+export type SimulationEvent =
+  | { type: "edit"; client: number; op: unknown }
+  | {
+      type: "deliver";
+      client: number;
+      to: "server" | "client";
+      index: number;
+      duplicate?: boolean;
+    }
+  | { type: "disconnect"; client: number }
+  | { type: "reconnect"; client: number };
+
+export interface SimulationResult<Snapshot> {
+  snapshot: Snapshot;
+  revision: number;
+  trace: SimulationEvent[];
+}
+
+/**
+ * Thrown when a simulation fails, either because a client or the server
+ * threw or because the clients didn't converge. `trace` holds every event up
+ * to the failure; pass it to `replay` to reproduce it.
+ */
+export class SimulationError extends Error {
+  public readonly trace: SimulationEvent[];
+
+  constructor(message: string, trace: SimulationEvent[], cause?: unknown) {
+    super(message, { cause });
+    this.name = "SimulationError";
+    this.trace = trace;
+  }
+}
+
+/**
+ * Run clients against a server with a `MemoryBackend` over an in-memory
+ * network, with random edits, latency and faults, then let the network
+ * settle and check that every client converged to the server's snapshot.
+ * Runs are deterministic: the same options give the same trace.
+ * @throws SimulationError with a replayable trace if the run fails
+ */
+export async function simulate<Snapshot, Op>(
+  options: SimulationOptions<Snapshot, Op>
+): Promise<SimulationResult<Snapshot>> {
+  const seed = options.seed ?? 1;
+  const steps = options.steps ?? 100;
+  const network = options.network ?? {};
+  const { min, max } = network.latency ?? { min: 0, max: 3 };
+  if ((network.duplicate ?? 0) >= 1) {
+    throw new Error("The chance of duplicates must be below 1");
+  }
+  const random = createRandom(seed);
+  const chance = (p: number) => p > 0 && random.int(1000) < p * 1000;
+
+  const simulation = new Simulation(
+    options,
+    () => min + random.int(max - min + 1)
+  );
+
+  try {
+    await simulation.start();
+
+    for (let tick = 0; tick < steps; tick++) {
+      simulation.now = tick;
+
+      if (random.boolean()) {
+        const client = random.int(simulation.clientCount);
+        const op = options.op(random, simulation.snapshot(client));
+        await simulation.run({
+          type: "edit",
+          client,
+          op: serializeOp(options.type, op),
+        });
+      }
+
+      if (chance(network.disconnect ?? 0)) {
+        const client = random.int(simulation.clientCount);
+        await simulation.run({
+          type: simulation.isConnected(client) ? "disconnect" : "reconnect",
+          client,
+        });
+      }
+
+      for (const [client, to] of simulation.links()) {
+        for (;;) {
+          const due = simulation.due(client, to);
+          if (due.length === 0) break;
+          // In order, only the oldest message in flight can arrive
+          if (!network.reorder && due[0] !== 0) break;
+          const index = network.reorder ? random.pick(due) : 0;
+          await simulation.run({
+            type: "deliver",
+            client,
+            to,
+            index,
+            ...(chance(network.duplicate ?? 0) && { duplicate: true }),
+          });
+        }
+      }
+    }
+
+    return await simulation.finish();
+  } catch (error) {
+    throw simulation.fail(error, `Simulation with seed ${seed} failed`);
+  }
+}
+
+/**
+ * Run the events of a trace, e.g. one from a `SimulationError`, with the
+ * setup of the simulation that produced it.
+ * @throws SimulationError if the replayed run fails
+ */
+export async function replay<Snapshot, Op>(
+  setup: SimulationSetup<Snapshot, Op>,
+  trace: SimulationEvent[]
+): Promise<SimulationResult<Snapshot>> {
+  const simulation = new Simulation(setup, () => 0);
+  try {
+    await simulation.start();
+    for (const event of trace) {
+      await simulation.run(event);
+    }
+    return await simulation.finish();
+  } catch (error) {
+    throw simulation.fail(error, "Replay failed");
+  }
+}
+
+interface ClientMessage {
+  type: "op" | "resync";
+  op?: unknown;
+  revision: number;
+  clientId: string;
+  seq?: number;
+}
+
+interface InFlight {
+  message: unknown;
+  // Tick the message arrives at
+  at: number;
+}
+
+class Simulation<Snapshot, Op> {
+  public readonly trace: SimulationEvent[] = [];
+  public now = 0;
+
+  private type: OTType<Snapshot, Op>;
+  private backend = new MemoryBackend();
+  private server: Server;
+  private clients: OTClient<Snapshot, Op>[] = [];
+  private receivers: ((message: unknown) => void)[] = [];
+  private disconnectors: (() => void)[] = [];
+  private connected: boolean[] = [];
+  private inFlight: Record<"server" | "client", InFlight[][]> = {
+    server: [],
+    client: [],
+  };
+
+  constructor(
+    private setup: SimulationSetup<Snapshot, Op>,
+    private latency: () => number
+  ) {
+    this.type = setup.type;
+    this.server = new Server(this.backend, setup.server);
+    this.server.registerType(setup.type);
+  }
+
+  public get clientCount(): number {
+    return this.clients.length;
+  }
+
+  public async start() {
+    const count = this.setup.clients ?? 3;
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error(`A simulation needs at least one client, got ${count}`);
+    }
+
+    await this.backend.createDocument(
+      DOC_ID,
+      this.type,
+      this.setup.initialSnapshot ?? this.type.create()
+    );
+    for (let client = 0; client < count; client++) {
+      this.inFlight.server.push([]);
+      this.inFlight.client.push([]);
+      await this.connect(client);
+    }
+  }
+
+  public snapshot(client: number): Snapshot {
+    return this.clients[client]!.getSnapshot();
+  }
+
+  public isConnected(client: number): boolean {
+    return this.connected[client]!;
+  }
+
+  public links(): [number, "server" | "client"][] {
+    return this.clients.flatMap((_, client) => [
+      [client, "server"],
+      [client, "client"],
+    ]);
+  }
+
+  /**
+   * Indexes of the messages on a link that have arrived by now.
+   */
+  public due(client: number, to: "server" | "client"): number[] {
+    const due: number[] = [];
+    this.inFlight[to][client]!.forEach((message, index) => {
+      if (message.at <= this.now) due.push(index);
+    });
+    return due;
+  }
+
+  public async run(event: SimulationEvent) {
+    this.trace.push(event);
+
+    switch (event.type) {
+      case "edit":
+        this.clients[event.client]!.applyLocal(
+          deserializeOp(this.type, event.op)
+        );
+        break;
+
+      case "deliver": {
+        const messages = this.inFlight[event.to][event.client]!;
+        const inFlight = messages[event.index];
+        if (!inFlight) {
+          const link =
+            event.to === "server"
+              ? `from client ${event.client} to the server`
+              : `to client ${event.client}`;
+          throw new Error(`No message at index ${event.index} ${link}`);
+        }
+        if (!event.duplicate) messages.splice(event.index, 1);
+        if (event.to === "server") {
+          await this.receive(event.client, inFlight.message);
+        } else {
+          this.receivers[event.client]!(inFlight.message);
+        }
+        break;
+      }
+
+      case "disconnect":
+        this.connected[event.client] = false;
+        this.inFlight.server[event.client] = [];
+        this.inFlight.client[event.client] = [];
+        this.disconnectors[event.client]!();
+        break;
+
+      case "reconnect":
+        this.connected[event.client] = true;
+        await this.clients[event.client]!.reconnect();
+        break;
+    }
+  }
+
+  /**
+   * Reconnect every client, deliver every message in flight and check that
+   * all clients converged.
+   */
+  public async finish(): Promise<SimulationResult<Snapshot>> {
+    for (let client = 0; client < this.clients.length; client++) {
+      if (!this.connected[client]) {
+        await this.run({ type: "reconnect", client });
+      }
+    }
+
+    let deliveries = 0;
+    for (let busy = true; busy; ) {
+      busy = false;
+      for (const [client, to] of this.links()) {
+        if (this.inFlight[to][client]!.length === 0) continue;
+        if (++deliveries > MAX_SETTLE_DELIVERIES) {
+          throw new Error("The network did not settle");
+        }
+        busy = true;
+        await this.run({ type: "deliver", client, to, index: 0 });
+      }
+    }
+
+    const { snapshot, revision } = await this.serverState();
+    const equal =
+      this.setup.equal ??
+      ((a: Snapshot, b: Snapshot) =>
+        deepEqual(
+          serializeSnapshot(this.type, a),
+          serializeSnapshot(this.type, b)
+        ));
+
+    this.clients.forEach((client, index) => {
+      if (client.getRevision() !== revision) {
+        throw new Error(
+          `Client ${index} is at revision ${client.getRevision()}, the server at ${revision}`
+        );
+      }
+      if (!equal(client.getSnapshot(), snapshot)) {
+        throw new Error(
+          `Client ${index} did not converge: ${this.show(client.getSnapshot())} differs from the server's ${this.show(snapshot)}`
+        );
+      }
+    });
+
+    return { snapshot, revision, trace: this.trace };
+  }
+
+  public fail(error: unknown, prefix: string): SimulationError {
+    const reason = error instanceof Error ? error.message : String(error);
+    return new SimulationError(
+      `${prefix} after ${this.trace.length} events: ${reason}`,
+      this.trace,
+      error
+    );
+  }
+
+  // Load the document from the server, like a client opening it
+  private async connect(client: number) {
+    const { snapshot, revision } = await this.serverState();
+    const transport: TransportAdapter = {
+      connect: async (onReceive, onDisconnect) => {
+        this.receivers[client] = onReceive;
+        this.disconnectors[client] = onDisconnect ?? (() => {});
+      },
+      send: async (message) => this.post(client, "server", message),
+      disconnect: async () => {},
+    };
+
+    this.connected[client] = true;
+    this.clients[client] = new OTClient({
+      type: this.type,
+      initialRevision: revision,
+      initialSnapshot: snapshot,
+      transport,
+      clientId: `client-${client}`,
+      // Reconnects are events of the simulation
+      reconnectDelay: null,
+    });
+  }
+
+  // Handle a client message like a server's transport glue would
+  private async receive(client: number, message: unknown) {
+    const { type, op, revision, clientId, seq } = message as ClientMessage;
+    const origin = seq === undefined ? undefined : { clientId, seq };
+    if (type === "resync") {
+      this.post(client, "client", {
+        type: "resync",
+        ...(await this.server.resync(DOC_ID, revision, origin)),
+      });
+      return;
+    }
+    if (type !== "op") return;
+
+    let result: { op: unknown; revision: number; duplicate?: boolean };
+    try {
+      result = await this.server.submitOperation(
+        DOC_ID,
+        op,
+        revision,
+        undefined,
+        origin
+      );
+    } catch (error) {
+      if (!(error instanceof InvalidOperationError)) throw error;
+      this.post(client, "client", {
+        type: "reject",
+        reason: error.reason,
+        path: error.path,
+        seq,
+      });
+      return;
+    }
+
+    this.post(client, "client", {
+      type: "ack",
+      seq,
+      revision: result.revision,
+    });
+    // Others received a resent op the first time
+    if (result.duplicate) return;
+    this.clients.forEach((_, other) => {
+      if (other === client) return;
+      this.post(other, "client", {
+        type: "op",
+        op: result.op,
+        revision: result.revision,
+        clientId,
+        seq,
+      });
+    });
+  }
+
+  // Put a message on the wire. Messages to or from a client that is offline
+  // are lost.
+  private post(client: number, to: "server" | "client", message: unknown) {
+    if (!this.connected[client]) return;
+    this.inFlight[to][client]!.push({
+      // Messages cross the wire as JSON, like with real transports
+      message: JSON.parse(JSON.stringify(message)),
+      at: this.now + this.latency(),
+    });
+  }
+
+  private async serverState(): Promise<{
+    snapshot: Snapshot;
+    revision: number;
+  }> {
+    const record = await this.backend.getRecord(DOC_ID);
+    const history = await this.backend.getHistory(DOC_ID, 0);
+    let snapshot = deserializeSnapshot(this.type, record.data);
+    for (const op of history) {
+      snapshot = this.type.apply(snapshot, deserializeOp(this.type, op));
+    }
+    return { snapshot, revision: record.v };
+  }
+
+  private show(snapshot: Snapshot): string {
+    return JSON.stringify(serializeSnapshot(this.type, snapshot));
+  }
+}
@@ -0,0 +1,168 @@
+import { describe, it, expect } from "vitest";
+import {
+  JsonType,
+  TextOperation,
+  TextType,
+  createTextType,
+  fromJsonPatch,
+  textEditOp,
+} from "@open-ot/core";
+import { Random } from "@open-ot/core/testing";
+import { SimulationError, replay, simulate } from "../src/simulator";
+
+// A random edit spanning some or all of text
+const textOp = (random: Random, text: string): TextOperation => {
+  const op: TextOperation = [];
+  let index = 0;
+  for (let i = random.int(4); i > 0; i--) {
+    const remaining = text.length - index;
+    const kind = remaining === 0 ? 0 : random.int(3);
+    if (kind === 0) {
+      op.push({ i: random.string(3, "abc") });
+    } else {
+      const n = 1 + random.int(Math.min(remaining, 5));
+      op.push(kind === 1 ? { r: n } : { d: n });
+      index += n;
+    }
+  }
+  return op;
+};
+
+describe("simulate", () => {
+  it("should converge with random latency", async () => {
+    for (let seed = 1; seed <= 5; seed++) {
+      const result = await simulate({
+        type: TextType,
+        initialSnapshot: "Hello World",
+        clients: 4,
+        steps: 200,
+        seed,
+        op: textOp,
+        network: { latency: { min: 0, max: 10 } },
+      });
+      expect(result.revision).toBeGreaterThan(0);
+    }
+  });
+
+  it("should converge when clients disconnect and reconnect", async () => {
+    const result = await simulate({
+      type: TextType,
+      clients: 4,
+      steps: 300,
+      op: textOp,
+      network: { disconnect: 0.1 },
+    });
+    const events = result.trace.map((event) => event.type);
+    expect(events).toContain("disconnect");
+    expect(events).toContain("reconnect");
+  });
+
+  it("should converge when messages arrive twice", async () => {
+    await simulate({
+      type: TextType,
+      clients: 4,
+      steps: 200,
+      op: textOp,
+      network: { duplicate: 0.2, disconnect: 0.05 },
+    });
+  });
+
+  it("should converge when messages overtake each other", async () => {
+    for (let seed = 1; seed <= 5; seed++) {
+      await simulate({
+        type: TextType,
+        clients: 4,
+        steps: 200,
+        seed,
+        op: textOp,
+        network: { reorder: true, duplicate: 0.2, disconnect: 0.05 },
+      });
+    }
+  });
+
+  it("should keep edits made while offline", async () => {
+    const result = await replay({ type: TextType, initialSnapshot: "Hello" }, [
+      { type: "edit", client: 1, op: [{ i: ">" }, { r: 5 }] },
+      { type: "disconnect", client: 0 },
+      { type: "edit", client: 0, op: [{ r: 5 }, { i: "!" }] },
+      { type: "deliver", client: 1, to: "server", index: 0 },
+      { type: "reconnect", client: 0 },
+    ]);
+    expect(result.snapshot).toBe(">Hello!");
+    expect(result.revision).toBe(2);
+  });
+
+  it("should converge for JSON documents", async () => {
+    await simulate({
+      type: JsonType,
+      initialSnapshot: { title: "", items: [] },
+      steps: 200,
+      // JsonType rejects concurrent writes to the same key, so ops only edit
+      // text and lists
+      op: (random, snapshot) => {
+        const doc = snapshot as { title: string; items: number[] };
+        const n = doc.items.length;
+        const kind = random.int(n === 0 ? 2 : 3);
+        if (kind === 0) return textEditOp(["title"], textOp(random, doc.title));
+        const path = `/items/${random.int(n + (kind === 1 ? 1 : 0))}`;
+        return fromJsonPatch(
+          kind === 1
+            ? [{ op: "add", path, value: random.int(10) }]
+            : [{ op: "remove", path }],
+          doc
+        );
+      },
+    });
+  });
+
+  it("should give the same trace for the same seed", async () => {
+    const options = { type: TextType, seed: 3, op: textOp };
+    const first = await simulate(options);
+    const second = await simulate(options);
+    expect(second.trace).toEqual(first.trace);
+    expect(second.snapshot).toBe(first.snapshot);
+  });
+
+  it("should replay a trace stored as JSON", async () => {
+    const result = await simulate({
+      type: TextType,
+      op: textOp,
+      network: { reorder: false, disconnect: 0.05 },
+    });
+    const trace = JSON.parse(JSON.stringify(result.trace));
+
+    const replayed = await replay({ type: TextType }, trace);
+    expect(replayed.snapshot).toBe(result.snapshot);
+    expect(replayed.revision).toBe(result.revision);
+  });
+
+  it("should report divergence with a replayable trace", async () => {
+    // Ignores concurrent ops instead of transforming over them
+    const Broken = {
+      ...createTextType(),
+      transform: (opA: TextOperation) => opA,
+    };
+
+    const error = await simulate({ type: Broken, op: textOp }).catch(
+      (e: unknown) => e
+    );
+    expect(error).toBeInstanceOf(SimulationError);
+    const { message, trace } = error as SimulationError;
+    expect(message).toMatch(/^Simulation with seed 1 failed after \d+ events/);
+
+    // Replaying the trace fails the same way
+    await expect(replay({ type: Broken }, trace)).rejects.toThrow(
+      message.replace("Simulation with seed 1", "Replay")
+    );
+  });
+
+  it("should reject traces that don't fit the simulation", async () => {
+    await expect(
+      replay({ type: TextType }, [
+        { type: "deliver", client: 0, to: "server", index: 0 },
+      ])
+    ).rejects.toThrow(
+      "Replay failed after 1 events: No message at index 0 from client 0 to the server"
+    );
+  });
+});
@@ -29,6 +29,7 @@ export class HybridTransport<M = unknown> implements TransportAdapter<M> {
 
   private currentRevision: number = 0;
   private onReceiveCallback: ((msg: M) => void) | null = null;
+  private onDisconnectCallback: (() => void) | null = null;
 
   private inactivityTimeout: number;
   private pollingInterval: number;
@@ -47,8 +48,21 @@ export class HybridTransport<M = unknown> implements TransportAdapter<M> {
     this.reconnectDelay = options.reconnectDelay || 1000;
   }
 
-  async connect(onReceive: (msg: M) => void): Promise<void> {
+  /**
+   * Open the SSE stream. Without `onDisconnect`, the transport reconnects on
+   * its own and falls back to polling when that keeps failing. With it, the
+   * transport calls `onDisconnect` instead whenever the stream drops or it
+   * falls back to polling, and leaves reconnecting to the caller: messages
+   * sent while the stream was down, and acks while polling, never arrive, so
+   * the caller has to reconnect and catch up.
+   */
+  async connect(
+    onReceive: (msg: M) => void,
+    onDisconnect?: () => void
+  ): Promise<void> {
     this.onReceiveCallback = onReceive;
+    this.onDisconnectCallback = onDisconnect ?? null;
+    this.reconnectAttempts = 0;
     this.resetInactivityTimer();
 
     // Start with SSE
@@ -98,16 +112,20 @@ export class HybridTransport<M = unknown> implements TransportAdapter<M> {
     this.cleanupInactivityTimer();
     this.mode = "disconnected";
     this.onReceiveCallback = null;
+    this.onDisconnectCallback = null;
   }
 
   // Private methods
 
   private async connectSSE(): Promise<void> {
     this.cleanupPolling();
+    // A previous stream that is still retrying
+    this.cleanupSSE();
 
     try {
       const url = `${this.baseUrl}/events?docId=${this.docId}`;
-      this.eventSource = new EventSource(url);
+      const eventSource = new EventSource(url);
+      this.eventSource = eventSource;
 
       this.eventSource.onmessage = (event) => {
         try {
@@ -130,8 +148,18 @@ export class HybridTransport<M = unknown> implements TransportAdapter<M> {
       };
 
       this.eventSource.onerror = (error) => {
+        // Ignore streams closed by disconnect() or replaced since
+        if (this.eventSource !== eventSource) return;
         console.error("SSE error:", error);
 
+        if (this.onDisconnectCallback) {
+          // The caller reconnects and catches up on what was missed
+          this.cleanupSSE();
+          this.mode = "disconnected";
+          this.onDisconnectCallback();
+          return;
+        }
+
         // Try to reconnect
         this.reconnectAttempts++;
 
@@ -165,6 +193,8 @@ export class HybridTransport<M = unknown> implements TransportAdapter<M> {
     console.log("Switched to polling mode");
 
     this.startPolling();
+    // Polling only delivers ops, so the caller can't wait for acks
+    this.onDisconnectCallback?.();
   }
 
   private startPolling(): void {
@@ -31,6 +31,7 @@ export class HttpSseTransport<M = unknown> implements TransportAdapter<M> {
   private headers: Record<string, string>;
   private eventSource: IEventSource | null = null;
   private onReceiveCallback: ((msg: M) => void) | null = null;
+  private onDisconnectCallback: (() => void) | null = null;
   private isConnected: boolean = false;
 
   constructor(baseUrl: string, options: HttpSseTransportOptions = {}) {
@@ -41,24 +42,32 @@ export class HttpSseTransport<M = unknown> implements TransportAdapter<M> {
     this.headers = options.headers || {};
   }
 
-  connect(onReceive: (msg: M) => void): Promise<void> {
+  connect(
+    onReceive: (msg: M) => void,
+    onDisconnect?: () => void
+  ): Promise<void> {
     return new Promise((resolve, reject) => {
       if (this.eventSource) {
         if (this.eventSource.readyState === 1) {
           // OPEN
           this.onReceiveCallback = onReceive;
+          this.onDisconnectCallback = onDisconnect ?? null;
           resolve();
           return;
         }
+        // A previous connection that is still retrying
+        this.eventSource.close();
       }
 
       this.onReceiveCallback = onReceive;
+      this.onDisconnectCallback = onDisconnect ?? null;
       const url = `${this.baseUrl}${this.eventsPath}`;
 
       // We assume EventSource is available globally (browser) or polyfilled (Node tests)
       // Note: Standard EventSource does not support custom headers.
       // Authentication usually relies on cookies or query params.
-      this.eventSource = new EventSource(url);
+      const eventSource = new EventSource(url);
+      this.eventSource = eventSource;
 
       this.eventSource.onopen = () => {
         this.isConnected = true;
@@ -66,13 +75,20 @@ export class HttpSseTransport<M = unknown> implements TransportAdapter<M> {
       };
 
       this.eventSource.onerror = () => {
+        // Ignore connections closed by disconnect() or replaced since
+        if (this.eventSource !== eventSource) return;
         if (!this.isConnected) {
           // If error happens during connection attempt
           reject(new Error("Failed to connect to SSE endpoint"));
           this.disconnect();
         } else {
-          // Runtime error (disconnect/reconnect)
-          // For now, we might just log or let the browser handle reconnection
+          // The connection dropped. EventSource would reconnect on its own,
+          // but messages sent meanwhile are lost: close it and let the
+          // caller reconnect and catch up.
+          eventSource.close();
+          this.eventSource = null;
+          this.isConnected = false;
+          this.onDisconnectCallback?.();
         }
       };
 
@@ -116,6 +132,7 @@ export class HttpSseTransport<M = unknown> implements TransportAdapter<M> {
     }
     this.isConnected = false;
     this.onReceiveCallback = null;
+    this.onDisconnectCallback = null;
   }
 }
 export * from "./hybrid-transport";
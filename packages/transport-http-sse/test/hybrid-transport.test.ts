@@ -40,6 +40,10 @@ class MockEventSource {
   }
 }
 
+// The transport's current EventSource
+const eventSourceOf = (transport: HybridTransport) =>
+  (transport as unknown as { eventSource: MockEventSource }).eventSource;
+
 describe("HybridTransport", () => {
   let transport: HybridTransport;
   let mockFetch: any;
@@ -207,4 +211,54 @@ describe("HybridTransport", () => {
     // Should have given up and switched to polling
     expect(transport.getCurrentMode()).toBe("polling");
   });
+
+  it("should report a dropped stream instead of reconnecting", async () => {
+    const onDisconnect = vi.fn();
+    await transport.connect(() => {}, onDisconnect);
+    await vi.advanceTimersByTimeAsync(0);
+
+    const es = eventSourceOf(transport);
+    const connectSpy = vi.spyOn(
+      transport as unknown as { connectSSE(): Promise<void> },
+      "connectSSE"
+    );
+    es.emitError(new Event("error"));
+
+    expect(onDisconnect).toHaveBeenCalledTimes(1);
+    expect(transport.getCurrentMode()).toBe("disconnected");
+    expect(es.readyState).toBe(2);
+
+    // Reconnecting is left to the caller
+    await vi.advanceTimersByTimeAsync(15000);
+    expect(connectSpy).not.toHaveBeenCalled();
+
+    await transport.connect(() => {}, onDisconnect);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(transport.getCurrentMode()).toBe("sse");
+    expect(onDisconnect).toHaveBeenCalledTimes(1);
+  });
+
+  it("should report falling back to polling", async () => {
+    const onDisconnect = vi.fn();
+    await transport.connect(() => {}, onDisconnect);
+    await vi.advanceTimersByTimeAsync(0);
+
+    // Advance time past inactivity timeout
+    await vi.advanceTimersByTimeAsync(1100);
+
+    expect(transport.getCurrentMode()).toBe("polling");
+    expect(onDisconnect).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not report a deliberate disconnect", async () => {
+    const onDisconnect = vi.fn();
+    await transport.connect(() => {}, onDisconnect);
+    await vi.advanceTimersByTimeAsync(0);
+
+    const es = eventSourceOf(transport);
+    await transport.disconnect();
+    es.emitError(new Event("error"));
+
+    expect(onDisconnect).not.toHaveBeenCalled();
+  });
 });
@@ -146,4 +146,29 @@ describe("HttpSseTransport", () => {
     expect(closeSpy).toHaveBeenCalled();
     expect((transport as any).isConnected).toBe(false);
   });
+
+  it("should report a dropped connection", async () => {
+    const onDisconnect = vi.fn();
+    await transport.connect(() => {}, onDisconnect);
+    const es = (transport as any).eventSource as MockEventSource;
+    const closeSpy = vi.spyOn(es, "close");
+
+    es.emitError(new Event("error"));
+
+    expect(onDisconnect).toHaveBeenCalledTimes(1);
+    // Closed, so the caller's reconnect drives the resync
+    expect(closeSpy).toHaveBeenCalled();
+    await expect(transport.send({})).rejects.toThrow("Transport disconnected");
+  });
+
+  it("should not report a deliberate disconnect", async () => {
+    const onDisconnect = vi.fn();
+    await transport.connect(() => {}, onDisconnect);
+    const es = (transport as any).eventSource as MockEventSource;
+
+    await transport.disconnect();
+    es.emitError(new Event("error"));
+
+    expect(onDisconnect).not.toHaveBeenCalled();
+  });
 });
@@ -5,25 +5,32 @@ export class WebSocketTransport<M = unknown> implements TransportAdapter<M> {
   private socket: WebSocket | null = null;
   private url: string;
   private onReceiveCallback: ((msg: M) => void) | null = null;
+  private onDisconnectCallback: (() => void) | null = null;
   private isConnected: boolean = false;
 
   constructor(url: string) {
     this.url = url;
   }
 
-  connect(onReceive: (msg: M) => void): Promise<void> {
+  connect(
+    onReceive: (msg: M) => void,
+    onDisconnect?: () => void
+  ): Promise<void> {
     return new Promise((resolve, reject) => {
       if (this.socket) {
         // Already connected or connecting
         if (this.socket.readyState === WebSocket.OPEN) {
           this.onReceiveCallback = onReceive;
+          this.onDisconnectCallback = onDisconnect ?? null;
           resolve();
           return;
         }
       }
 
       this.onReceiveCallback = onReceive;
-      this.socket = new WebSocket(this.url);
+      this.onDisconnectCallback = onDisconnect ?? null;
+      const socket = new WebSocket(this.url);
+      this.socket = socket;
 
       this.socket.onopen = () => {
         this.isConnected = true;
@@ -50,8 +57,12 @@ export class WebSocketTransport<M = unknown> implements TransportAdapter<M> {
       };
 
       this.socket.onclose = () => {
+        // Ignore sockets closed by disconnect() or replaced since
+        if (this.socket !== socket) return;
+        const wasConnected = this.isConnected;
         this.isConnected = false;
         this.socket = null;
+        if (wasConnected) this.onDisconnectCallback?.();
       };
     });
   }
@@ -72,5 +83,6 @@ export class WebSocketTransport<M = unknown> implements TransportAdapter<M> {
     }
     this.isConnected = false;
     this.onReceiveCallback = null;
+    this.onDisconnectCallback = null;
   }
 }
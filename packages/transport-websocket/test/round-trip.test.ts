@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { WebSocketServer } from "ws";
+import { OTType } from "@open-ot/core";
+import { OTClient } from "@open-ot/client";
+import { MemoryBackend, Server } from "@open-ot/server";
+import { WebSocketTransport } from "../src/index";
+
+// A set of tags, which JSON can't represent directly
+type TagsOp = { add: Set<string> };
+const TagsType: OTType<Set<string>, TagsOp> = {
+  name: "tags",
+  create: () => new Set(),
+  apply: (snapshot, op) => new Set([...snapshot, ...op.add]),
+  transform: (opA, opB) => ({
+    add: new Set([...opA.add].filter((tag) => !opB.add.has(tag))),
+  }),
+  compose: (opA, opB) => ({ add: new Set([...opA.add, ...opB.add]) }),
+  serializeSnapshot: (snapshot) => [...snapshot],
+  deserializeSnapshot: (data) => new Set(data as string[]),
+  serializeOp: (op) => ({ add: [...op.add] }),
+  deserializeOp: (data) => ({ add: new Set((data as { add: string[] }).add) }),
+};
+
+const until = async (condition: () => boolean) => {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+describe("WebSocketTransport with OTClient and Server", () => {
+  let wss: WebSocketServer;
+  let url: string;
+  let clients: OTClient<Set<string>, TagsOp>[];
+
+  beforeEach(async () => {
+    const backend = new MemoryBackend();
+    await backend.createDocument("tags", TagsType, new Set(["a"]));
+    const server = new Server(backend);
+    server.registerType(TagsType);
+
+    const port = 9100 + Math.floor(Math.random() * 800);
+    url = `ws://localhost:${port}`;
+    wss = new WebSocketServer({ port });
+    clients = [];
+
+    // Server glue: messages hold ops as serialized by the client, and
+    // the server returns them serialized
+    wss.on("connection", (ws) => {
+      ws.on("message", async (data) => {
+        const msg = JSON.parse(data.toString());
+        const origin = { clientId: msg.clientId, seq: msg.seq };
+        if (msg.type === "op") {
+          const result = await server.submitOperation(
+            "tags",
+            msg.op,
+            msg.revision,
+            undefined,
+            origin
+          );
+          ws.send(
+            JSON.stringify({
+              type: "ack",
+              seq: msg.seq,
+              revision: result.revision,
+            })
+          );
+          const update = JSON.stringify({ type: "op", ...msg, ...result });
+          wss.clients.forEach((client) => {
+            if (client !== ws) client.send(update);
+          });
+        } else if (msg.type === "resync") {
+          const result = await server.resync("tags", msg.revision);
+          ws.send(JSON.stringify({ type: "resync", ...result }));
+        }
+      });
+    });
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.map((client) => client.disconnect()));
+    wss.close();
+  });
+
+  const connect = async (clientId: string) => {
+    const transport = new WebSocketTransport(url);
+    const client = new OTClient({
+      type: TagsType,
+      initialRevision: 0,
+      initialSnapshot: new Set(["a"]),
+      transport,
+      clientId,
+      reconnectDelay: null,
+    });
+    clients.push(client);
+    await until(() => wss.clients.size === clients.length);
+    return client;
+  };
+
+  it("should round-trip ops of types with serialization hooks", async () => {
+    const alice = await connect("alice");
+    const bob = await connect("bob");
+
+    alice.applyLocal({ add: new Set(["b"]) });
+    await until(() => bob.getRevision() === 1);
+
+    // Broadcast to Bob
+    expect(bob.getSnapshot()).toEqual(new Set(["a", "b"]));
+    // Acknowledged to Alice
+    expect(alice.getRevision()).toBe(1);
+
+    // Carol catches up through a resync
+    const carol = await connect("carol");
+    await carol.reconnect();
+    await until(() => carol.getRevision() === 1);
+    expect(carol.getSnapshot()).toEqual(new Set(["a", "b"]));
+  });
+});
@@ -61,4 +61,26 @@ describe("WebSocketTransport", () => {
 
     await expect(transport.send({})).rejects.toThrow("Transport disconnected");
   });
+
+  it("should report a dropped connection", async () => {
+    server.on("connection", (ws) => {
+      ws.close();
+    });
+
+    const onDisconnect = vi.fn();
+    await transport.connect(() => {}, onDisconnect);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(onDisconnect).toHaveBeenCalledTimes(1);
+    await expect(transport.send({})).rejects.toThrow("Transport disconnected");
+  });
+
+  it("should not report a deliberate disconnect", async () => {
+    const onDisconnect = vi.fn();
+    await transport.connect(() => {}, onDisconnect);
+    await transport.disconnect();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(onDisconnect).not.toHaveBeenCalled();
+  });
 });